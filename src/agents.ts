@@ -4,6 +4,15 @@ import type { AgentDefinition, AgentType } from './types.js';
 
 const home = os.homedir();
 
+/**
+ * Where Claude Desktop keeps claude_desktop_config.json on this platform.
+ */
+function getClaudeDesktopConfigDir(): string {
+  if (process.platform === 'darwin') return path.join(home, 'Library', 'Application Support', 'Claude');
+  if (process.platform === 'win32') return path.join(process.env.APPDATA ?? path.join(home, 'AppData', 'Roaming'), 'Claude');
+  return path.join(home, '.config', 'Claude');
+}
+
 export const AGENT_DEFINITIONS: AgentDefinition[] = [
   {
     type: 'claude-code',
@@ -48,10 +57,85 @@ export const AGENT_DEFINITIONS: AgentDefinition[] = [
     configFormat: 'none',
     persistentToggle: false,
   },
+  {
+    type: 'gemini',
+    displayName: 'Gemini CLI',
+    binaries: ['gemini'],
+    versionFlag: '--version',
+    installCommand: 'npm install -g @google/gemini-cli',
+    yoloFlag: '--yolo',
+    configPath: path.join(home, '.gemini', 'settings.json'),
+    configFormat: 'json',
+    persistentToggle: true,
+    // Gemini's YOLO approval mode is flag-only; this setting is the closest it persists.
+    yoloSettings: [{ path: ['tools', 'autoAccept'], value: true }],
+    yoloSettingsLimit: 'only tool calls Gemini considers safe, such as reads, skip the prompt; use `gemini --yolo` for full bypass',
+  },
+  {
+    type: 'aider',
+    displayName: 'Aider',
+    binaries: ['aider'],
+    versionFlag: '--version',
+    installCommand: 'uv tool install aider-chat',
+    yoloFlag: '--yes-always',
+    configPath: path.join(home, '.aider.conf.yml'),
+    configFormat: 'yaml',
+    persistentToggle: true,
+    // Confirm every prompt, and commit each edit so it can be undone
+    yoloSettings: [
+      { path: ['yes-always'], value: true },
+      { path: ['auto-commits'], value: true },
+    ],
+  },
+  {
+    type: 'cursor-agent',
+    displayName: 'Cursor Agent',
+    binaries: ['cursor-agent'],
+    versionFlag: '--version',
+    installCommand: 'curl https://cursor.com/install -fsS | bash',
+    yoloFlag: '--force',
+    configPath: path.join(home, '.cursor', 'cli-config.json'),
+    configFormat: 'json',
+    persistentToggle: true,
+  },
+  {
+    type: 'claude-desktop',
+    displayName: 'Claude Desktop',
+    binaries: ['claude-desktop'],
+    versionFlag: '--version',
+    installCommand: 'Download Claude Desktop from https://claude.ai/download',
+    // No CLI; auto-approve is set per MCP server in the config.
+    yoloFlag: 'n/a (desktop app)',
+    configPath: path.join(getClaudeDesktopConfigDir(), 'claude_desktop_config.json'),
+    configFormat: 'json',
+    persistentToggle: true,
+    desktopApp: true,
+    manualInstall: true,
+  },
 ];
 
+/** Where user-defined agent definitions (JSON or YAML) are loaded from. */
+export const USER_AGENTS_DIR = path.join(home, '.letsyolo', 'agents.d');
+
+let userDefinitions: AgentDefinition[] = [];
+
+/**
+ * Make user-defined agents known to detect, enable, disable and status.
+ * Replaces any previously registered set.
+ */
+export function registerAgentDefinitions(definitions: AgentDefinition[]): void {
+  userDefinitions = [...definitions];
+}
+
+/**
+ * Built-in agents followed by any registered user-defined ones.
+ */
+export function getAgentDefinitions(): AgentDefinition[] {
+  return [...AGENT_DEFINITIONS, ...userDefinitions];
+}
+
 export function getDefinition(type: AgentType): AgentDefinition | undefined {
-  return AGENT_DEFINITIONS.find((d) => d.type === type);
+  return getAgentDefinitions().find((d) => d.type === type);
 }
 
 export function getDefinitionOrThrow(type: AgentType): AgentDefinition {
@@ -60,16 +144,41 @@ export function getDefinitionOrThrow(type: AgentType): AgentDefinition {
   return def;
 }
 
+const BUILTIN_ALIASES: Record<string, AgentType> = {
+  'claude': 'claude-code',
+  'claude-code': 'claude-code',
+  'claudecode': 'claude-code',
+  'codex': 'codex',
+  'copilot': 'copilot',
+  'github-copilot': 'copilot',
+  'amplifier': 'amplifier',
+  'gemini': 'gemini',
+  'gemini-cli': 'gemini',
+  'google-gemini': 'gemini',
+  'aider': 'aider',
+  'aider-chat': 'aider',
+  'cursor': 'cursor-agent',
+  'cursor-agent': 'cursor-agent',
+  'cursor-cli': 'cursor-agent',
+  'claude-desktop': 'claude-desktop',
+  'claudedesktop': 'claude-desktop',
+  'desktop': 'claude-desktop',
+};
+
 export function parseAgentType(input: string): AgentType | undefined {
   const normalized = input.toLowerCase().trim();
-  const aliases: Record<string, AgentType> = {
-    'claude': 'claude-code',
-    'claude-code': 'claude-code',
-    'claudecode': 'claude-code',
-    'codex': 'codex',
-    'copilot': 'copilot',
-    'github-copilot': 'copilot',
-    'amplifier': 'amplifier',
-  };
-  return aliases[normalized];
+  if (Object.prototype.hasOwnProperty.call(BUILTIN_ALIASES, normalized)) {
+    return BUILTIN_ALIASES[normalized];
+  }
+
+  return userDefinitions.find(
+    (d) => d.type === normalized || (d.aliases ?? []).some((alias) => alias.toLowerCase() === normalized),
+  )?.type;
+}
+
+/**
+ * Whether a name is already taken by a built-in agent or one of its aliases.
+ */
+export function isBuiltinAgentName(name: string): boolean {
+  return Object.prototype.hasOwnProperty.call(BUILTIN_ALIASES, name.toLowerCase().trim());
 }
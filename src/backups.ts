@@ -0,0 +1,188 @@
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { isFileNotFoundError, removeFile, snapshotFile, withFileLock, writeFileAtomic } from './fs-utils.js';
+import type { AgentType, ConfigBackup } from './types.js';
+
+export const BACKUPS_DIR = path.join(os.homedir(), '.letsyolo', 'backups');
+
+/** Number of snapshots kept per agent — older ones are pruned. */
+export const MAX_BACKUPS_PER_AGENT = 20;
+
+interface BackupFile {
+  source: string;
+  createdAt: string;
+  /** Original file content, or null if the file did not exist yet */
+  content: string | null;
+}
+
+/**
+ * Turn a date into a filename-safe timestamp that still sorts chronologically.
+ */
+function formatTimestamp(date: Date): string {
+  return date.toISOString().replace(/[:.]/g, '-');
+}
+
+function isBackupFile(value: unknown): value is BackupFile {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return false;
+  const file = value as Record<string, unknown>;
+  return (
+    typeof file.source === 'string' &&
+    typeof file.createdAt === 'string' &&
+    (typeof file.content === 'string' || file.content === null)
+  );
+}
+
+async function readBackupFile(filePath: string): Promise<BackupFile> {
+  const data = await fs.readFile(filePath, 'utf-8');
+  const parsed: unknown = JSON.parse(data);
+  if (!isBackupFile(parsed)) {
+    throw new Error(`Malformed backup file: ${filePath}`);
+  }
+  return parsed;
+}
+
+async function listAgentBackups(agent: AgentType, backupsDir: string): Promise<ConfigBackup[]> {
+  const agentDir = path.join(backupsDir, agent);
+  let entries: string[];
+  try {
+    entries = await fs.readdir(agentDir);
+  } catch (error) {
+    if (isFileNotFoundError(error)) return [];
+    throw error;
+  }
+
+  const backups: ConfigBackup[] = [];
+  for (const entry of entries) {
+    if (!entry.endsWith('.json')) continue;
+    const backupPath = path.join(agentDir, entry);
+    try {
+      const file = await readBackupFile(backupPath);
+      backups.push({
+        agent,
+        timestamp: entry.slice(0, -'.json'.length),
+        source: file.source,
+        path: backupPath,
+        existed: file.content !== null,
+      });
+    } catch {
+      // Skip unreadable or foreign files
+    }
+  }
+
+  return backups.sort((a, b) => (a.timestamp < b.timestamp ? 1 : a.timestamp > b.timestamp ? -1 : 0));
+}
+
+async function pruneBackups(agent: AgentType, backupsDir: string): Promise<void> {
+  const backups = await listAgentBackups(agent, backupsDir);
+  for (const stale of backups.slice(MAX_BACKUPS_PER_AGENT)) {
+    await fs.rm(stale.path, { force: true });
+  }
+}
+
+async function fileExists(filePath: string): Promise<boolean> {
+  try {
+    await fs.access(filePath);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Snapshot a config file before it gets overwritten.
+ * Missing files are recorded too, so restoring them removes the file again.
+ */
+export async function createBackup(
+  agent: AgentType,
+  filePath: string,
+  backupsDir: string = BACKUPS_DIR,
+): Promise<ConfigBackup> {
+  let content: string | null = null;
+  try {
+    content = await fs.readFile(filePath, 'utf-8');
+  } catch (error) {
+    if (!isFileNotFoundError(error)) throw error;
+  }
+
+  const agentDir = path.join(backupsDir, agent);
+  await fs.mkdir(agentDir, { recursive: true, mode: 0o700 });
+
+  const now = new Date();
+  let timestamp = formatTimestamp(now);
+  // Two writes within the same millisecond must not clobber each other.
+  for (let i = 1; await fileExists(path.join(agentDir, `${timestamp}.json`)); i += 1) {
+    timestamp = `${formatTimestamp(now)}-${i}`;
+  }
+
+  const backupPath = path.join(agentDir, `${timestamp}.json`);
+  const file: BackupFile = { source: filePath, createdAt: now.toISOString(), content };
+  await writeFileAtomic(backupPath, JSON.stringify(file, null, 2) + '\n', { mode: 0o600 });
+  await pruneBackups(agent, backupsDir);
+
+  return { agent, timestamp, source: filePath, path: backupPath, existed: content !== null };
+}
+
+/**
+ * List backups, newest first. Pass an agent to limit the listing to it.
+ */
+export async function listBackups(
+  agent?: AgentType,
+  backupsDir: string = BACKUPS_DIR,
+): Promise<ConfigBackup[]> {
+  if (agent) {
+    return listAgentBackups(agent, backupsDir);
+  }
+
+  let agents: string[];
+  try {
+    agents = await fs.readdir(backupsDir);
+  } catch (error) {
+    if (isFileNotFoundError(error)) return [];
+    throw error;
+  }
+
+  const all: ConfigBackup[] = [];
+  for (const name of agents.sort()) {
+    all.push(...(await listAgentBackups(name as AgentType, backupsDir)));
+  }
+  return all;
+}
+
+/**
+ * Restore a config file from a backup.
+ * Picks the newest backup, or the one whose timestamp equals (or else starts with) `at`.
+ * The current file is snapshotted first so the restore itself can be undone.
+ * It runs under the same lock as enable/disable, and refuses to overwrite a
+ * change made after that snapshot.
+ */
+export async function restoreBackup(
+  agent: AgentType,
+  at?: string,
+  backupsDir: string = BACKUPS_DIR,
+): Promise<{ restored: ConfigBackup; previous: ConfigBackup }> {
+  const backups = await listAgentBackups(agent, backupsDir);
+  const match = at
+    ? (backups.find((b) => b.timestamp === at) ?? backups.find((b) => b.timestamp.startsWith(at)))
+    : backups[0];
+
+  if (!match) {
+    throw new Error(
+      at ? `No backup for ${agent} matches timestamp: ${at}` : `No backups found for ${agent}`,
+    );
+  }
+
+  const file = await readBackupFile(match.path);
+  return withFileLock(file.source, async () => {
+    const snapshot = await snapshotFile(file.source);
+    const previous = await createBackup(agent, file.source, backupsDir);
+
+    if (file.content === null) {
+      await removeFile(file.source, { expected: snapshot });
+    } else {
+      await writeFileAtomic(file.source, file.content, { expected: snapshot });
+    }
+
+    return { restored: match, previous };
+  });
+}
@@ -1,13 +1,50 @@
 import fs from 'node:fs/promises';
+import path from 'node:path';
 import { parse as parseToml, stringify as stringifyToml } from '@iarna/toml';
-import { AGENT_DEFINITIONS, getDefinitionOrThrow } from './agents.js';
-import { detectBinary } from './detect.js';
-import { isFileNotFoundError, writeFileAtomic } from './fs-utils.js';
-import type { AgentType, YoloResult } from './types.js';
+import { getAgentDefinitions, getDefinitionOrThrow } from './agents.js';
+import { createBackup } from './backups.js';
+import { detectBinary, detectDesktopApp } from './detect.js';
+import { createUnifiedDiff } from './diff.js';
+import { isConflictError, isFileNotFoundError, snapshotFile, withFileLock, writeFileAtomic } from './fs-utils.js';
+import type { FileSnapshot } from './fs-utils.js';
+import { DEFAULT_LEVEL, getLevelDefinition, levelFromClaudeMode, levelFromCodexSettings } from './levels.js';
+import { removeTomlTable, removeTomlValue, setTomlValue } from './toml-edit.js';
+import { getAllYoloSettings, resolveForVersion } from './versions.js';
+import { findWrittenValue, forgetWrittenValue, recordWrittenValue } from './written.js';
+import { parseYaml } from './yaml.js';
+import { removeYamlValue, setYamlValue } from './yaml-edit.js';
+import type {
+  AgentDefinition,
+  AgentType,
+  AutonomyLevel,
+  ConfigChange,
+  McpServerState,
+  ProfileYoloState,
+  ProjectYoloState,
+  WrittenScalar,
+  YoloOptions,
+  YoloResult,
+  YoloSetting,
+} from './types.js';
 
 type JsonConfig = Record<string, unknown>;
 type TomlConfig = Record<string, unknown>;
 
+/**
+ * Per-run write state: which agent owns the file (for backups), whether to
+ * actually touch disk, every change made so far, and the snapshots used to
+ * spot concurrent edits.
+ */
+interface WriteContext {
+  agent: AgentType;
+  dryRun: boolean;
+  changes: ConfigChange[];
+  /** What each file looked like when the current edit started */
+  snapshots: Map<string, FileSnapshot>;
+  /** Files already backed up, so a retried edit doesn't back them up again */
+  backedUp: Set<string>;
+}
+
 function toToml(obj: TomlConfig): string {
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   return stringifyToml(obj as any).trimEnd();
@@ -45,11 +82,42 @@ async function readJsonConfig(filePath: string): Promise<JsonConfig> {
   }
 }
 
+async function readCurrentContent(filePath: string): Promise<string | null> {
+  try {
+    return await fs.readFile(filePath, 'utf-8');
+  } catch (error) {
+    if (isFileNotFoundError(error)) return null;
+    throw error;
+  }
+}
+
+/**
+ * Write new content for a config file. With a context, the change is recorded
+ * and the current file backed up first — or, in a dry run, nothing is written.
+ */
+async function commitConfig(filePath: string, content: string, ctx?: WriteContext): Promise<void> {
+  if (ctx) {
+    const before = await readCurrentContent(filePath);
+    ctx.changes.push({
+      path: filePath,
+      before,
+      after: content,
+      patch: createUnifiedDiff(filePath, before, content),
+    });
+    if (ctx.dryRun) return;
+    if (!ctx.backedUp.has(filePath)) {
+      await createBackup(ctx.agent, filePath);
+      ctx.backedUp.add(filePath);
+    }
+  }
+  await writeFileAtomic(filePath, content, { expected: ctx?.snapshots.get(filePath) });
+}
+
 /**
  * Write a JSON config file, creating parent dirs as needed.
  */
-async function writeJsonConfig(filePath: string, config: JsonConfig): Promise<void> {
-  await writeFileAtomic(filePath, JSON.stringify(config, null, 2) + '\n');
+async function writeJsonConfig(filePath: string, config: JsonConfig, ctx?: WriteContext): Promise<void> {
+  await commitConfig(filePath, JSON.stringify(config, null, 2) + '\n', ctx);
 }
 
 /**
@@ -75,8 +143,40 @@ async function readTomlConfig(filePath: string): Promise<TomlConfig> {
 /**
  * Write a TOML config file, creating parent dirs as needed.
  */
-async function writeTomlConfig(filePath: string, config: TomlConfig): Promise<void> {
-  await writeFileAtomic(filePath, toToml(config) + '\n');
+async function writeTomlConfig(filePath: string, config: TomlConfig, ctx?: WriteContext): Promise<void> {
+  await commitConfig(filePath, toToml(config) + '\n', ctx);
+}
+
+/**
+ * Read a YAML config file as text, returning '' if it doesn't exist.
+ * The text is validated so edits never start from a broken file.
+ */
+async function readYamlText(filePath: string): Promise<string> {
+  const text = (await readCurrentContent(filePath)) ?? '';
+  parseYamlText(text, filePath);
+  return text;
+}
+
+function parseYamlText(text: string, filePath: string): JsonConfig | null {
+  let parsed: unknown;
+  try {
+    parsed = parseYaml(text);
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new Error(`Invalid YAML in ${filePath}: ${reason}`);
+  }
+  if (parsed === null) return null;
+  if (typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new Error(`Expected a YAML mapping in ${filePath}`);
+  }
+  return parsed as JsonConfig;
+}
+
+/**
+ * Read a YAML config file, returning {} if it doesn't exist or is empty.
+ */
+async function readYamlConfig(filePath: string): Promise<JsonConfig> {
+  return parseYamlText((await readCurrentContent(filePath)) ?? '', filePath) ?? {};
 }
 
 function getOrCreateObject(parent: JsonConfig, key: string): JsonConfig {
@@ -102,87 +202,304 @@ function requireConfigPath(configPath: string | undefined, agentName: string): s
   return configPath;
 }
 
+/**
+ * Path of Claude Code's project-local (not checked in) settings file.
+ */
+export function getClaudeProjectConfigPath(projectDir: string): string {
+  return path.join(path.resolve(projectDir), '.claude', 'settings.local.json');
+}
+
+/**
+ * Pick the config file an enable/disable run should touch. Project scope and
+ * permission rules only exist for Claude Code, profiles only for Codex.
+ */
+function resolveConfigPath(def: AgentDefinition, options: YoloOptions): string | undefined {
+  const hasRules = (options.allow?.length ?? 0) > 0 || (options.deny?.length ?? 0) > 0;
+  if (def.type !== 'claude-code' && (options.projectDir !== undefined || hasRules)) {
+    throw new Error(`${def.displayName} does not support project-scoped settings or permission rules`);
+  }
+
+  if (def.type !== 'codex' && options.profile !== undefined) {
+    throw new Error(`${def.displayName} does not support profiles`);
+  }
+
+  if (def.type !== 'claude-desktop' && (options.servers?.length ?? 0) > 0) {
+    throw new Error(`${def.displayName} does not have MCP server settings`);
+  }
+
+  // Other agents have a single on/off switch, which is full-bypass.
+  const supportsLevels = def.type === 'claude-code' || def.type === 'codex';
+  if (!supportsLevels && options.level !== undefined && options.level !== 'full-bypass') {
+    throw new Error(`${def.displayName} only supports the full-bypass level`);
+  }
+
+  return options.projectDir !== undefined ? getClaudeProjectConfigPath(options.projectDir) : def.configPath;
+}
+
+// --- Values letsyolo wrote ---
+
+/**
+ * Remember a value an enable wrote, and what it replaced. Dry runs leave no record.
+ */
+async function rememberWrite(ctx: WriteContext, configPath: string, keyPath: string[], value: WrittenScalar, current: unknown): Promise<void> {
+  if (!ctx.dryRun) await recordWrittenValue(configPath, keyPath, value, current);
+}
+
+async function forgetWrite(ctx: WriteContext, configPath: string, keyPath: string[]): Promise<void> {
+  if (!ctx.dryRun) await forgetWrittenValue(configPath, keyPath);
+}
+
+/** How disable reverts a key: restore a value, remove it (`{}`), or leave it alone (null). */
+type Revert = { restore?: WrittenScalar } | null;
+
+/**
+ * Only a value letsyolo recorded writing is reverted, back to what the key
+ * held before. `bypassValue`, when given, goes even without a record: it is
+ * never a cautious choice, and releases before the record existed wrote it too.
+ */
+async function planRevert(configPath: string, keyPath: string[], current: unknown, bypassValue?: WrittenScalar): Promise<Revert> {
+  const written = await findWrittenValue(configPath, keyPath);
+  if (written && written.value === current) {
+    return written.previous !== undefined ? { restore: written.previous } : {};
+  }
+  return bypassValue !== undefined && current === bypassValue ? {} : null;
+}
+
 // --- Per-agent enable/disable logic ---
 
-async function enableClaudeCode(configPath: string): Promise<string> {
+function getStringList(parent: JsonConfig, key: string): string[] {
+  const value = parent[key];
+  return Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : [];
+}
+
+const CLAUDE_MODE_PATH = ['permissions', 'defaultMode'];
+
+async function enableClaudeCode(configPath: string, ctx: WriteContext, options: YoloOptions): Promise<string> {
+  const mode = getLevelDefinition(options.level ?? DEFAULT_LEVEL).claudeMode;
   const config = await readJsonConfig(configPath);
   const permissions = getOrCreateObject(config, 'permissions');
-  permissions.defaultMode = 'bypassPermissions';
-  await writeJsonConfig(configPath, config);
-  return 'Set permissions.defaultMode = "bypassPermissions"';
+  const previous = permissions.defaultMode;
+  permissions.defaultMode = mode;
+
+  const notes = [`Set permissions.defaultMode = "${mode}"`];
+  if (mode === 'dontAsk') {
+    notes.push('tools not pre-approved are denied, not run (add them with --allow)');
+  }
+  for (const key of ['allow', 'deny'] as const) {
+    const rules = options[key] ?? [];
+    if (rules.length === 0) continue;
+    const current = getStringList(permissions, key);
+    const added = rules.filter((rule) => !current.includes(rule));
+    permissions[key] = [...current, ...added];
+    notes.push(`added ${added.length} ${key} rule(s)`);
+  }
+
+  await writeJsonConfig(configPath, config, ctx);
+  await rememberWrite(ctx, configPath, CLAUDE_MODE_PATH, mode, previous);
+  return notes.join(', ');
 }
 
-async function disableClaudeCode(configPath: string): Promise<string> {
+async function disableClaudeCode(configPath: string, ctx: WriteContext, options: YoloOptions): Promise<string> {
   const config = await readJsonConfig(configPath);
   const permissions = config.permissions;
+  const notes: string[] = [];
 
   if (permissions && typeof permissions === 'object' && !Array.isArray(permissions)) {
     const perms = permissions as JsonConfig;
-    if (perms.defaultMode === 'bypassPermissions') {
+    const revert = await planRevert(configPath, CLAUDE_MODE_PATH, perms.defaultMode, 'bypassPermissions');
+    if (revert?.restore !== undefined) {
+      perms.defaultMode = revert.restore;
+      notes.push(`Restored permissions.defaultMode = ${JSON.stringify(revert.restore)}`);
+    } else if (revert) {
       delete perms.defaultMode;
+      notes.push('Removed permissions.defaultMode');
+    }
+
+    for (const key of ['allow', 'deny'] as const) {
+      const rules = options[key] ?? [];
+      if (rules.length === 0 || !Array.isArray(perms[key])) continue;
+      const current = perms[key] as unknown[];
+      const kept = current.filter((rule) => typeof rule !== 'string' || !rules.includes(rule));
+      if (kept.length === current.length) continue;
+      notes.push(`removed ${current.length - kept.length} ${key} rule(s)`);
+      if (kept.length > 0) perms[key] = kept;
+      else delete perms[key];
+    }
+
+    if (notes.length > 0) {
       if (Object.keys(perms).length === 0) {
         delete config.permissions;
       }
-      await writeJsonConfig(configPath, config);
-      return 'Removed permissions.defaultMode';
+      await writeJsonConfig(configPath, config, ctx);
+      await forgetWrite(ctx, configPath, CLAUDE_MODE_PATH);
+      return notes.join(', ');
     }
   }
 
-  return 'Already disabled (no bypassPermissions found)';
+  // A recorded value the user has since changed is theirs now.
+  await forgetWrite(ctx, configPath, CLAUDE_MODE_PATH);
+  return 'Already disabled (no permission mode set by letsyolo)';
 }
 
-function isClaudeCodeEnabled(config: JsonConfig): boolean {
+function getClaudeLevel(config: JsonConfig): AutonomyLevel | null {
   const permissions = config.permissions;
   if (permissions && typeof permissions === 'object' && !Array.isArray(permissions)) {
-    return (permissions as JsonConfig).defaultMode === 'bypassPermissions';
+    return levelFromClaudeMode((permissions as JsonConfig).defaultMode);
+  }
+  return null;
+}
+
+function describeClaudeLevel(level: AutonomyLevel | null, fallback: string): string {
+  return level ? `permissions.defaultMode = "${getLevelDefinition(level).claudeMode}"` : fallback;
+}
+
+/**
+ * Read the project-local Claude Code settings for status output.
+ */
+async function checkClaudeProject(projectDir: string): Promise<ProjectYoloState> {
+  const configPath = getClaudeProjectConfigPath(projectDir);
+  const content = await readCurrentContent(configPath);
+  if (content === null) {
+    return { configPath, enabled: false, level: null, details: 'No project-local settings' };
+  }
+
+  const config = await readJsonConfig(configPath);
+  const level = getClaudeLevel(config);
+  const permissions = config.permissions && typeof config.permissions === 'object' && !Array.isArray(config.permissions)
+    ? (config.permissions as JsonConfig)
+    : {};
+  const parts = [describeClaudeLevel(level, 'No permission mode override')];
+  for (const key of ['allow', 'deny'] as const) {
+    const rules = getStringList(permissions, key);
+    if (rules.length > 0) parts.push(`${rules.length} ${key} rule(s)`);
+  }
+
+  return { configPath, enabled: level === 'full-bypass', level, details: parts.join(', ') };
+}
+
+/**
+ * Read a TOML config file as text, returning '' if it doesn't exist.
+ * The text is validated so edits never start from a broken file.
+ */
+async function readTomlText(filePath: string): Promise<string> {
+  const text = (await readCurrentContent(filePath)) ?? '';
+  try {
+    fromToml(text);
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new Error(`Invalid TOML in ${filePath}: ${reason}`);
   }
-  return false;
+  return text;
 }
 
-async function enableCodex(configPath: string): Promise<string> {
-  const config = await readTomlConfig(configPath);
-  config.approval_policy = 'never';
-  config.sandbox_mode = 'danger-full-access';
-  await writeTomlConfig(configPath, config);
-  return 'Set approval_policy = "never", sandbox_mode = "danger-full-access"';
+function describeCodexSettings(level: AutonomyLevel): string {
+  const { approvalPolicy, sandboxMode } = getLevelDefinition(level).codex;
+  return `approval_policy = "${approvalPolicy}", sandbox_mode = "${sandboxMode}"`;
 }
 
-async function disableCodex(configPath: string): Promise<string> {
-  const config = await readTomlConfig(configPath);
-  let changed = false;
+async function enableCodex(configPath: string, ctx: WriteContext, options: YoloOptions): Promise<string> {
+  const level = options.level ?? DEFAULT_LEVEL;
+  const { approvalPolicy, sandboxMode } = getLevelDefinition(level).codex;
+  // A profile keeps the top-level defaults untouched; `codex --profile <name>` opts in.
+  const prefix = options.profile !== undefined ? ['profiles', options.profile] : [];
+  let text = await readTomlText(configPath);
+  const config = fromToml(text);
+  text = setTomlValue(text, [...prefix, 'approval_policy'], approvalPolicy);
+  text = setTomlValue(text, [...prefix, 'sandbox_mode'], sandboxMode);
+  await commitConfig(configPath, text, ctx);
+  await rememberWrite(ctx, configPath, [...prefix, 'approval_policy'], approvalPolicy, getPathValue(config, [...prefix, 'approval_policy']));
+  await rememberWrite(ctx, configPath, [...prefix, 'sandbox_mode'], sandboxMode, getPathValue(config, [...prefix, 'sandbox_mode']));
+  // A profile table letsyolo created is marked so disable knows it may remove it.
+  if (prefix.length > 0 && getPathValue(config, prefix) === undefined) {
+    await rememberWrite(ctx, configPath, prefix, true, undefined);
+  }
+
+  const settings = describeCodexSettings(level);
+  return options.profile !== undefined ? `Set ${settings} in [profiles.${options.profile}]` : `Set ${settings}`;
+}
+
+/** Codex keys letsyolo manages (top-level or in a profile), with their full-bypass values */
+const CODEX_BYPASS_VALUES: Record<string, string> = {
+  approval_policy: 'never',
+  sandbox_mode: 'danger-full-access',
+};
 
-  if (getTomlString(config, 'approval_policy') === 'never') {
-    delete config.approval_policy;
-    changed = true;
+async function disableCodex(configPath: string, ctx: WriteContext, profile?: string): Promise<string> {
+  const original = await readTomlText(configPath);
+  const config = fromToml(original);
+  const prefix = profile !== undefined ? ['profiles', profile] : [];
+  let text = original;
+
+  const notes: string[] = [];
+  for (const [key, bypassValue] of Object.entries(CODEX_BYPASS_VALUES)) {
+    const keyPath = [...prefix, key];
+    const revert = await planRevert(configPath, keyPath, getPathValue(config, keyPath), bypassValue);
+    if (revert?.restore !== undefined) {
+      text = setTomlValue(text, keyPath, revert.restore);
+      notes.push(`restored ${keyPath.join('.')} = ${JSON.stringify(revert.restore)}`);
+    } else if (revert) {
+      text = removeTomlValue(text, keyPath);
+      notes.push(`removed ${keyPath.join('.')}`);
+    }
   }
 
-  if (getTomlString(config, 'sandbox_mode') === 'danger-full-access') {
-    delete config.sandbox_mode;
-    changed = true;
+  // Only a table letsyolo created goes, and only once nothing else is in it.
+  if (profile !== undefined && (await findWrittenValue(configPath, prefix))) {
+    const table = getPathValue(fromToml(text), prefix);
+    if (table && typeof table === 'object' && Object.keys(table).length === 0) {
+      text = removeTomlTable(text, prefix);
+      notes.push(`removed [profiles.${profile}]`);
+      // Leaving `profile` pointing at a removed table would break Codex.
+      if (getTomlString(config, 'profile') === profile) {
+        text = removeTomlValue(text, ['profile']);
+      }
+    }
   }
 
-  if (changed) {
-    await writeTomlConfig(configPath, config);
-    return 'Removed approval_policy and sandbox_mode overrides';
+  if (text !== original) {
+    await commitConfig(configPath, text, ctx);
+  }
+  for (const key of Object.keys(CODEX_BYPASS_VALUES)) {
+    await forgetWrite(ctx, configPath, [...prefix, key]);
+  }
+  if (profile !== undefined) {
+    await forgetWrite(ctx, configPath, prefix);
   }
 
-  return 'Already disabled (no yolo settings found)';
+  if (notes.length === 0) {
+    return profile !== undefined ? `Already disabled (no yolo settings in [profiles.${profile}])` : 'Already disabled (no yolo settings found)';
+  }
+  const details = notes.join(', ');
+  return details.charAt(0).toUpperCase() + details.slice(1);
 }
 
-function isCodexEnabled(config: TomlConfig): boolean {
-  return (
-    getTomlString(config, 'approval_policy') === 'never' &&
-    getTomlString(config, 'sandbox_mode') === 'danger-full-access'
-  );
+function getCodexLevel(config: TomlConfig): AutonomyLevel | null {
+  return levelFromCodexSettings(config.approval_policy, config.sandbox_mode);
+}
+
+/**
+ * List the Codex profiles and the autonomy level each maps to.
+ */
+function getCodexProfiles(config: TomlConfig): ProfileYoloState[] {
+  const profiles = config.profiles;
+  if (!profiles || typeof profiles !== 'object' || Array.isArray(profiles)) {
+    return [];
+  }
+
+  const defaultProfile = getTomlString(config, 'profile');
+  return Object.entries(profiles as TomlConfig).map(([name, value]) => {
+    const level = value && typeof value === 'object' && !Array.isArray(value) ? getCodexLevel(value as TomlConfig) : null;
+    return { name, enabled: level === 'full-bypass', level, isDefault: name === defaultProfile };
+  });
 }
 
-async function enableCopilot(configPath: string): Promise<string> {
+async function enableCopilot(configPath: string, ctx: WriteContext): Promise<string> {
   // Copilot has no persistent yolo toggle — only CLI flags.
   const config = await readJsonConfig(configPath);
   if (!Array.isArray(config.trusted_folders)) {
     config.trusted_folders = [];
   }
-  await writeJsonConfig(configPath, config);
+  await writeJsonConfig(configPath, config, ctx);
   return 'No persistent yolo toggle exists for Copilot. Use `copilot --yolo` per-session. Config preserved.';
 }
 
@@ -200,12 +517,402 @@ async function disableAmplifier(_configPath?: string): Promise<string> {
   return 'No persistent yolo toggle to disable for Amplifier.';
 }
 
+/**
+ * Cursor Agent permission tokens that allow every shell command, read and
+ * write without prompting.
+ */
+const CURSOR_YOLO_RULES = ['Shell(*)', 'Read(**)', 'Write(**)'];
+
+function getCursorAllowList(config: JsonConfig): string[] {
+  const permissions = config.permissions;
+  if (!permissions || typeof permissions !== 'object' || Array.isArray(permissions)) return [];
+  return getStringList(permissions as JsonConfig, 'allow');
+}
+
+function isCursorEnabled(config: JsonConfig): boolean {
+  const allow = getCursorAllowList(config);
+  return CURSOR_YOLO_RULES.every((rule) => allow.includes(rule));
+}
+
+async function enableCursorAgent(configPath: string, ctx: WriteContext): Promise<string> {
+  const config = await readJsonConfig(configPath);
+  const permissions = getOrCreateObject(config, 'permissions');
+  const current = getStringList(permissions, 'allow');
+  const added = CURSOR_YOLO_RULES.filter((rule) => !current.includes(rule));
+  permissions.allow = [...current, ...added];
+
+  await writeJsonConfig(configPath, config, ctx);
+  return `Added ${CURSOR_YOLO_RULES.join(', ')} to permissions.allow`;
+}
+
+async function disableCursorAgent(configPath: string, ctx: WriteContext): Promise<string> {
+  const config = await readJsonConfig(configPath);
+  const permissions = config.permissions;
+  if (!permissions || typeof permissions !== 'object' || Array.isArray(permissions)) {
+    return 'Already disabled (no allowlist found)';
+  }
+
+  const perms = permissions as JsonConfig;
+  const current = Array.isArray(perms.allow) ? (perms.allow as unknown[]) : [];
+  const kept = current.filter((rule) => typeof rule !== 'string' || !CURSOR_YOLO_RULES.includes(rule));
+  if (kept.length === current.length) {
+    return 'Already disabled (no yolo rules in permissions.allow)';
+  }
+
+  // Cursor expects the allow list to exist, so leave it empty rather than removing it.
+  perms.allow = kept;
+  await writeJsonConfig(configPath, config, ctx);
+  return `Removed ${current.length - kept.length} rule(s) from permissions.allow`;
+}
+
+// --- Claude Desktop (MCP tool auto-approve) ---
+
+/**
+ * Claude Desktop neither documents nor is known to read `autoApprove`, so
+ * servers carrying it are reported as marked, never as YOLO mode being on.
+ */
+const DESKTOP_UNVERIFIED = 'unverified: Claude Desktop does not document autoApprove, so it may have no effect';
+
+function getMcpServers(config: JsonConfig): Record<string, JsonConfig> {
+  const servers = config.mcpServers;
+  if (!servers || typeof servers !== 'object' || Array.isArray(servers)) return {};
+  return Object.fromEntries(
+    Object.entries(servers).filter(([, server]) => server && typeof server === 'object' && !Array.isArray(server)),
+  ) as Record<string, JsonConfig>;
+}
+
+function getMcpServerStates(config: JsonConfig): McpServerState[] {
+  return Object.entries(getMcpServers(config)).map(([name, server]) => ({ name, autoApprove: server.autoApprove === true }));
+}
+
+/**
+ * The servers an enable/disable run applies to: the named ones, or every
+ * configured server when none are named.
+ */
+function selectMcpServers(config: JsonConfig, names: string[] = []): [string, JsonConfig][] {
+  const servers = getMcpServers(config);
+  if (names.length === 0) return Object.entries(servers);
+
+  const unknown = names.filter((name) => !Object.prototype.hasOwnProperty.call(servers, name));
+  if (unknown.length > 0) {
+    const configured = Object.keys(servers);
+    throw new Error(`Unknown MCP server: ${unknown.join(', ')} (configured: ${configured.length > 0 ? configured.join(', ') : 'none'})`);
+  }
+  return names.map((name) => [name, servers[name]]);
+}
+
+function describeMcpServers(servers: McpServerState[]): string {
+  if (servers.length === 0) return 'No MCP servers configured';
+  const approved = servers.filter((server) => server.autoApprove).length;
+  const summary = `${approved} of ${servers.length} MCP server(s) marked autoApprove`;
+  return approved > 0 ? `${summary} (${DESKTOP_UNVERIFIED})` : summary;
+}
+
+async function enableClaudeDesktop(configPath: string, ctx: WriteContext, options: YoloOptions): Promise<string> {
+  const config = await readJsonConfig(configPath);
+  const selected = selectMcpServers(config, options.servers);
+  // Desktop without servers is common; `enable` for every agent shouldn't fail on it.
+  if (selected.length === 0) {
+    return `Skipped: no MCP servers configured in ${configPath}`;
+  }
+
+  for (const [, server] of selected) {
+    server.autoApprove = true;
+  }
+  await writeJsonConfig(configPath, config, ctx);
+  return `Set autoApprove = true for ${selected.map(([name]) => name).join(', ')} (${DESKTOP_UNVERIFIED})`;
+}
+
+async function disableClaudeDesktop(configPath: string, ctx: WriteContext, options: YoloOptions): Promise<string> {
+  const config = await readJsonConfig(configPath);
+  const approved = selectMcpServers(config, options.servers).filter(([, server]) => server.autoApprove === true);
+  if (approved.length === 0) {
+    return 'Already disabled (no auto-approved MCP servers)';
+  }
+
+  for (const [, server] of approved) {
+    delete server.autoApprove;
+  }
+  await writeJsonConfig(configPath, config, ctx);
+  return `Removed autoApprove for ${approved.map(([name]) => name).join(', ')}`;
+}
+
+// --- Declarative agents (user-defined in ~/.letsyolo/agents.d) ---
+
+function getPathValue(config: JsonConfig, keyPath: string[]): unknown {
+  let current: unknown = config;
+  for (const key of keyPath) {
+    if (!current || typeof current !== 'object' || Array.isArray(current)) return undefined;
+    current = (current as JsonConfig)[key];
+  }
+  return current;
+}
+
+function describeSettings(settings: YoloSetting[]): string {
+  return settings.map((setting) => `${setting.path.join('.')} = ${JSON.stringify(setting.value)}`).join(', ');
+}
+
+function isDeclarativeEnabled(config: JsonConfig, settings: YoloSetting[]): boolean {
+  return settings.every((setting) => getPathValue(config, setting.path) === setting.value);
+}
+
+async function readDeclarativeConfig(def: AgentDefinition, configPath: string): Promise<JsonConfig> {
+  if (def.configFormat === 'toml') return readTomlConfig(configPath);
+  if (def.configFormat === 'yaml') return readYamlConfig(configPath);
+  return readJsonConfig(configPath);
+}
+
+async function enableDeclarative(def: AgentDefinition, configPath: string, ctx: WriteContext): Promise<string> {
+  const settings = def.yoloSettings ?? [];
+  const before = await readDeclarativeConfig(def, configPath);
+  if (def.configFormat === 'toml') {
+    let text = await readTomlText(configPath);
+    for (const setting of settings) {
+      text = setTomlValue(text, setting.path, setting.value);
+    }
+    await commitConfig(configPath, text, ctx);
+  } else if (def.configFormat === 'yaml') {
+    let text = await readYamlText(configPath);
+    for (const setting of settings) {
+      text = setYamlValue(text, setting.path, setting.value);
+    }
+    await commitConfig(configPath, text, ctx);
+  } else {
+    const config = await readJsonConfig(configPath);
+    for (const setting of settings) {
+      const parent = setting.path.slice(0, -1).reduce(getOrCreateObject, config);
+      parent[setting.path[setting.path.length - 1]] = setting.value;
+    }
+    await writeJsonConfig(configPath, config, ctx);
+  }
+  for (const setting of settings) {
+    await rememberWrite(ctx, configPath, setting.path, setting.value, getPathValue(before, setting.path));
+  }
+  return `Set ${describeSettings(settings)}`;
+}
+
+async function disableDeclarative(def: AgentDefinition, configPath: string, ctx: WriteContext): Promise<string> {
+  const config = await readDeclarativeConfig(def, configPath);
+  // Whichever release's keys an earlier enable wrote, they all go back. There
+  // is no bypass value to fall back on, so a value set by hand always stays.
+  const settings = getAllYoloSettings(def);
+  const reverts: { path: string[]; restore?: WrittenScalar }[] = [];
+  for (const setting of settings) {
+    const revert = await planRevert(configPath, setting.path, getPathValue(config, setting.path));
+    if (revert) reverts.push({ path: setting.path, ...revert });
+  }
+
+  if (def.configFormat === 'toml' && reverts.length > 0) {
+    let text = await readTomlText(configPath);
+    for (const revert of reverts) {
+      if (revert.restore !== undefined) {
+        text = setTomlValue(text, revert.path, revert.restore);
+        continue;
+      }
+      text = removeTomlValue(text, revert.path);
+      // Tables left empty go too, so enable + disable leaves the file as it was.
+      for (let depth = revert.path.length - 1; depth > 0; depth -= 1) {
+        const table = getPathValue(fromToml(text), revert.path.slice(0, depth));
+        if (!table || typeof table !== 'object' || Object.keys(table).length > 0) break;
+        text = removeTomlTable(text, revert.path.slice(0, depth));
+      }
+    }
+    await commitConfig(configPath, text, ctx);
+  } else if (def.configFormat === 'yaml' && reverts.length > 0) {
+    let text = await readYamlText(configPath);
+    for (const revert of reverts) {
+      if (revert.restore !== undefined) {
+        text = setYamlValue(text, revert.path, revert.restore);
+        continue;
+      }
+      text = removeYamlValue(text, revert.path);
+      // Mappings left empty read back as null; drop them too.
+      for (let depth = revert.path.length - 1; depth > 0; depth -= 1) {
+        if (getPathValue(parseYamlText(text, configPath) ?? {}, revert.path.slice(0, depth)) !== null) break;
+        text = removeYamlValue(text, revert.path.slice(0, depth));
+      }
+    }
+    await commitConfig(configPath, text, ctx);
+  } else if (reverts.length > 0) {
+    for (const revert of reverts) {
+      const key = revert.path[revert.path.length - 1];
+      if (revert.restore !== undefined) {
+        (getPathValue(config, revert.path.slice(0, -1)) as JsonConfig)[key] = revert.restore;
+        continue;
+      }
+      // Drop the key, then any parent objects it leaves empty.
+      for (let depth = revert.path.length; depth > 0; depth -= 1) {
+        const parent = getPathValue(config, revert.path.slice(0, depth - 1)) as JsonConfig;
+        const value = parent[revert.path[depth - 1]];
+        const isEmptyObject = value && typeof value === 'object' && !Array.isArray(value) && Object.keys(value).length === 0;
+        if (depth < revert.path.length && !isEmptyObject) break;
+        delete parent[revert.path[depth - 1]];
+      }
+    }
+    await writeJsonConfig(configPath, config, ctx);
+  }
+  // A recorded value the user has since changed is theirs now.
+  for (const setting of settings) {
+    await forgetWrite(ctx, configPath, setting.path);
+  }
+
+  if (reverts.length === 0) {
+    return 'Already disabled (no yolo settings set by letsyolo)';
+  }
+  const details = reverts
+    .map((revert) => revert.restore !== undefined
+      ? `restored ${revert.path.join('.')} = ${JSON.stringify(revert.restore)}`
+      : `removed ${revert.path.join('.')}`)
+    .join(', ');
+  return details.charAt(0).toUpperCase() + details.slice(1);
+}
+
+function describeSessionOnly(def: AgentDefinition): string {
+  return `No persistent yolo toggle exists for ${def.displayName}. Use \`${def.binaries[0]} ${def.yoloFlag}\` per-session.`;
+}
+
+/**
+ * Desktop apps count as installed when their config file exists; no binary is run.
+ */
+async function detectAgent(def: AgentDefinition): Promise<{ found: boolean; version?: string | null }> {
+  return def.desktopApp ? detectDesktopApp(def) : detectBinary(def.binaries, def.versionFlag);
+}
+
+function createWriteContext(agent: AgentType, options: YoloOptions): WriteContext {
+  return { agent, dryRun: options.dryRun ?? false, changes: [], snapshots: new Map(), backedUp: new Set() };
+}
+
+/**
+ * Dry runs carry the would-be changes so callers can preview them.
+ */
+function dryRunFields(ctx: WriteContext): Pick<YoloResult, 'dryRun' | 'changes'> {
+  return ctx.dryRun ? { dryRun: true, changes: ctx.changes } : {};
+}
+
+/** How often a read-modify-write is redone before giving up on a file that keeps changing. */
+const MAX_EDIT_ATTEMPTS = 3;
+
+/**
+ * Run a read-modify-write of `configPath` under an advisory lock. Every write
+ * checks the file still matches what was read; if an agent saved it in the
+ * meantime, the edit is redone on top of the new content. Only the first
+ * attempt backs the file up, so one edit leaves one backup.
+ */
+async function editConfig<T>(configPath: string | undefined, ctx: WriteContext, edit: () => Promise<T>): Promise<T> {
+  if (configPath === undefined || ctx.dryRun) return edit();
+
+  return withFileLock(configPath, async () => {
+    const changeCount = ctx.changes.length;
+    for (let attempt = 1; ; attempt += 1) {
+      ctx.snapshots.set(configPath, await snapshotFile(configPath));
+      try {
+        return await edit();
+      } catch (error) {
+        if (!isConflictError(error)) throw error;
+        ctx.changes.splice(changeCount);
+        if (attempt >= MAX_EDIT_ATTEMPTS) {
+          throw new Error(
+            `${configPath} kept changing while letsyolo was updating it (${MAX_EDIT_ATTEMPTS} attempts). Close running agent sessions and try again.`,
+          );
+        }
+      }
+    }
+  });
+}
+
+/**
+ * Make one agent's enable edit. Re-run from scratch when the config changed
+ * underneath it, so it must read everything it writes.
+ */
+async function applyEnable(
+  def: AgentDefinition,
+  configPath: string | undefined,
+  ctx: WriteContext,
+  options: YoloOptions,
+): Promise<{ details: string; level: AutonomyLevel | undefined }> {
+  let details: string;
+  let level: AutonomyLevel | undefined;
+  switch (def.type) {
+    case 'claude-code':
+      details = await enableClaudeCode(requireConfigPath(configPath, def.displayName), ctx, options);
+      level = options.level ?? DEFAULT_LEVEL;
+      break;
+    case 'codex':
+      details = await enableCodex(requireConfigPath(configPath, def.displayName), ctx, options);
+      level = options.level ?? DEFAULT_LEVEL;
+      break;
+    case 'copilot':
+      details = await enableCopilot(requireConfigPath(configPath, def.displayName), ctx);
+      break;
+    case 'amplifier':
+      details = await enableAmplifier(configPath);
+      break;
+    case 'cursor-agent':
+      details = await enableCursorAgent(requireConfigPath(configPath, def.displayName), ctx);
+      level = 'full-bypass';
+      break;
+    case 'claude-desktop':
+      details = await enableClaudeDesktop(requireConfigPath(configPath, def.displayName), ctx, options);
+      break;
+    default:
+      if (def.yoloSettings) {
+        details = await enableDeclarative(def, requireConfigPath(configPath, def.displayName), ctx);
+        // None of the levels describes settings that fall short of full bypass.
+        if (def.yoloSettingsLimit) {
+          details += ` (${def.yoloSettingsLimit})`;
+        } else {
+          level = 'full-bypass';
+        }
+      } else {
+        details = describeSessionOnly(def);
+      }
+  }
+
+  return { details, level };
+}
+
+async function applyDisable(
+  def: AgentDefinition,
+  configPath: string | undefined,
+  ctx: WriteContext,
+  options: YoloOptions,
+): Promise<string> {
+  let details: string;
+  switch (def.type) {
+    case 'claude-code':
+      details = await disableClaudeCode(requireConfigPath(configPath, def.displayName), ctx, options);
+      break;
+    case 'codex':
+      details = await disableCodex(requireConfigPath(configPath, def.displayName), ctx, options.profile);
+      break;
+    case 'copilot':
+      details = await disableCopilot(requireConfigPath(configPath, def.displayName));
+      break;
+    case 'amplifier':
+      details = await disableAmplifier(configPath);
+      break;
+    case 'cursor-agent':
+      details = await disableCursorAgent(requireConfigPath(configPath, def.displayName), ctx);
+      break;
+    case 'claude-desktop':
+      details = await disableClaudeDesktop(requireConfigPath(configPath, def.displayName), ctx, options);
+      break;
+    default:
+      details = def.yoloSettings
+        ? await disableDeclarative(def, requireConfigPath(configPath, def.displayName), ctx)
+        : `No persistent yolo toggle to disable for ${def.displayName}.`;
+  }
+
+  return details;
+}
+
 /**
  * Enable yolo mode for a specific agent.
  */
-export async function enableYolo(agentType: AgentType): Promise<YoloResult> {
+export async function enableYolo(agentType: AgentType, options: YoloOptions = {}): Promise<YoloResult> {
   const def = getDefinitionOrThrow(agentType);
-  const detection = await detectBinary(def.binaries, def.versionFlag);
+  const ctx = createWriteContext(agentType, options);
+  const detection = await detectAgent(def);
 
   if (!detection.found) {
     return {
@@ -217,38 +924,27 @@ export async function enableYolo(agentType: AgentType): Promise<YoloResult> {
   }
 
   try {
-    let details: string;
-    let enabled = false;
     const sessionOnly = !def.persistentToggle;
-
-    switch (agentType) {
-      case 'claude-code':
-        details = await enableClaudeCode(requireConfigPath(def.configPath, def.displayName));
-        enabled = true;
-        break;
-      case 'codex':
-        details = await enableCodex(requireConfigPath(def.configPath, def.displayName));
-        enabled = true;
-        break;
-      case 'copilot':
-        details = await enableCopilot(requireConfigPath(def.configPath, def.displayName));
-        break;
-      case 'amplifier':
-        details = await enableAmplifier(def.configPath);
-        break;
-    }
+    const configPath = resolveConfigPath(def, options);
+    // Older releases may want different flags or config keys.
+    const { definition, warning } = resolveForVersion(def, detection.version);
+    const { details, level } = await editConfig(configPath, ctx, () => applyEnable(definition, configPath, ctx, options));
 
     return {
       type: agentType,
       displayName: def.displayName,
       success: true,
       config: {
-        enabled,
+        enabled: level === 'full-bypass',
+        ...(level ? { level } : {}),
         sessionOnly,
-        configPath: def.configPath,
-        cliFlag: def.yoloFlag,
+        configPath,
+        cliFlag: definition.yoloFlag,
         details,
+        ...(options.profile !== undefined ? { profile: options.profile } : {}),
       },
+      ...(warning ? { warnings: [warning] } : {}),
+      ...dryRunFields(ctx),
     };
   } catch (error) {
     return {
@@ -263,26 +959,14 @@ export async function enableYolo(agentType: AgentType): Promise<YoloResult> {
 /**
  * Disable yolo mode for a specific agent.
  */
-export async function disableYolo(agentType: AgentType): Promise<YoloResult> {
+export async function disableYolo(agentType: AgentType, options: YoloOptions = {}): Promise<YoloResult> {
   const def = getDefinitionOrThrow(agentType);
+  const ctx = createWriteContext(agentType, options);
 
   try {
-    let details: string;
     const sessionOnly = !def.persistentToggle;
-    switch (agentType) {
-      case 'claude-code':
-        details = await disableClaudeCode(requireConfigPath(def.configPath, def.displayName));
-        break;
-      case 'codex':
-        details = await disableCodex(requireConfigPath(def.configPath, def.displayName));
-        break;
-      case 'copilot':
-        details = await disableCopilot(requireConfigPath(def.configPath, def.displayName));
-        break;
-      case 'amplifier':
-        details = await disableAmplifier(def.configPath);
-        break;
-    }
+    const configPath = resolveConfigPath(def, options);
+    const details = await editConfig(configPath, ctx, () => applyDisable(def, configPath, ctx, options));
 
     return {
       type: agentType,
@@ -291,10 +975,11 @@ export async function disableYolo(agentType: AgentType): Promise<YoloResult> {
       config: {
         enabled: false,
         sessionOnly,
-        configPath: def.configPath,
+        configPath,
         cliFlag: def.yoloFlag,
         details,
       },
+      ...dryRunFields(ctx),
     };
   } catch (error) {
     return {
@@ -309,27 +994,29 @@ export async function disableYolo(agentType: AgentType): Promise<YoloResult> {
 /**
  * Enable yolo mode for all detected agents.
  */
-export async function enableAll(): Promise<YoloResult[]> {
-  const types: AgentType[] = ['claude-code', 'codex', 'copilot', 'amplifier'];
-  return Promise.all(types.map(enableYolo));
+export async function enableAll(options: YoloOptions = {}): Promise<YoloResult[]> {
+  const types = getAgentDefinitions().map((def) => def.type);
+  return Promise.all(types.map((type) => enableYolo(type, options)));
 }
 
 /**
  * Disable yolo mode for all agents.
  */
-export async function disableAll(): Promise<YoloResult[]> {
-  const types: AgentType[] = ['claude-code', 'codex', 'copilot', 'amplifier'];
-  return Promise.all(types.map(disableYolo));
+export async function disableAll(options: YoloOptions = {}): Promise<YoloResult[]> {
+  const types = getAgentDefinitions().map((def) => def.type);
+  return Promise.all(types.map((type) => disableYolo(type, options)));
 }
 
 /**
  * Check current yolo status for all agents.
+ * Claude Code's project-local settings are included when `projectDir` is
+ * given, or when the current directory has them.
  */
-export async function checkYoloStatus(): Promise<YoloResult[]> {
+export async function checkYoloStatus(options: Pick<YoloOptions, 'projectDir'> = {}): Promise<YoloResult[]> {
   const results: YoloResult[] = [];
 
-  for (const def of AGENT_DEFINITIONS) {
-    const detection = await detectBinary(def.binaries, def.versionFlag);
+  for (const def of getAgentDefinitions()) {
+    const detection = await detectAgent(def);
     if (!detection.found) {
       results.push({
         type: def.type,
@@ -346,22 +1033,46 @@ export async function checkYoloStatus(): Promise<YoloResult[]> {
       continue;
     }
 
-    let enabled = false;
+    let level: AutonomyLevel | null = null;
     let details = '';
+    const versioned = resolveForVersion(def, detection.version);
+    let project: ProjectYoloState | undefined;
+    let profiles: ProfileYoloState[] = [];
+    let servers: McpServerState[] = [];
     const sessionOnly = !def.persistentToggle;
 
     try {
       switch (def.type) {
         case 'claude-code': {
           const config = await readJsonConfig(requireConfigPath(def.configPath, def.displayName));
-          enabled = isClaudeCodeEnabled(config);
-          details = enabled ? 'permissions.defaultMode = "bypassPermissions"' : 'Default permissions';
+          level = getClaudeLevel(config);
+          details = describeClaudeLevel(level, 'Default permissions');
+
+          const projectDir = options.projectDir ?? process.cwd();
+          const hasProjectSettings = (await readCurrentContent(getClaudeProjectConfigPath(projectDir))) !== null;
+          if (options.projectDir !== undefined || hasProjectSettings) {
+            project = await checkClaudeProject(projectDir);
+          }
           break;
         }
         case 'codex': {
           const config = await readTomlConfig(requireConfigPath(def.configPath, def.displayName));
-          enabled = isCodexEnabled(config);
-          details = enabled ? 'approval_policy = "never", sandbox_mode = "danger-full-access"' : 'Default approval policy';
+          const topLevel = getCodexLevel(config);
+          const parts = [topLevel ? describeCodexSettings(topLevel) : 'Default approval policy'];
+
+          profiles = getCodexProfiles(config);
+          const defaultProfile = profiles.find((profile) => profile.isDefault);
+          if (defaultProfile) {
+            parts.push(`default profile "${defaultProfile.name}"${defaultProfile.level ? ` is ${defaultProfile.level}` : ''}`);
+          }
+          const leveled = profiles.filter((profile) => profile.level !== null);
+          if (leveled.length > 0) {
+            parts.push(`profiles: ${leveled.map((profile) => `${profile.name} (${profile.level})`).join(', ')}`);
+          }
+
+          // A default profile applies to every session, just like top-level keys.
+          level = defaultProfile?.level ?? topLevel;
+          details = parts.join('; ');
           break;
         }
         case 'copilot':
@@ -370,6 +1081,33 @@ export async function checkYoloStatus(): Promise<YoloResult[]> {
         case 'amplifier':
           details = 'No persistent yolo toggle. Run `amplifier` or `amplifier run "<prompt>"`.';
           break;
+        case 'cursor-agent': {
+          const config = await readJsonConfig(requireConfigPath(def.configPath, def.displayName));
+          level = isCursorEnabled(config) ? 'full-bypass' : null;
+          details = level ? `permissions.allow includes ${CURSOR_YOLO_RULES.join(', ')}` : 'Default permissions';
+          break;
+        }
+        case 'claude-desktop': {
+          const config = await readJsonConfig(requireConfigPath(def.configPath, def.displayName));
+          servers = getMcpServerStates(config);
+          details = describeMcpServers(servers);
+          break;
+        }
+        default: {
+          const settings = versioned.definition.yoloSettings;
+          if (settings) {
+            const config = await readDeclarativeConfig(def, requireConfigPath(def.configPath, def.displayName));
+            const applied = isDeclarativeEnabled(config, settings);
+            level = applied && !def.yoloSettingsLimit ? 'full-bypass' : null;
+            if (!applied) {
+              details = 'Default settings';
+            } else {
+              details = describeSettings(settings) + (def.yoloSettingsLimit ? ` (${def.yoloSettingsLimit})` : '');
+            }
+          } else {
+            details = `No persistent yolo toggle (use ${def.yoloFlag} flag)`;
+          }
+        }
       }
     } catch (error) {
       const reason = error instanceof Error ? error.message : String(error);
@@ -381,12 +1119,17 @@ export async function checkYoloStatus(): Promise<YoloResult[]> {
       displayName: def.displayName,
       success: true,
       config: {
-        enabled,
+        enabled: level === 'full-bypass',
+        ...(sessionOnly ? {} : { level }),
         sessionOnly,
         configPath: def.configPath,
-        cliFlag: def.yoloFlag,
+        cliFlag: versioned.definition.yoloFlag,
         details,
+        ...(project ? { project } : {}),
+        ...(profiles.length > 0 ? { profiles } : {}),
+        ...(servers.length > 0 ? { servers } : {}),
       },
+      ...(versioned.warning ? { warnings: [versioned.warning] } : {}),
     });
   }
 
@@ -394,4 +1137,4 @@ export async function checkYoloStatus(): Promise<YoloResult[]> {
 }
 
 // Export internals for testing
-export { readJsonConfig, writeJsonConfig, readTomlConfig, writeTomlConfig, fromToml, toToml };
+export { readJsonConfig, writeJsonConfig, readTomlConfig, writeTomlConfig, readYamlConfig, fromToml, toToml };
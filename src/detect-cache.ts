@@ -0,0 +1,144 @@
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { writeFileAtomic } from './fs-utils.js';
+
+/**
+ * Remembers what `<binary> --version` printed so detection doesn't have to
+ * spawn every agent on every run. An entry is keyed on the binary's real path
+ * and only trusted while its mtime and size are unchanged, so upgrades and
+ * reinstalls are picked up without any explicit invalidation. The npm
+ * binary's entry holds `npm prefix -g` the same way.
+ */
+
+export const DETECT_CACHE_FILE = path.join(os.homedir(), '.letsyolo', 'cache.json');
+
+/** Identifies one build of a binary on disk */
+export interface BinaryFingerprint {
+  /** Real path, with symlinks resolved */
+  path: string;
+  mtimeMs: number;
+  size: number;
+}
+
+interface CachedDetection extends BinaryFingerprint {
+  versionFlag: string;
+  version: string | null;
+  checkedAt: string;
+}
+
+interface DetectCacheFile {
+  entries: Record<string, CachedDetection>;
+}
+
+let entries: Promise<Map<string, CachedDetection>> | null = null;
+let ignoreStored = false;
+let pendingWrite: Promise<void> = Promise.resolve();
+
+function isCachedDetection(value: unknown): value is CachedDetection {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return false;
+  const entry = value as Record<string, unknown>;
+  return (
+    typeof entry.path === 'string' &&
+    typeof entry.mtimeMs === 'number' &&
+    typeof entry.size === 'number' &&
+    typeof entry.versionFlag === 'string' &&
+    (typeof entry.version === 'string' || entry.version === null)
+  );
+}
+
+/**
+ * A missing or unreadable cache is just an empty one; it never stops detection.
+ */
+async function readCacheFile(cacheFile: string): Promise<Map<string, CachedDetection>> {
+  try {
+    const parsed: unknown = JSON.parse(await fs.readFile(cacheFile, 'utf-8'));
+    const stored = parsed && typeof parsed === 'object' ? (parsed as Record<string, unknown>).entries : undefined;
+    if (!stored || typeof stored !== 'object') return new Map();
+    return new Map(Object.values(stored).filter(isCachedDetection).map((entry) => [entry.path, entry]));
+  } catch {
+    return new Map();
+  }
+}
+
+/** Loaded once per run and shared by every detection in it. */
+function loadEntries(): Promise<Map<string, CachedDetection>> {
+  entries ??= ignoreStored ? Promise.resolve(new Map()) : readCacheFile(DETECT_CACHE_FILE);
+  return entries;
+}
+
+/**
+ * Writes are chained so the last one to land always holds every entry.
+ */
+function persist(cache: Map<string, CachedDetection>): Promise<void> {
+  pendingWrite = pendingWrite.then(async () => {
+    const file: DetectCacheFile = { entries: Object.fromEntries(cache) };
+    try {
+      await writeFileAtomic(DETECT_CACHE_FILE, JSON.stringify(file, null, 2) + '\n', { mode: 0o600 });
+    } catch {
+      // Best effort: a read-only home only costs the next run a re-check
+    }
+  });
+  return pendingWrite;
+}
+
+/**
+ * Ignore what earlier runs stored; fresh results still replace it on disk.
+ */
+export function refreshDetectionCache(): void {
+  ignoreStored = true;
+  entries = null;
+}
+
+/**
+ * Real path, mtime and size of an executable, or null if it isn't a file.
+ */
+export async function fingerprintBinary(binaryPath: string): Promise<BinaryFingerprint | null> {
+  try {
+    const realPath = await fs.realpath(binaryPath);
+    const stat = await fs.stat(realPath);
+    if (!stat.isFile()) return null;
+    return { path: realPath, mtimeMs: stat.mtimeMs, size: stat.size };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * The version recorded for this exact build, or undefined when it has to be
+ * checked again (never seen, changed on disk, or asked with another flag).
+ */
+export async function getCachedVersion(
+  fingerprint: BinaryFingerprint,
+  versionFlag: string,
+): Promise<string | null | undefined> {
+  const entry = (await loadEntries()).get(fingerprint.path);
+  if (
+    !entry ||
+    entry.mtimeMs !== fingerprint.mtimeMs ||
+    entry.size !== fingerprint.size ||
+    entry.versionFlag !== versionFlag
+  ) {
+    return undefined;
+  }
+  return entry.version;
+}
+
+export async function saveCachedVersion(
+  fingerprint: BinaryFingerprint,
+  versionFlag: string,
+  version: string | null,
+): Promise<void> {
+  const cache = await loadEntries();
+  cache.set(fingerprint.path, { ...fingerprint, versionFlag, version, checkedAt: new Date().toISOString() });
+  await persist(cache);
+}
+
+/** Forget this run's cache so the next lookup reads the file again. */
+function resetDetectionCache(): void {
+  entries = null;
+  ignoreStored = false;
+}
+
+// Export internals for testing
+export { resetDetectionCache };
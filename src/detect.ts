@@ -1,17 +1,87 @@
 import { execFile } from 'node:child_process';
-import { readdir } from 'node:fs/promises';
+import { constants } from 'node:fs';
+import { access, readFile, readdir, realpath, stat } from 'node:fs/promises';
 import os from 'node:os';
 import path from 'node:path';
 import { promisify } from 'node:util';
-import { AGENT_DEFINITIONS } from './agents.js';
-import type { AgentStatus, DetectionResult } from './types.js';
+import { getAgentDefinitions } from './agents.js';
+import { fingerprintBinary, getCachedVersion, saveCachedVersion } from './detect-cache.js';
+import { formatVersion, parseVersion } from './versions.js';
+import type { AgentDefinition, AgentInstallation, AgentStatus, DetectionResult } from './types.js';
 
 const execFileAsync = promisify(execFile);
 
+/**
+ * Binary `toBin` levels below each version directory under `root`, e.g.
+ * ~/.nvm/versions/node/<version>/bin/<binary>.
+ */
+async function versionDirBins(root: string, toBin: string[], binaryName: string, filter?: (entry: string) => boolean): Promise<string[]> {
+  try {
+    const entries = await readdir(root);
+    return entries
+      .filter((entry) => !filter || filter(entry))
+      .map((entry) => path.join(root, entry, ...toBin, binaryName));
+  } catch {
+    // Version manager not installed — skip
+    return [];
+  }
+}
+
+function expandHome(filePath: string): string {
+  return filePath === '~' || filePath.startsWith('~/') ? path.join(os.homedir(), filePath.slice(1)) : filePath;
+}
+
+let npmPrefix: Promise<string | null> | undefined;
+
+/** Cache key for `npm prefix -g` output, stored like a version next to the npm binary's entry */
+const NPM_PREFIX_ARGS = ['prefix', '-g'];
+
+/**
+ * The global npm prefix, as `npm prefix -g` reports it. Looked up once per
+ * run; a configured prefix saves spawning npm at all, and otherwise the
+ * answer is cached until the npm binary changes on disk.
+ */
+async function getNpmGlobalPrefix(): Promise<string | null> {
+  npmPrefix ??= (async () => {
+    const configured = process.env.npm_config_prefix ?? process.env.NPM_CONFIG_PREFIX;
+    if (configured) return expandHome(configured);
+
+    try {
+      const npmrc = await readFile(path.join(os.homedir(), '.npmrc'), 'utf-8');
+      const match = npmrc.match(/^\s*prefix\s*=\s*(.+?)\s*$/m);
+      if (match) return expandHome(match[1].replace(/^["']|["']$/g, ''));
+    } catch {
+      // No ~/.npmrc
+    }
+
+    const [npmPath] = await findOnPath('npm');
+    const fingerprint = npmPath ? await fingerprintBinary(npmPath) : null;
+    if (!npmPath || !fingerprint) return null;
+    const cached = await getCachedVersion(fingerprint, NPM_PREFIX_ARGS.join(' '));
+    if (cached !== undefined) return cached;
+
+    try {
+      const { stdout } = await execFileAsync(npmPath, NPM_PREFIX_ARGS, { timeout: 3000, encoding: 'utf8' });
+      const prefix = stdout.trim() || null;
+      await saveCachedVersion(fingerprint, NPM_PREFIX_ARGS.join(' '), prefix);
+      return prefix;
+    } catch {
+      return null;
+    }
+  })();
+  return npmPrefix;
+}
+
+/** Forget this run's npm prefix so the next lookup checks again. */
+function resetNpmGlobalPrefix(): void {
+  npmPrefix = undefined;
+}
+
 /**
  * Build candidate paths for a binary name.
  * Checks PATH first, then common install locations that may not be
- * on PATH in all environments (cron, launchd, GUI apps, etc.).
+ * on PATH in all environments (cron, launchd, GUI apps, etc.), then the
+ * bin directories of node/python tool managers.
  */
 export async function getCandidatePaths(binaryName: string): Promise<string[]> {
   const home = os.homedir();
@@ -25,82 +95,291 @@ export async function getCandidatePaths(binaryName: string): Promise<string[]> {
       path.join(home, '.local', 'bin', binaryName),
     ].forEach((candidate) => candidates.add(candidate));
 
+    const npmGlobalPrefix = await getNpmGlobalPrefix();
+    if (npmGlobalPrefix) {
+      candidates.add(path.join(npmGlobalPrefix, 'bin', binaryName));
+    }
+
     // nvm-managed node versions (filter to v* directories only)
     const nvmDir = path.join(home, '.nvm', 'versions', 'node');
-    try {
-      const entries = await readdir(nvmDir);
-      for (const entry of entries) {
-        if (!entry.startsWith('v')) continue;
-        candidates.add(path.join(nvmDir, entry, 'bin', binaryName));
+    const fnmDirs = process.env.FNM_DIR
+      ? [process.env.FNM_DIR]
+      : [path.join(home, '.local', 'share', 'fnm'), path.join(home, 'Library', 'Application Support', 'fnm'), path.join(home, '.fnm')];
+    const asdfDir = process.env.ASDF_DATA_DIR ?? path.join(home, '.asdf');
+    const pnpmHome = process.env.PNPM_HOME ?? (process.platform === 'darwin'
+      ? path.join(home, 'Library', 'pnpm')
+      : path.join(home, '.local', 'share', 'pnpm'));
+    const uvToolDir = process.env.UV_TOOL_DIR ?? path.join(home, '.local', 'share', 'uv', 'tools');
+
+    const managed = await Promise.all([
+      versionDirBins(nvmDir, ['bin'], binaryName, (entry) => entry.startsWith('v')),
+      ...fnmDirs.map((dir) => versionDirBins(path.join(dir, 'node-versions'), ['installation', 'bin'], binaryName)),
+      versionDirBins(path.join(asdfDir, 'installs', 'nodejs'), ['bin'], binaryName),
+      versionDirBins(uvToolDir, ['bin'], binaryName),
+    ]);
+    [
+      path.join(process.env.VOLTA_HOME ?? path.join(home, '.volta'), 'bin', binaryName),
+      path.join(asdfDir, 'shims', binaryName),
+      path.join(pnpmHome, binaryName),
+      path.join(process.env.BUN_INSTALL ?? path.join(home, '.bun'), 'bin', binaryName),
+      ...managed.flat(),
+    ].forEach((candidate) => candidates.add(candidate));
+  }
+
+  return [...candidates];
+}
+
+/**
+ * Every executable called `binary` on PATH, in lookup order, with symlinks
+ * to the same file collapsed.
+ */
+export async function findOnPath(binary: string, envPath = process.env.PATH ?? ''): Promise<string[]> {
+  const extensions = process.platform === 'win32'
+    ? ['', ...(process.env.PATHEXT ?? '.EXE;.CMD;.BAT').split(';').map((ext) => ext.toLowerCase())]
+    : [''];
+  const found: string[] = [];
+  const seen = new Set<string>();
+
+  for (const dir of envPath.split(path.delimiter)) {
+    if (!dir) continue;
+    for (const ext of extensions) {
+      const candidate = path.join(dir, `${binary}${ext}`);
+      try {
+        await access(candidate, constants.X_OK);
+        if (!(await stat(candidate)).isFile()) continue;
+        const real = await realpath(candidate);
+        if (seen.has(real)) continue;
+        seen.add(real);
+        found.push(candidate);
+      } catch {
+        // Not here
       }
-    } catch {
-      // nvm not installed — skip
     }
   }
+  return found;
+}
 
-  return [...candidates];
+/**
+ * Where a candidate would actually run from: the first PATH hit for a bare
+ * name, or the path itself if it's an executable file.
+ */
+async function resolveCandidate(cmd: string): Promise<string | null> {
+  if (!path.isAbsolute(cmd)) {
+    return (await findOnPath(cmd))[0] ?? null;
+  }
+  try {
+    await access(cmd, constants.X_OK);
+    return (await stat(cmd)).isFile() ? cmd : null;
+  } catch {
+    return null;
+  }
+}
+
+export const DEFAULT_DETECT_TIMEOUT_MS = 5000;
+
+/** Most version checks that may run at once, across all agents */
+export const PROBE_CONCURRENCY = 4;
+
+let probeTimeoutMs = DEFAULT_DETECT_TIMEOUT_MS;
+
+/**
+ * How long each `<binary> --version` may take before the copy is treated as
+ * not working.
+ */
+export function setDetectTimeout(ms: number): void {
+  probeTimeoutMs = ms;
+}
+
+export function getDetectTimeout(): number {
+  return probeTimeoutMs;
+}
+
+/**
+ * Wrap tasks so at most `limit` of them run at once; the rest wait in order.
+ */
+function createLimiter(limit: number): <T>(task: () => Promise<T>) => Promise<T> {
+  let active = 0;
+  const queue: (() => void)[] = [];
+  return (task) => new Promise((resolve, reject) => {
+    const run = () => {
+      active += 1;
+      task().then(resolve, reject).finally(() => {
+        active -= 1;
+        queue.shift()?.();
+      });
+    };
+    if (active < limit) run();
+    else queue.push(run);
+  });
+}
+
+const limitProbe = createLimiter(PROBE_CONCURRENCY);
+
+/**
+ * Run an executable with its version flag, or reuse what the cache recorded
+ * for this exact build. Resolves to undefined if it doesn't run.
+ */
+async function probeVersion(binaryPath: string, versionFlag: string): Promise<{ version: string | null } | undefined> {
+  const fingerprint = await fingerprintBinary(binaryPath);
+  const cached = fingerprint ? await getCachedVersion(fingerprint, versionFlag) : undefined;
+  if (cached !== undefined) return { version: cached };
+
+  try {
+    const { stdout, stderr } = await limitProbe(() => execFileAsync(binaryPath, [versionFlag], {
+      timeout: probeTimeoutMs,
+      encoding: 'utf8',
+    }));
+    const output = `${stdout || ''}\n${stderr || ''}`.trim();
+    const version = output.split('\n')[0]?.trim() || null;
+
+    if (fingerprint) {
+      await saveCachedVersion(fingerprint, versionFlag, version);
+    }
+    return { version };
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Resolve candidates to existing executables (a stat each, nothing spawned),
+ * dropping missing ones and later copies of a file already listed.
+ */
+async function resolveCandidates(candidates: string[], seen = new Set<string>()): Promise<string[]> {
+  const resolved = await Promise.all(candidates.map(async (cmd) => {
+    const resolvedPath = await resolveCandidate(cmd);
+    return resolvedPath ? { resolvedPath, real: await realpath(resolvedPath).catch(() => resolvedPath) } : null;
+  }));
+
+  const unique: string[] = [];
+  for (const entry of resolved) {
+    if (!entry || seen.has(entry.real)) continue;
+    seen.add(entry.real);
+    unique.push(entry.resolvedPath);
+  }
+  return unique;
 }
 
 /**
  * Try to detect a binary by running it with a version flag.
- * Returns the resolved path and version string if found.
+ * Returns the resolved path and version string if found. Candidates are
+ * probed in parallel and the first working one in candidate order wins.
+ * Versions are cached per build (see detect-cache.ts), so unchanged binaries
+ * aren't spawned again.
  */
 export async function detectBinary(
   binaries: string[],
   versionFlag: string,
 ): Promise<{ found: boolean; path: string | null; version: string | null }> {
   for (const binary of binaries) {
-    const candidates = await getCandidatePaths(binary);
-    for (const cmd of candidates) {
-      try {
-        const { stdout, stderr } = await execFileAsync(cmd, [versionFlag], {
-          timeout: 5000,
-          encoding: 'utf8',
-        });
-        const output = `${stdout || ''}\n${stderr || ''}`.trim();
-        const version = output.split('\n')[0]?.trim() || null;
-
-        let resolvedPath = cmd;
-        if (!path.isAbsolute(cmd)) {
-          try {
-            const whichCmd = process.platform === 'win32' ? 'where' : 'which';
-            const { stdout: whichOut } = await execFileAsync(whichCmd, [cmd], {
-              timeout: 3000,
-              encoding: 'utf8',
-            });
-            if (whichOut) {
-              resolvedPath = whichOut.trim().split('\n')[0];
-            }
-          } catch {
-            // Keep the bare name
-          }
-        }
-
-        return { found: true, path: resolvedPath, version };
-      } catch {
-        // Try next candidate
-      }
+    const candidates = await resolveCandidates(await getCandidatePaths(binary));
+    const probes = await Promise.all(candidates.map((candidate) => probeVersion(candidate, versionFlag)));
+    const index = probes.findIndex((probe) => probe !== undefined);
+    if (index !== -1) {
+      return { found: true, path: candidates[index], version: probes[index]?.version ?? null };
     }
   }
   return { found: false, path: null, version: null };
 }
 
 /**
- * Detect all known AI coding agents.
+ * Every working copy of an agent's binaries: those on PATH in lookup order,
+ * then the ones only found in other install locations. Copies that are
+ * symlinks to the same file are listed once.
+ */
+export async function detectInstallations(binaries: string[], versionFlag: string): Promise<AgentInstallation[]> {
+  const seen = new Set<string>();
+  const found: { path: string; onPath: boolean }[] = [];
+
+  for (const binary of binaries) {
+    const onPath = await resolveCandidates(await findOnPath(binary), seen);
+    const candidates = (await getCandidatePaths(binary)).filter((cmd) => path.isAbsolute(cmd));
+    const elsewhere = await resolveCandidates(candidates, seen);
+    found.push(
+      ...onPath.map((candidate) => ({ path: candidate, onPath: true })),
+      ...elsewhere.map((candidate) => ({ path: candidate, onPath: false })),
+    );
+  }
+
+  const probes = await Promise.all(found.map((candidate) => probeVersion(candidate.path, versionFlag)));
+  const installations: AgentInstallation[] = [];
+  found.forEach((candidate, i) => {
+    const probe = probes[i];
+    if (!probe) return;
+    installations.push({ path: candidate.path, version: probe.version, onPath: candidate.onPath, active: false });
+  });
+
+  // A bare `<binary>` runs the first working copy on PATH.
+  const active = installations.find((installation) => installation.onPath);
+  if (active) active.active = true;
+  return installations;
+}
+
+/**
+ * Whether installations report different versions. Versions that don't
+ * parse are compared as printed.
+ */
+export function hasVersionMismatch(installations: AgentInstallation[]): boolean {
+  const versions = new Set(installations.map((installation) => {
+    const parsed = parseVersion(installation.version);
+    return parsed ? formatVersion(parsed) : installation.version;
+  }));
+  return versions.size > 1;
+}
+
+/**
+ * Desktop apps have no CLI to run, so an existing config file counts as installed.
+ */
+export async function detectDesktopApp(def: AgentDefinition): Promise<{ found: boolean; path: string | null; version: string | null }> {
+  if (!def.configPath) return { found: false, path: null, version: null };
+  try {
+    await access(def.configPath);
+    return { found: true, path: def.configPath, version: null };
+  } catch {
+    return { found: false, path: null, version: null };
+  }
+}
+
+/**
+ * Detect all known AI coding agents, with every installation of each.
+ * The reported path and version are those of the copy PATH runs.
  */
 export async function detectAll(): Promise<DetectionResult> {
+  const startedAt = Date.now();
   const agents: AgentStatus[] = await Promise.all(
-    AGENT_DEFINITIONS.map(async (def): Promise<AgentStatus> => {
-      const result = await detectBinary(def.binaries, def.versionFlag);
+    getAgentDefinitions().map(async (def): Promise<AgentStatus> => {
+      const agentStartedAt = Date.now();
+      if (def.desktopApp) {
+        const result = await detectDesktopApp(def);
+        return {
+          type: def.type,
+          displayName: def.displayName,
+          installed: result.found,
+          version: result.version,
+          path: result.path,
+          installCommand: def.installCommand,
+          durationMs: Date.now() - agentStartedAt,
+        };
+      }
+
+      const installations = await detectInstallations(def.binaries, def.versionFlag);
+      const primary = installations.find((installation) => installation.active) ?? installations[0];
       return {
         type: def.type,
         displayName: def.displayName,
-        installed: result.found,
-        version: result.version,
-        path: result.path,
+        installed: primary !== undefined,
+        version: primary?.version ?? null,
+        path: primary?.path ?? null,
         installCommand: def.installCommand,
+        installations,
+        ...(hasVersionMismatch(installations) ? { versionMismatch: true } : {}),
+        durationMs: Date.now() - agentStartedAt,
       };
     }),
   );
-  return { agents, checkedAt: Date.now() };
+  const checkedAt = Date.now();
+  return { agents, checkedAt, durationMs: checkedAt - startedAt, timeoutMs: probeTimeoutMs };
 }
+
+// Export internals for testing
+export { resetNpmGlobalPrefix };
@@ -0,0 +1,130 @@
+/**
+ * Minimal unified diff for previewing config file changes.
+ * Config files are small, so an LCS table over the lines between the common
+ * prefix and suffix is plenty.
+ */
+
+type DiffOp = { kind: ' ' | '-' | '+'; line: string };
+
+const NO_NEWLINE_MARKER = '\\ No newline at end of file';
+
+/**
+ * Split text into lines, keeping each line's trailing newline so that a
+ * missing final newline shows up as a difference.
+ */
+function splitLines(text: string): string[] {
+  return text.match(/[^\n]*\n|[^\n]+$/g) ?? [];
+}
+
+function diffLines(a: string[], b: string[]): DiffOp[] {
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) {
+    prefix += 1;
+  }
+
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) {
+    suffix += 1;
+  }
+
+  const midA = a.slice(prefix, a.length - suffix);
+  const midB = b.slice(prefix, b.length - suffix);
+
+  // lcs[i][j] = length of the LCS of midA[i..] and midB[j..]
+  const lcs: number[][] = Array.from({ length: midA.length + 1 }, () => new Array<number>(midB.length + 1).fill(0));
+  for (let i = midA.length - 1; i >= 0; i -= 1) {
+    for (let j = midB.length - 1; j >= 0; j -= 1) {
+      lcs[i][j] = midA[i] === midB[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const ops: DiffOp[] = a.slice(0, prefix).map((line) => ({ kind: ' ', line }));
+  let i = 0;
+  let j = 0;
+  while (i < midA.length || j < midB.length) {
+    if (i < midA.length && j < midB.length && midA[i] === midB[j]) {
+      ops.push({ kind: ' ', line: midA[i] });
+      i += 1;
+      j += 1;
+    } else if (j >= midB.length || (i < midA.length && lcs[i + 1][j] >= lcs[i][j + 1])) {
+      ops.push({ kind: '-', line: midA[i] });
+      i += 1;
+    } else {
+      ops.push({ kind: '+', line: midB[j] });
+      j += 1;
+    }
+  }
+  ops.push(...a.slice(a.length - suffix).map((line): DiffOp => ({ kind: ' ', line })));
+
+  return ops;
+}
+
+function formatRange(start: number, count: number): string {
+  // An empty range points at the line before it, per the unified diff format.
+  const first = count === 0 ? start : start + 1;
+  return count === 1 ? `${first}` : `${first},${count}`;
+}
+
+function formatLine(op: DiffOp): string {
+  if (op.line.endsWith('\n')) {
+    return `${op.kind}${op.line.slice(0, -1)}\n`;
+  }
+  return `${op.kind}${op.line}\n${NO_NEWLINE_MARKER}\n`;
+}
+
+/**
+ * Build a unified diff between two versions of a file.
+ * A null `before` means the file does not exist yet.
+ * Returns an empty string when nothing changed.
+ */
+export function createUnifiedDiff(
+  filePath: string,
+  before: string | null,
+  after: string,
+  context = 3,
+): string {
+  const ops = diffLines(splitLines(before ?? ''), splitLines(after));
+  const changed = ops.flatMap((op, index) => (op.kind === ' ' ? [] : [index]));
+  if (changed.length === 0) return '';
+
+  // Group changes whose context windows touch into the same hunk.
+  const ranges: Array<[number, number]> = [];
+  for (const index of changed) {
+    const start = Math.max(0, index - context);
+    const end = Math.min(ops.length, index + context + 1);
+    const last = ranges[ranges.length - 1];
+    if (last && start <= last[1]) {
+      last[1] = end;
+    } else {
+      ranges.push([start, end]);
+    }
+  }
+
+  let output = `--- ${before === null ? '/dev/null' : `a${filePath}`}\n+++ b${filePath}\n`;
+  let oldLine = 0;
+  let newLine = 0;
+  let cursor = 0;
+
+  for (const [start, end] of ranges) {
+    for (; cursor < start; cursor += 1) {
+      if (ops[cursor].kind !== '+') oldLine += 1;
+      if (ops[cursor].kind !== '-') newLine += 1;
+    }
+
+    const hunk = ops.slice(start, end);
+    const oldCount = hunk.filter((op) => op.kind !== '+').length;
+    const newCount = hunk.filter((op) => op.kind !== '-').length;
+    output += `@@ -${formatRange(oldLine, oldCount)} +${formatRange(newLine, newCount)} @@\n`;
+    output += hunk.map(formatLine).join('');
+
+    oldLine += oldCount;
+    newLine += newCount;
+    cursor = end;
+  }
+
+  return output;
+}
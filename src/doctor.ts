@@ -0,0 +1,255 @@
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { getAgentDefinitions } from './agents.js';
+import { readJsonConfig, readTomlConfig, readYamlConfig } from './configure.js';
+import { findOnPath } from './detect.js';
+import { isFileNotFoundError } from './fs-utils.js';
+import {
+  API_KEYS,
+  SECRETS_DIR,
+  SECRETS_FILE,
+  getActiveSecretStore,
+  getShellProfiles,
+  getSourceLine,
+  isSourcedIn,
+  readSecrets,
+  scanForExistingKeys,
+} from './secrets.js';
+import type { AgentDefinition, DoctorCheck } from './types.js';
+
+const home = os.homedir();
+
+function displayPath(filePath: string): string {
+  return filePath.startsWith(home) ? `~${filePath.slice(home.length)}` : filePath;
+}
+
+/**
+ * Files the key scan looks at that neither the shell nor an agent loads on
+ * its own; a key that only lives there is invisible to new sessions.
+ */
+function getUnloadedKeyFiles(): string[] {
+  return [
+    path.join(home, '.env'),
+    path.join(home, '.secrets'),
+    path.join(home, '.secrets.env'),
+    path.join(home, '.config', '.env'),
+    path.join(home, '.config', 'env'),
+    path.join(home, '.config', 'secrets'),
+  ];
+}
+
+async function readConfig(def: AgentDefinition, configPath: string): Promise<unknown> {
+  if (def.configFormat === 'toml') return readTomlConfig(configPath);
+  if (def.configFormat === 'yaml') return readYamlConfig(configPath);
+  return readJsonConfig(configPath);
+}
+
+/**
+ * Every agent config file letsyolo edits must parse, or enable/disable/status fail on it.
+ */
+async function checkConfigFiles(): Promise<DoctorCheck[]> {
+  const checks: DoctorCheck[] = [];
+  for (const def of getAgentDefinitions()) {
+    if (!def.configPath || def.configFormat === 'none') continue;
+    const name = `config:${def.type}`;
+    try {
+      await fs.access(def.configPath);
+    } catch {
+      checks.push({ name, status: 'pass', message: `${displayPath(def.configPath)} not created yet` });
+      continue;
+    }
+
+    try {
+      await readConfig(def, def.configPath);
+      checks.push({ name, status: 'pass', message: `${displayPath(def.configPath)} parses cleanly` });
+    } catch (error) {
+      checks.push({
+        name,
+        status: 'fail',
+        message: error instanceof Error ? error.message : String(error),
+        fix: `Fix the syntax in ${displayPath(def.configPath)} or run \`letsyolo restore ${def.type}\``,
+      });
+    }
+  }
+  return checks;
+}
+
+async function getMode(filePath: string): Promise<number | null> {
+  try {
+    return (await fs.stat(filePath)).mode & 0o777;
+  } catch (error) {
+    if (isFileNotFoundError(error)) return null;
+    throw error;
+  }
+}
+
+/**
+ * The secrets file holds API keys in plain text: owner-only access, or it's a leak.
+ */
+async function checkSecretsPermissions(): Promise<DoctorCheck[]> {
+  if (process.platform === 'win32') {
+    return [{ name: 'secrets-permissions', status: 'pass', message: 'File modes are not checked on Windows' }];
+  }
+
+  const fileMode = await getMode(SECRETS_FILE);
+  if (fileMode === null) {
+    return [{
+      name: 'secrets-file',
+      status: 'warn',
+      message: `${displayPath(SECRETS_FILE)} does not exist`,
+      fix: 'Run `letsyolo setup` to store your API keys',
+    }];
+  }
+
+  // Stricter modes such as 400 are fine; only group or other access is a problem.
+  const checks: DoctorCheck[] = [];
+  checks.push((fileMode & 0o077) === 0
+    ? { name: 'secrets-file', status: 'pass', message: `${displayPath(SECRETS_FILE)} is mode ${fileMode.toString(8)}` }
+    : {
+      name: 'secrets-file',
+      status: 'fail',
+      message: `${displayPath(SECRETS_FILE)} is mode ${fileMode.toString(8)}, expected 600 or stricter`,
+      fix: `chmod 600 ${SECRETS_FILE}`,
+    });
+
+  const dirMode = await getMode(SECRETS_DIR);
+  checks.push(dirMode !== null && (dirMode & 0o077) === 0
+    ? { name: 'secrets-dir', status: 'pass', message: `${displayPath(SECRETS_DIR)} is mode ${dirMode.toString(8)}` }
+    : {
+      name: 'secrets-dir',
+      status: 'fail',
+      message: `${displayPath(SECRETS_DIR)} is mode ${dirMode?.toString(8) ?? 'unknown'}, expected 700 or stricter`,
+      fix: `chmod 700 ${SECRETS_DIR}`,
+    });
+  return checks;
+}
+
+/**
+ * Each existing shell profile should source the secrets file. Missing it in
+ * one profile is a warning; missing it everywhere means keys never load.
+ */
+async function checkShellProfiles(): Promise<DoctorCheck[]> {
+  const secretsExist = (await getMode(SECRETS_FILE)) !== null;
+  const profiles: { profile: string; sourced: boolean }[] = [];
+  for (const profile of getShellProfiles()) {
+    try {
+      await fs.access(profile);
+    } catch {
+      continue;
+    }
+    profiles.push({ profile, sourced: await isSourcedIn(profile) });
+  }
+
+  if (profiles.length === 0) {
+    return [{
+      name: 'shell-profile',
+      status: secretsExist ? 'fail' : 'warn',
+      message: `None of ${getShellProfiles().map(displayPath).join(', ')} exist`,
+      fix: 'Run `letsyolo setup` to create one that sources the secrets file',
+    }];
+  }
+
+  const noneSourced = profiles.every((entry) => !entry.sourced);
+  return profiles.map(({ profile, sourced }): DoctorCheck => {
+    const name = `shell-profile:${path.basename(profile)}`;
+    if (sourced) {
+      return { name, status: 'pass', message: `${displayPath(profile)} sources the secrets file` };
+    }
+    return {
+      name,
+      status: noneSourced && secretsExist ? 'fail' : 'warn',
+      message: `${displayPath(profile)} does not source ${displayPath(SECRETS_FILE)}`,
+      fix: `Add this line to ${displayPath(profile)}: ${getSourceLine()}`,
+    };
+  });
+}
+
+/**
+ * Two different installs of the same agent on PATH means the one you upgrade
+ * may not be the one you run.
+ */
+async function checkPathShadowing(): Promise<DoctorCheck[]> {
+  const checks: DoctorCheck[] = [];
+  for (const def of getAgentDefinitions()) {
+    if (def.desktopApp) continue;
+    for (const binary of def.binaries) {
+      const found = await findOnPath(binary);
+      if (found.length === 0) continue;
+      const name = `path:${binary}`;
+      if (found.length === 1) {
+        checks.push({ name, status: 'pass', message: `${binary} → ${displayPath(found[0])}` });
+        continue;
+      }
+      checks.push({
+        name,
+        status: 'warn',
+        message: `${binary} → ${displayPath(found[0])}, shadowing ${found.slice(1).map(displayPath).join(', ')}`,
+        fix: `Remove the installs you don't use, or reorder PATH so the one you want comes first`,
+      });
+    }
+  }
+  return checks;
+}
+
+/**
+ * Where a key was found versus what a new shell will actually have.
+ */
+async function checkKeySources(): Promise<DoctorCheck[]> {
+  const scanned = await scanForExistingKeys();
+  const store = await getActiveSecretStore();
+  const storeLabel = store.name === 'env-file' ? displayPath(SECRETS_FILE) : displayPath(store.location);
+  // Reading any other store's values would decrypt, prompt or run a tool per key; only their names matter.
+  const stored = store.name === 'env-file' ? new Set<string>() : new Set(await store.list());
+  const fileSecrets = store.name === 'env-file' ? await readSecrets() : new Map<string, string>();
+  const unloaded = new Set(getUnloadedKeyFiles().map(displayPath));
+  const checks: DoctorCheck[] = [];
+
+  for (const keyDef of API_KEYS) {
+    if (keyDef.envVar === 'AMPLIFIER_CONFIGURED') continue; // Virtual — not a real env var
+    const name = `key:${keyDef.envVar}`;
+    const envValue = process.env[keyDef.envVar];
+    const fileValue = fileSecrets.get(keyDef.envVar);
+    const found = scanned.get(keyDef.envVar);
+
+    if (envValue && fileValue && envValue !== fileValue) {
+      checks.push({
+        name,
+        status: 'warn',
+        message: `This shell's ${keyDef.envVar} differs from ${storeLabel}; new shells will load the stored value`,
+        fix: `Run \`source ${SECRETS_FILE}\`, or update the stored value with \`letsyolo setup\``,
+      });
+    } else if (!envValue && store.name === 'encrypted' && stored.has(keyDef.envVar)) {
+      checks.push({
+        name,
+        status: 'warn',
+        message: `${keyDef.envVar} is encrypted in ${storeLabel} but not loaded in this shell`,
+        fix: 'Run `eval "$(letsyolo unlock)"`',
+      });
+    } else if (!envValue && !fileValue && !stored.has(keyDef.envVar) && found && unloaded.has(found.source)) {
+      checks.push({
+        name,
+        status: 'warn',
+        message: `${keyDef.envVar} is only in ${found.source}, which your shell does not load`,
+        fix: `Run \`letsyolo setup\` to move it into ${storeLabel}`,
+      });
+    } else if (envValue || fileValue || stored.has(keyDef.envVar) || found) {
+      const source = fileValue || stored.has(keyDef.envVar) ? storeLabel : envValue ? 'environment' : found?.source;
+      checks.push({ name, status: 'pass', message: `${keyDef.envVar} loaded from ${source}` });
+    }
+  }
+  return checks;
+}
+
+/**
+ * Run every check, in display order.
+ */
+export async function runDoctor(): Promise<DoctorCheck[]> {
+  return [
+    ...(await checkConfigFiles()),
+    ...(await checkSecretsPermissions()),
+    ...(await checkShellProfiles()),
+    ...(await checkPathShadowing()),
+    ...(await checkKeySources()),
+  ];
+}
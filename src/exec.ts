@@ -0,0 +1,101 @@
+import { spawn } from 'node:child_process';
+import os from 'node:os';
+import { detectBinary } from './detect.js';
+import { API_KEYS, getActiveSecretStore } from './secrets.js';
+import { resolveForVersion } from './versions.js';
+import type { AgentDefinition } from './types.js';
+
+/** How to launch an agent for `letsyolo exec` */
+export interface ExecPlan {
+  /** The detected binary */
+  command: string;
+  /** The yolo flag for the installed version, then the caller's arguments */
+  args: string[];
+  env: NodeJS.ProcessEnv;
+  /** Keys given to the agent, by name */
+  injected: string[];
+  /** The agent's keys that neither the secret store nor the environment has */
+  missing: string[];
+}
+
+/** Signals passed on to the agent. Terminal ones (Ctrl-C, Ctrl-\) already reach it through the process group. */
+const FORWARDED_SIGNALS: NodeJS.Signals[] = ['SIGTERM', 'SIGHUP'];
+const TERMINAL_SIGNALS: NodeJS.Signals[] = ['SIGINT', 'SIGQUIT'];
+
+/**
+ * Work out the binary, arguments and environment for running an agent with
+ * its own keys only. Every other key letsyolo knows about is removed from
+ * the environment, so the agent can't see keys meant for other agents.
+ */
+export async function planExec(def: AgentDefinition, args: string[]): Promise<ExecPlan> {
+  if (def.desktopApp) {
+    throw new Error(`${def.displayName} is a desktop app; there is no command to exec`);
+  }
+
+  const detection = await detectBinary(def.binaries, def.versionFlag);
+  if (!detection.found || !detection.path) {
+    throw new Error(`${def.displayName} is not installed; run \`letsyolo install ${def.type}\``);
+  }
+
+  // Some agents have no flag: Amplifier's "flag" is just its own name.
+  const { definition } = resolveForVersion(def, detection.version);
+  const yoloArgs = definition.yoloFlag.startsWith('-') ? definition.yoloFlag.split(/\s+/) : [];
+
+  const store = await getActiveSecretStore();
+  const stored = await store.list();
+  const ownKeys = API_KEYS
+    .filter((keyDef) => keyDef.agentTypes.includes(def.type) && keyDef.envVar !== 'AMPLIFIER_CONFIGURED')
+    .map((keyDef) => keyDef.envVar);
+
+  const env: NodeJS.ProcessEnv = { ...process.env };
+  for (const key of [...API_KEYS.map((keyDef) => keyDef.envVar), ...stored]) {
+    if (!ownKeys.includes(key)) delete env[key];
+  }
+
+  const injected: string[] = [];
+  const missing: string[] = [];
+  for (const key of ownKeys) {
+    const value = stored.includes(key) ? await store.get(key) : undefined;
+    if (value) {
+      env[key] = value;
+      injected.push(key);
+    } else if (env[key]) {
+      injected.push(key);
+    } else {
+      missing.push(key);
+    }
+  }
+
+  return { command: detection.path, args: [...yoloArgs, ...args], env, injected, missing };
+}
+
+/**
+ * Run the planned command with the terminal attached. Resolves to its exit
+ * code, or 128 + the signal number if a signal ended it, as shells report.
+ */
+export function runExec(plan: ExecPlan): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(plan.command, plan.args, { stdio: 'inherit', env: plan.env });
+
+    const forward = (signal: NodeJS.Signals): void => {
+      child.kill(signal);
+    };
+    // Keep letsyolo alive while the agent decides what a Ctrl-C means.
+    const ignore = (): void => {};
+    const cleanup = (): void => {
+      for (const signal of FORWARDED_SIGNALS) process.off(signal, forward);
+      for (const signal of TERMINAL_SIGNALS) process.off(signal, ignore);
+    };
+    for (const signal of FORWARDED_SIGNALS) process.on(signal, forward);
+    for (const signal of TERMINAL_SIGNALS) process.on(signal, ignore);
+
+    child.on('error', (error) => {
+      cleanup();
+      reject(error);
+    });
+    child.on('close', (code, signal) => {
+      cleanup();
+      resolve(code ?? 128 + (signal ? os.constants.signals[signal] : 0));
+    });
+  });
+}
@@ -0,0 +1,216 @@
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { getDefinition } from './agents.js';
+import { disableYolo } from './configure.js';
+import { isFileNotFoundError, writeFileAtomic } from './fs-utils.js';
+import type { AgentType, YoloExpiry, YoloResult } from './types.js';
+
+export const EXPIRY_FILE = path.join(os.homedir(), '.letsyolo', 'expiry.json');
+
+const UNIT_MS: Record<string, number> = {
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000,
+};
+
+interface ExpiryFile {
+  expiries: YoloExpiry[];
+}
+
+/**
+ * Parse a duration such as `30m`, `2h`, `1d` or `1h30m` into milliseconds.
+ */
+export function parseDuration(input: string): number {
+  const normalized = input.toLowerCase().replace(/\s+/g, '');
+  if (!/^(\d+[smhdw])+$/.test(normalized)) {
+    throw new Error(`Invalid duration: ${input} (use e.g. 30m, 2h, 1d or 1h30m)`);
+  }
+
+  let total = 0;
+  for (const [, amount, unit] of normalized.matchAll(/(\d+)([smhdw])/g)) {
+    total += Number(amount) * UNIT_MS[unit];
+  }
+  if (total <= 0) {
+    throw new Error(`Duration must be longer than zero: ${input}`);
+  }
+  return total;
+}
+
+/**
+ * Describe the time left until `expiresAt`, e.g. `1h 20m left`.
+ */
+export function formatTimeLeft(expiresAt: string, now: Date = new Date()): string {
+  const ms = new Date(expiresAt).getTime() - now.getTime();
+  if (ms <= 0) return 'expired';
+
+  const minutes = Math.ceil(ms / UNIT_MS.m);
+  const days = Math.floor(minutes / (24 * 60));
+  const hours = Math.floor((minutes % (24 * 60)) / 60);
+  const rest = minutes % 60;
+  const parts = [days ? `${days}d` : '', hours ? `${hours}h` : '', rest ? `${rest}m` : ''].filter(Boolean);
+  return `${parts.join(' ')} left`;
+}
+
+function isYoloExpiry(value: unknown): value is YoloExpiry {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return false;
+  const entry = value as Record<string, unknown>;
+  return (
+    typeof entry.agent === 'string' &&
+    typeof entry.expiresAt === 'string' &&
+    !Number.isNaN(new Date(entry.expiresAt).getTime())
+  );
+}
+
+function sameScope(a: Omit<YoloExpiry, 'expiresAt'>, b: Omit<YoloExpiry, 'expiresAt'>): boolean {
+  return a.agent === b.agent && a.projectDir === b.projectDir && a.profile === b.profile;
+}
+
+async function readExpiryFile(stateFile: string): Promise<ExpiryFile> {
+  try {
+    const parsed: unknown = JSON.parse(await fs.readFile(stateFile, 'utf-8'));
+    const entries = parsed && typeof parsed === 'object' ? (parsed as Record<string, unknown>).expiries : undefined;
+    return { expiries: Array.isArray(entries) ? entries.filter(isYoloExpiry) : [] };
+  } catch (error) {
+    if (isFileNotFoundError(error)) return { expiries: [] };
+    if (error instanceof SyntaxError) {
+      throw new Error(`Invalid JSON in ${stateFile}: ${error.message}`);
+    }
+    throw error;
+  }
+}
+
+async function writeExpiryFile(stateFile: string, file: ExpiryFile): Promise<void> {
+  if (file.expiries.length === 0) {
+    await fs.rm(stateFile, { force: true });
+    return;
+  }
+  await writeFileAtomic(stateFile, JSON.stringify(file, null, 2) + '\n', { mode: 0o600 });
+}
+
+function toScope(agent: AgentType, scope: { projectDir?: string; profile?: string }): Omit<YoloExpiry, 'expiresAt'> {
+  return {
+    agent,
+    ...(scope.projectDir !== undefined ? { projectDir: path.resolve(scope.projectDir) } : {}),
+    ...(scope.profile !== undefined ? { profile: scope.profile } : {}),
+  };
+}
+
+/**
+ * List pending expiries, soonest first.
+ */
+export async function listExpiries(stateFile: string = EXPIRY_FILE): Promise<YoloExpiry[]> {
+  const { expiries } = await readExpiryFile(stateFile);
+  return expiries.sort((a, b) => new Date(a.expiresAt).getTime() - new Date(b.expiresAt).getTime());
+}
+
+/**
+ * Schedule an agent (in a given project/profile scope) to be reverted at `expiresAt`.
+ * Re-enabling the same scope replaces its previous window.
+ */
+export async function recordExpiry(
+  agent: AgentType,
+  expiresAt: Date,
+  scope: { projectDir?: string; profile?: string } = {},
+  stateFile: string = EXPIRY_FILE,
+): Promise<YoloExpiry> {
+  const entry: YoloExpiry = { ...toScope(agent, scope), expiresAt: expiresAt.toISOString() };
+  const file = await readExpiryFile(stateFile);
+  file.expiries = [...file.expiries.filter((existing) => !sameScope(existing, entry)), entry];
+  await writeExpiryFile(stateFile, file);
+  return entry;
+}
+
+/**
+ * Start the `--for` window for every enable that changed persistent config,
+ * with or without a level (Gemini's autoAccept has none), and attach it to
+ * the result. Session-only agents have nothing to revert.
+ */
+export async function recordExpiries(
+  results: YoloResult[],
+  expiresAt: Date,
+  scope: { projectDir?: string; profile?: string } = {},
+  stateFile: string = EXPIRY_FILE,
+): Promise<void> {
+  for (const result of results) {
+    if (!result.success || !result.config || result.config.sessionOnly) continue;
+    result.config.expiries = [await recordExpiry(result.type, expiresAt, scope, stateFile)];
+  }
+}
+
+/**
+ * Forget the window for a scope, e.g. after a manual disable.
+ */
+export async function clearExpiry(
+  agent: AgentType,
+  scope: { projectDir?: string; profile?: string } = {},
+  stateFile: string = EXPIRY_FILE,
+): Promise<void> {
+  const target = toScope(agent, scope);
+  const file = await readExpiryFile(stateFile);
+  const remaining = file.expiries.filter((existing) => !sameScope(existing, target));
+  if (remaining.length !== file.expiries.length) {
+    await writeExpiryFile(stateFile, { expiries: remaining });
+  }
+}
+
+/**
+ * Revert one expired window. Errors become a failed result so one bad entry
+ * can't hold up the others.
+ */
+async function revertEntry(entry: YoloExpiry): Promise<YoloResult> {
+  try {
+    return await disableYolo(entry.agent, { projectDir: entry.projectDir, profile: entry.profile });
+  } catch (error) {
+    return {
+      type: entry.agent,
+      displayName: getDefinition(entry.agent)?.displayName ?? entry.agent,
+      success: false,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+/**
+ * Revert every agent whose window has passed, with the same logic as
+ * `disable`. Entries that fail to revert are kept so the next run retries;
+ * entries for agents that are no longer defined (e.g. removed from
+ * agents.d) can never be reverted, so they are dropped and reported.
+ */
+export async function expireDue(
+  now: Date = new Date(),
+  stateFile: string = EXPIRY_FILE,
+): Promise<YoloResult[]> {
+  const file = await readExpiryFile(stateFile);
+  const due = file.expiries.filter((entry) => new Date(entry.expiresAt).getTime() <= now.getTime());
+  if (due.length === 0) return [];
+
+  const results: YoloResult[] = [];
+  const settled = new Set<YoloExpiry>();
+  for (const entry of due) {
+    if (!getDefinition(entry.agent)) {
+      results.push({
+        type: entry.agent,
+        displayName: entry.agent,
+        success: false,
+        error: `${entry.agent} is no longer a known agent, so its window was dropped; check its config by hand`,
+      });
+      settled.add(entry);
+      continue;
+    }
+
+    const result = await revertEntry(entry);
+    results.push(result);
+    if (result.success) settled.add(entry);
+  }
+
+  // Re-read so windows recorded meanwhile are not lost.
+  const latest = await readExpiryFile(stateFile);
+  latest.expiries = latest.expiries.filter(
+    (entry) => ![...settled].some((done) => sameScope(done, entry) && done.expiresAt === entry.expiresAt),
+  );
+  await writeExpiryFile(stateFile, latest);
+  return results;
+}
@@ -13,8 +13,134 @@ export function isFileNotFoundError(error: unknown): boolean {
   );
 }
 
+/**
+ * Check if an error means a file changed on disk after it was read.
+ */
+export function isConflictError(error: unknown): boolean {
+  return (
+    error instanceof Error &&
+    'code' in error &&
+    (error as NodeJS.ErrnoException).code === 'ECONFLICT'
+  );
+}
+
+/**
+ * What a file looked like when it was read; `hash` is null if it didn't exist.
+ */
+export interface FileSnapshot {
+  hash: string | null;
+  mtimeMs: number | null;
+}
+
+function hashContent(content: string | Buffer): string {
+  return crypto.createHash('sha256').update(content).digest('hex');
+}
+
+/**
+ * Record a file's content hash and mtime so a later write can tell whether
+ * someone else changed it in the meantime.
+ */
+export async function snapshotFile(filePath: string): Promise<FileSnapshot> {
+  try {
+    const [content, stat] = await Promise.all([fs.readFile(filePath), fs.stat(filePath)]);
+    return { hash: hashContent(content), mtimeMs: stat.mtimeMs };
+  } catch (error) {
+    if (isFileNotFoundError(error)) return { hash: null, mtimeMs: null };
+    throw error;
+  }
+}
+
+/**
+ * Throw an ECONFLICT error if the file no longer matches the snapshot. An
+ * unchanged mtime is trusted as-is; a newer one only counts as a conflict
+ * when the content differs too (e.g. not after a bare `touch`).
+ */
+async function assertUnchanged(filePath: string, expected: FileSnapshot): Promise<void> {
+  let mtimeMs: number | null = null;
+  try {
+    mtimeMs = (await fs.stat(filePath)).mtimeMs;
+  } catch (error) {
+    if (!isFileNotFoundError(error)) throw error;
+  }
+  if (mtimeMs !== null && mtimeMs === expected.mtimeMs) return;
+  if ((await snapshotFile(filePath)).hash === expected.hash) return;
+
+  const error = new Error(`${filePath} was modified by another process while it was being updated`) as NodeJS.ErrnoException;
+  error.code = 'ECONFLICT';
+  throw error;
+}
+
+interface LockOptions {
+  /** How long to wait for another holder before giving up */
+  timeoutMs?: number;
+  /** Locks older than this are assumed to be left over from a crashed run */
+  staleMs?: number;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Run `fn` while holding an advisory lock on `filePath` (a `<file>.letsyolo.lock`
+ * file next to it). Only other letsyolo runs honor it; agents writing the
+ * file are caught by the snapshot check in writeFileAtomic instead.
+ */
+export async function withFileLock<T>(filePath: string, fn: () => Promise<T>, options: LockOptions = {}): Promise<T> {
+  const { timeoutMs = 5000, staleMs = 30_000 } = options;
+  const lockPath = `${filePath}.letsyolo.lock`;
+  const deadline = Date.now() + timeoutMs;
+  for (;;) {
+    try {
+      const handle = await fs.open(lockPath, 'wx');
+      await handle.writeFile(`${process.pid}\n`);
+      await handle.close();
+      break;
+    } catch (error) {
+      // No directory means no file yet; the snapshot check still covers a racing creator.
+      if (isFileNotFoundError(error)) return fn();
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') throw error;
+    }
+
+    try {
+      const stat = await fs.stat(lockPath);
+      if (Date.now() - stat.mtimeMs > staleMs) {
+        await fs.unlink(lockPath);
+        continue;
+      }
+    } catch (error) {
+      // Released between our open and stat: try again straight away.
+      if (isFileNotFoundError(error)) continue;
+      throw error;
+    }
+
+    if (Date.now() >= deadline) {
+      throw new Error(`${filePath} is locked by another letsyolo run; if none is running, delete ${lockPath}`);
+    }
+    await sleep(50);
+  }
+
+  try {
+    return await fn();
+  } finally {
+    await fs.rm(lockPath, { force: true });
+  }
+}
+
+/**
+ * Remove a file if it exists, refusing when it no longer matches `expected`.
+ */
+export async function removeFile(filePath: string, options?: { expected?: FileSnapshot }): Promise<void> {
+  if (options?.expected) {
+    await assertUnchanged(filePath, options.expected);
+  }
+  await fs.rm(filePath, { force: true });
+}
+
 interface WriteOptions {
   mode?: number;
+  /** Refuse to replace the file unless it still matches this snapshot */
+  expected?: FileSnapshot;
 }
 
 /**
@@ -33,6 +159,9 @@ export async function writeFileAtomic(
 
   try {
     await fs.writeFile(tmpFile, content, { mode: options?.mode });
+    if (options?.expected) {
+      await assertUnchanged(filePath, options.expected);
+    }
     await fs.rename(tmpFile, filePath);
   } catch (error) {
     // Clean up temp file on failure
@@ -1,7 +1,9 @@
 #!/usr/bin/env node
 
 import { createRequire } from 'node:module';
-import { AGENT_DEFINITIONS, parseAgentType } from './agents.js';
+import readline from 'node:readline';
+import { getAgentDefinitions, getDefinition, getDefinitionOrThrow, parseAgentType, registerAgentDefinitions } from './agents.js';
+import { BACKUPS_DIR, listBackups, restoreBackup } from './backups.js';
 import {
   checkYoloStatus,
   disableAll,
@@ -9,16 +11,51 @@ import {
   enableAll,
   enableYolo,
 } from './configure.js';
-import { detectAll } from './detect.js';
+import { refreshDetectionCache } from './detect-cache.js';
+import { detectAll, setDetectTimeout } from './detect.js';
+import { runDoctor } from './doctor.js';
+import { planExec, runExec } from './exec.js';
+import { clearExpiry, expireDue, formatTimeLeft, listExpiries, parseDuration, recordExpiries } from './expiry.js';
+import { installAgent, planInstall } from './install.js';
+import { AUTONOMY_LEVELS, parseAutonomyLevel } from './levels.js';
+import { checkForUpdate, getUpgradeCommand, upgradeAgent } from './updates.js';
+import type { RegistryOptions } from './updates.js';
+import { loadUserAgents } from './user-agents.js';
+import { resolveForVersion } from './versions.js';
 import {
   SECRETS_FILE,
   addSourceLine,
+  SECRETS_FORMATS,
+  askHidden,
   checkApiKeyStatus,
+  formatSecrets,
+  getActiveSecretStore,
   getShellProfiles,
   interactiveSetup,
   isSourcedIn,
+  parseSecretsFile,
+  readSecrets,
+  removeSecret,
+  setSecretStore,
+  storeSecrets,
 } from './secrets.js';
-import type { AgentStatus, YoloResult } from './types.js';
+import type { SecretsFormat } from './secrets.js';
+import { SECRET_STORE_NAMES, isSecretStoreName } from './secret-store.js';
+import type { SecretStoreName } from './secret-store.js';
+import type {
+  AgentDefinition,
+  AgentStatus,
+  AgentType,
+  AutonomyLevel,
+  ConfigBackup,
+  AgentUpdate,
+  DoctorCheck,
+  InstallResult,
+  YoloExpiry,
+  YoloOptions,
+  UpgradeResult,
+  YoloResult,
+} from './types.js';
 
 const require = createRequire(import.meta.url);
 const packageJson = require('../package.json') as { version?: string };
@@ -41,10 +78,47 @@ interface CliOptions {
   noColor: boolean;
   help: boolean;
   version: boolean;
+  dryRun: boolean;
+  /** Re-check agent versions instead of trusting ~/.letsyolo/cache.json */
+  refresh: boolean;
+  /** Per-binary version check timeout, in milliseconds */
+  timeoutMs?: number;
+  /** Skip the confirmation prompt for install and upgrade */
+  yes: boolean;
+  /** npm registry for outdated/upgrade */
+  registry?: string;
+  /** Python package index for outdated/upgrade */
+  indexUrl?: string;
+  /** Secret store for setup to keep API keys in */
+  store?: SecretStoreName;
+  /** Read the value for `keys set` from stdin */
+  stdin: boolean;
+  /** Output format for `keys export` */
+  format?: SecretsFormat;
+  /** Project directory for project-scoped Claude Code settings */
+  projectDir?: string;
+  allow: string[];
+  deny: string[];
+  /** Codex profile to scope enable/disable to */
+  profile?: string;
+  /** Claude Desktop MCP servers to scope enable/disable to */
+  servers: string[];
+  /** Autonomy level for enable */
+  level?: AutonomyLevel;
+  /** How long `enable --for` keeps yolo mode on, in milliseconds */
+  forMs?: number;
+  /** Backup timestamp (or prefix) for `restore --at` */
+  at?: string;
   positionals: string[];
+  /** Everything after `--`, passed to the agent by exec */
+  passthrough?: string[];
 }
 
 interface SetupResult {
+  /** Secret store the keys were saved to */
+  store: SecretStoreName;
+  /** Keys moved over from the previous store by --store */
+  moved: string[];
   saved: string[];
   skipped: string[];
   shellProfilesConfigured: string[];
@@ -83,16 +157,147 @@ function statusIcon(ok: boolean): string {
   return ok ? green('✓') : red('✗');
 }
 
+/**
+ * A version check timeout: plain milliseconds (`2000`) or a duration (`2s`).
+ */
+function parseTimeout(value: string, source: string): number {
+  if (/^\d+$/.test(value.trim())) {
+    const ms = Number(value.trim());
+    if (ms > 0) return ms;
+  } else {
+    try {
+      return parseDuration(value);
+    } catch {
+      // Reported below
+    }
+  }
+  throw new Error(`Invalid ${source}: ${value} (use milliseconds or a duration such as 2s)`);
+}
+
 function parseCliOptions(rawArgs: string[]): CliOptions {
   const options: CliOptions = {
     json: false,
     noColor: false,
     help: false,
     version: false,
+    dryRun: false,
+    refresh: false,
+    yes: false,
+    stdin: false,
+    allow: [],
+    deny: [],
+    servers: [],
     positionals: [],
   };
 
-  for (const arg of rawArgs) {
+  for (let i = 0; i < rawArgs.length; i += 1) {
+    const arg = rawArgs[i];
+    if (arg === '--') {
+      options.passthrough = rawArgs.slice(i + 1);
+      break;
+    }
+
+    const [name, inlineValue] = arg.startsWith('--') && arg.includes('=')
+      ? [arg.slice(0, arg.indexOf('=')), arg.slice(arg.indexOf('=') + 1)]
+      : [arg, undefined];
+
+    const takeValue = (): string => {
+      if (inlineValue !== undefined) return inlineValue;
+      const next = rawArgs[i + 1];
+      if (next === undefined || next.startsWith('-')) {
+        throw new Error(`Option ${name} requires a value`);
+      }
+      i += 1;
+      return next;
+    };
+
+    if (name === '--project') {
+      // The directory is optional; an agent name after --project is not a directory.
+      const next = rawArgs[i + 1];
+      if (inlineValue !== undefined) {
+        options.projectDir = inlineValue;
+      } else if (next !== undefined && !next.startsWith('-') && !parseAgentType(next)) {
+        options.projectDir = next;
+        i += 1;
+      } else {
+        options.projectDir = process.cwd();
+      }
+      continue;
+    }
+
+    if (name === '--allow' || name === '--deny') {
+      options[name === '--allow' ? 'allow' : 'deny'].push(takeValue());
+      continue;
+    }
+
+    if (name === '--profile') {
+      options.profile = takeValue();
+      continue;
+    }
+
+    if (name === '--server') {
+      options.servers.push(takeValue());
+      continue;
+    }
+
+    if (name === '--level') {
+      const value = takeValue();
+      const level = parseAutonomyLevel(value);
+      if (!level) {
+        throw new Error(`Unknown level: ${value} (expected ${AUTONOMY_LEVELS.map((d) => d.level).join(', ')})`);
+      }
+      options.level = level;
+      continue;
+    }
+
+    if (name === '--for') {
+      options.forMs = parseDuration(takeValue());
+      continue;
+    }
+
+    if (name === '--timeout') {
+      options.timeoutMs = parseTimeout(takeValue(), '--timeout');
+      continue;
+    }
+
+    if (name === '--registry') {
+      options.registry = takeValue();
+      continue;
+    }
+
+    if (name === '--index-url') {
+      options.indexUrl = takeValue();
+      continue;
+    }
+
+    if (name === '--store') {
+      const store = takeValue();
+      if (!isSecretStoreName(store)) {
+        throw new Error(`Unknown secret store: ${store}. Use one of: ${SECRET_STORE_NAMES.join(', ')}`);
+      }
+      options.store = store;
+      continue;
+    }
+
+    if (name === '--format') {
+      const format = takeValue();
+      if (!(SECRETS_FORMATS as readonly string[]).includes(format)) {
+        throw new Error(`Unknown format: ${format}. Use one of: ${SECRETS_FORMATS.join(', ')}`);
+      }
+      options.format = format as SecretsFormat;
+      continue;
+    }
+
+    if (arg === '--stdin') {
+      options.stdin = true;
+      continue;
+    }
+
+    if (name === '--at') {
+      options.at = takeValue();
+      continue;
+    }
+
     if (arg === '--json') {
       options.json = true;
       continue;
@@ -103,6 +308,21 @@ function parseCliOptions(rawArgs: string[]): CliOptions {
       continue;
     }
 
+    if (arg === '--dry-run') {
+      options.dryRun = true;
+      continue;
+    }
+
+    if (arg === '--yes' || arg === '-y') {
+      options.yes = true;
+      continue;
+    }
+
+    if (arg === '--refresh') {
+      options.refresh = true;
+      continue;
+    }
+
     if (arg === '--help' || arg === '-h') {
       options.help = true;
       continue;
@@ -150,10 +370,33 @@ function printDetection(agents: AgentStatus[]): void {
     console.log(
       `  ${statusIcon(agent.installed)} ${agent.displayName.padEnd(18)} ${status.padEnd(21)} ${version.padEnd(16)} ${dim(agentPath)}`,
     );
+    printInstallations(agent);
   }
   console.log();
 }
 
+/**
+ * List every copy of an agent when there's more than one, marking the one
+ * PATH runs, so a stale install can't hide behind the one being upgraded.
+ */
+function printInstallations(agent: AgentStatus): void {
+  const installations = agent.installations ?? [];
+  if (installations.length < 2) return;
+
+  for (const installation of installations) {
+    const marker = installation.active ? green('→') : ' ';
+    const where = installation.active
+      ? 'runs on PATH'
+      : installation.onPath ? 'shadowed on PATH' : 'not on PATH';
+    console.log(`      ${marker} ${(installation.version ?? '—').padEnd(30)} ${dim(installation.path)} ${dim(`(${where})`)}`);
+  }
+  if (agent.versionMismatch) {
+    const active = installations.find((installation) => installation.active);
+    const runs = active ? `; PATH runs ${active.path}` : '';
+    console.log(`      ${yellow('Warning:')} ${installations.length} installations report different versions${runs}`);
+  }
+}
+
 function printYoloResults(results: YoloResult[], action: string): void {
   console.log(`\n${bold(`YOLO Mode — ${action}`)}\n`);
 
@@ -169,7 +412,7 @@ function printYoloResults(results: YoloResult[], action: string): void {
       ? dim('○')
       : r.config.enabled
         ? green('●')
-        : r.config.sessionOnly
+        : r.config.sessionOnly || r.config.level
           ? yellow('◐')
           : dim('○');
     console.log(`  ${icon} ${bold(r.displayName)}`);
@@ -179,7 +422,54 @@ function printYoloResults(results: YoloResult[], action: string): void {
       console.log(`    ${dim('Config:')}  n/a (session-only)`);
     }
     console.log(`    ${dim('CLI:')}     ${cyan(r.config.cliFlag)}`);
+    if (r.config.level !== undefined) {
+      console.log(`    ${dim('Level:')}   ${r.config.level ?? 'default'}`);
+    }
     console.log(`    ${dim('Status:')}  ${r.config.details}`);
+    for (const warning of r.warnings ?? []) {
+      console.log(`    ${yellow('Warning:')} ${warning}`);
+    }
+    for (const expiry of r.config.expiries ?? []) {
+      const scope = expiry.profile !== undefined
+        ? ` (profile ${expiry.profile})`
+        : expiry.projectDir !== undefined ? ` (project ${expiry.projectDir})` : '';
+      console.log(`    ${dim('Expires:')} ${yellow(formatTimeLeft(expiry.expiresAt))}${scope} ${dim(`at ${expiry.expiresAt}`)}`);
+    }
+    (r.config.servers ?? []).forEach((server, i) => {
+      const label = i === 0 ? dim('MCP:') : '    ';
+      const serverIcon = server.autoApprove ? green('●') : dim('○');
+      console.log(`    ${label}     ${serverIcon} ${server.name}${server.autoApprove ? dim(' (autoApprove set, unverified)') : ''}`);
+    });
+    if (r.config.project) {
+      const projectIcon = r.config.project.enabled ? green('●') : dim('○');
+      console.log(`    ${dim('Project:')} ${r.config.project.configPath}`);
+      console.log(`             ${projectIcon} ${r.config.project.details}`);
+    }
+    console.log();
+  }
+}
+
+function colorPatchLine(line: string): string {
+  if (line.startsWith('+++') || line.startsWith('---')) return bold(line);
+  if (line.startsWith('@@')) return cyan(line);
+  if (line.startsWith('+')) return green(line);
+  if (line.startsWith('-')) return red(line);
+  return line;
+}
+
+function printChanges(results: YoloResult[]): void {
+  const patches = results.flatMap((r) => r.changes ?? []).filter((change) => change.patch);
+
+  console.log(`${bold('Planned changes (dry run — nothing was written)')}\n`);
+  if (patches.length === 0) {
+    console.log(`  ${dim('No config files would change.')}\n`);
+    return;
+  }
+
+  for (const change of patches) {
+    for (const line of change.patch.trimEnd().split('\n')) {
+      console.log(`  ${colorPatchLine(line)}`);
+    }
     console.log();
   }
 }
@@ -190,11 +480,34 @@ function getReadyCommands(results: YoloResult[]): string[] {
     codex: 'codex --yolo',
     copilot: 'copilot --yolo',
     amplifier: 'amplifier',
+    gemini: 'gemini --yolo',
+    aider: 'aider --yes-always',
+    'cursor-agent': 'cursor-agent --force',
+  };
+
+  // Below full-bypass the persisted settings do the work, so launch plainly.
+  const plainCommands: Record<string, string> = {
+    'claude-code': 'claude',
+    codex: 'codex',
   };
 
   return results
-    .filter((result) => result.success && result.config && (result.config.enabled || result.config.sessionOnly))
-    .map((result) => commands[result.type])
+    .filter((result) => result.success && result.config && (result.config.level || result.config.sessionOnly))
+    .map((result) => {
+      if (result.type === 'codex' && result.config?.profile !== undefined) {
+        return `codex --profile ${result.config.profile}`;
+      }
+      const def = getDefinition(result.type);
+      if (def && !def.source && result.config?.cliFlag !== def.yoloFlag) {
+        // An older release that wants a different flag than the current one.
+        commands[result.type] = `${def.binaries[0]} ${result.config?.cliFlag}`;
+      }
+      if (def?.source) {
+        // User-defined agents: the persisted settings or the session flag.
+        return result.config?.enabled ? def.binaries[0] : `${def.binaries[0]} ${def.yoloFlag}`;
+      }
+      return result.config?.enabled || result.config?.sessionOnly ? commands[result.type] : plainCommands[result.type];
+    })
     .filter((command): command is string => Boolean(command));
 }
 
@@ -222,17 +535,123 @@ async function printApiKeyStatus(): Promise<void> {
     console.log(`  ${icon} ${k.envVar.padEnd(24)} ${k.agent.padEnd(18)} ${sourceLabel}`);
   }
 
-  console.log(`\n  ${dim(`Secrets file: ${SECRETS_FILE}`)}`);
+  console.log(`\n  ${dim(`Secret store: ${(await getActiveSecretStore()).location}`)}`);
   console.log();
 }
 
-async function runSetup(jsonMode: boolean): Promise<SetupResult> {
+async function readStdin(): Promise<string> {
+  let data = '';
+  process.stdin.setEncoding('utf8');
+  for await (const chunk of process.stdin) data += chunk;
+  return data;
+}
+
+/**
+ * The value for `keys set`: all of stdin with --stdin (minus the trailing
+ * newline), otherwise typed in without echo.
+ */
+async function readKeyValue(key: string, options: CliOptions): Promise<string> {
+  if (options.stdin) {
+    return (await readStdin()).replace(/\r?\n$/, '');
+  }
+  if (!process.stdin.isTTY) {
+    throw new Error(`No terminal to type ${key} into; pipe the value in with --stdin`);
+  }
+  return askHidden(`${key}: `);
+}
+
+async function runKeysCommand(subcommand: string, arg: string | undefined, options: CliOptions): Promise<void> {
+  const log = options.json ? console.error : console.log;
+
+  switch (subcommand) {
+    case 'set': {
+      if (!arg) throw new Error('Usage: letsyolo keys set <VAR> [--stdin]');
+      const store = await storeSecrets(new Map([[arg, await readKeyValue(arg, options)]]));
+      if (options.json) {
+        printJson({ set: arg, store: store.name });
+      } else {
+        log(`${green('✓')} Saved ${arg} to ${dim(store.location)}`);
+      }
+      return;
+    }
+
+    case 'unset': {
+      if (!arg) throw new Error('Usage: letsyolo keys unset <VAR>');
+      const store = await getActiveSecretStore();
+      const removed = await removeSecret(arg);
+      if (options.json) {
+        printJson({ unset: arg, removed, store: store.name });
+      } else if (removed) {
+        log(`${green('✓')} Removed ${arg} from ${dim(store.location)}`);
+      } else {
+        log(`${red('✗')} ${arg} is not in ${store.location}`);
+      }
+      if (!removed) process.exitCode = 1;
+      return;
+    }
+
+    case 'import': {
+      if (!arg) throw new Error('Usage: letsyolo keys import <file>');
+      const { secrets, skipped } = await parseSecretsFile(arg);
+      if (secrets.size === 0) {
+        throw new Error(`No keys found in ${arg}`);
+      }
+      const store = await storeSecrets(secrets);
+      const imported = [...secrets.keys()];
+      if (options.json) {
+        printJson({ imported, skipped, store: store.name });
+      } else {
+        log(`${green('✓')} Imported ${imported.length} key(s) into ${dim(store.location)}: ${imported.join(', ')}`);
+        for (const line of skipped) {
+          log(`  ${yellow('!')} ${dim(`line ${line.line}: ${line.reason}`)}`);
+        }
+      }
+      // Skipped lines are worth a non-zero exit, so scripts notice a partly imported file.
+      if (skipped.length > 0) process.exitCode = 1;
+      return;
+    }
+
+    case 'export': {
+      if (arg) throw new Error(`Unexpected argument: ${arg}`);
+      if (options.json && options.format !== undefined) {
+        throw new Error('Use either --json or --format, not both');
+      }
+      const secrets = await readSecrets();
+      if (options.json) {
+        printJson({ secrets: Object.fromEntries(secrets) });
+      } else {
+        process.stdout.write(formatSecrets(secrets, options.format ?? 'env'));
+      }
+      return;
+    }
+
+    default:
+      throw new Error(`Unknown keys subcommand: ${subcommand}`);
+  }
+}
+
+async function runSetup(jsonMode: boolean, storeName?: SecretStoreName): Promise<SetupResult> {
+  // Without a terminal, setup can still switch stores and hook shell profiles, but not prompt.
+  const interactive = !!process.stdin.isTTY;
+  if (!interactive && !storeName) {
+    throw new Error('setup prompts for each key and needs a terminal; in scripts use `letsyolo keys set <VAR> --stdin` or `letsyolo keys import <file>`');
+  }
+
+  const moved = storeName ? await setSecretStore(storeName) : [];
+  const store = await getActiveSecretStore();
+
   if (!jsonMode) {
     console.log(`\n${bold('API Key Setup')}\n`);
-    console.log('  Enter your API keys below. Press Enter to skip any key.\n');
+    if (storeName) {
+      const movedNote = moved.length > 0 ? ` (moved ${moved.length} existing key(s))` : '';
+      console.log(`  ${green('✓')} Keys are kept in ${store.location}${movedNote}\n`);
+    }
+    if (interactive) {
+      console.log('  Enter your API keys below. Press Enter to skip any key.\n');
+    }
   }
 
-  const { saved, skipped } = await interactiveSetup();
+  const { saved, skipped } = interactive ? await interactiveSetup() : { saved: [], skipped: [] };
   const profiles = getShellProfiles();
   const hooked: string[] = [];
 
@@ -249,8 +668,12 @@ async function runSetup(jsonMode: boolean): Promise<SetupResult> {
 
   if (!jsonMode) {
     if (saved.length > 0) {
-      console.log(`\n  ${green('✓')} Saved ${saved.length} key(s) to ${dim(SECRETS_FILE)}`);
-      console.log(`  ${dim('(file permissions: 600 — owner read/write only)')}`);
+      console.log(`\n  ${green('✓')} Saved ${saved.length} key(s) to ${dim(store.location)}`);
+      if (store.name === 'env-file' || store.name === 'encrypted') {
+        console.log(`  ${dim('(file permissions: 600 — owner read/write only)')}`);
+      } else {
+        console.log(`  ${dim(`(${SECRETS_FILE} only holds commands that read them back)`)}`);
+      }
 
       if (hooked.length > 0) {
         console.log(`\n  ${green('✓')} Shell profile(s) configured:`);
@@ -259,9 +682,15 @@ async function runSetup(jsonMode: boolean): Promise<SetupResult> {
         }
       }
 
-      console.log(`\n${bold('Activate now — run this in your terminal:')}\n`);
-      console.log(`  ${cyan(`source ${SECRETS_FILE}`)}\n`);
-      console.log(dim('Or open a new terminal tab — it will load automatically.'));
+      if (store.name === 'encrypted') {
+        console.log(`\n${bold('Load them into a shell with:')}\n`);
+        console.log(`  ${cyan('eval "$(letsyolo unlock)"')}\n`);
+        console.log(dim('New terminals start without them; run `eval "$(letsyolo lock)"` to clear them again.'));
+      } else {
+        console.log(`\n${bold('Activate now — run this in your terminal:')}\n`);
+        console.log(`  ${cyan(`source ${SECRETS_FILE}`)}\n`);
+        console.log(dim('Or open a new terminal tab — it will load automatically.'));
+      }
     }
 
     if (skipped.length > 0) {
@@ -272,20 +701,240 @@ async function runSetup(jsonMode: boolean): Promise<SetupResult> {
   }
 
   return {
+    store: store.name,
+    moved,
     saved,
     skipped,
     shellProfilesConfigured: hooked,
   };
 }
 
+function getYoloOptions(options: CliOptions): YoloOptions {
+  return {
+    dryRun: options.dryRun,
+    projectDir: options.projectDir,
+    allow: options.allow,
+    deny: options.deny,
+    profile: options.profile,
+    servers: options.servers,
+    level: options.level,
+  };
+}
+
+async function clearExpiries(results: YoloResult[], options: CliOptions): Promise<void> {
+  for (const result of results) {
+    if (result.success) {
+      await clearExpiry(result.type, { projectDir: options.projectDir, profile: options.profile });
+    }
+  }
+}
+
+function attachExpiries(results: YoloResult[], expiries: YoloExpiry[]): void {
+  for (const result of results) {
+    const pending = expiries.filter((expiry) => expiry.agent === result.type);
+    if (result.config && pending.length > 0) {
+      result.config.expiries = pending;
+    }
+  }
+}
+
+/**
+ * Revert agents whose `--for` window has passed. Runs before every command;
+ * reports on stderr so --json output stays clean.
+ */
+async function revertExpired(): Promise<void> {
+  let results: YoloResult[];
+  try {
+    results = await expireDue();
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    console.error(`${yellow('Warning:')} could not check YOLO expiry (${reason})`);
+    return;
+  }
+
+  for (const result of results) {
+    console.error(
+      result.success
+        ? `${yellow('⏱')}  YOLO window for ${result.displayName} has expired — reverted.`
+        : `${red('✗')} YOLO window for ${result.displayName} expired but could not be reverted: ${result.error}`,
+    );
+  }
+}
+
+function printExpired(results: YoloResult[]): void {
+  console.log(`\n${bold('Expired YOLO Windows')}\n`);
+  if (results.length === 0) {
+    console.log(`  ${dim('Nothing has expired.')}\n`);
+    return;
+  }
+
+  for (const r of results) {
+    console.log(
+      r.success
+        ? `  ${green('✓')} ${r.displayName}: ${r.config?.details ?? 'reverted'}`
+        : `  ${red('✗')} ${r.displayName}: ${red(r.error ?? 'Unknown error')}`,
+    );
+  }
+  console.log();
+}
+
+function requireAgentType(input: string): AgentType {
+  const agentType = parseAgentType(input);
+  if (!agentType) {
+    throw new Error(`Unknown agent: ${input}`);
+  }
+  return agentType;
+}
+
+function summarizeChecks(checks: DoctorCheck[]): { pass: number; warn: number; fail: number } {
+  return {
+    pass: checks.filter((check) => check.status === 'pass').length,
+    warn: checks.filter((check) => check.status === 'warn').length,
+    fail: checks.filter((check) => check.status === 'fail').length,
+  };
+}
+
+function printDoctor(checks: DoctorCheck[]): void {
+  console.log(`\n${bold('letsyolo doctor')}\n`);
+  const width = Math.max(...checks.map((check) => check.name.length), 10);
+  for (const check of checks) {
+    const icon = check.status === 'pass' ? green('✓') : check.status === 'warn' ? yellow('!') : red('✗');
+    console.log(`  ${icon} ${check.name.padEnd(width)}  ${check.message}`);
+    if (check.fix) {
+      console.log(`    ${' '.repeat(width)}  ${dim('Fix:')} ${cyan(check.fix)}`);
+    }
+  }
+
+  const summary = summarizeChecks(checks);
+  const parts = [
+    green(`${summary.pass} passed`),
+    summary.warn > 0 ? yellow(`${summary.warn} warning(s)`) : `${summary.warn} warning(s)`,
+    summary.fail > 0 ? red(`${summary.fail} failed`) : `${summary.fail} failed`,
+  ];
+  console.log(`\n  ${parts.join(', ')}\n`);
+}
+
+function printInstallResults(results: InstallResult[]): void {
+  console.log(`\n${bold('Install Agents')}\n`);
+  for (const result of results) {
+    if (result.status === 'failed') {
+      console.log(`  ${red('✗')} ${result.displayName}: ${red(result.error ?? 'Install failed')}`);
+      continue;
+    }
+    const icon = result.status === 'installed' ? green('✓') : dim('○');
+    const label = result.status === 'installed' ? 'installed' : 'already installed';
+    console.log(`  ${icon} ${bold(result.displayName)} ${label} ${result.version ?? ''} ${dim(result.path ?? '')}`.trimEnd());
+  }
+  console.log();
+}
+
+function printOutdated(updates: AgentUpdate[]): void {
+  console.log(`\n${bold('Agent Updates')}\n`);
+  console.log(`  ${'Agent'.padEnd(20)} ${'Installed'.padEnd(14)} ${'Latest'.padEnd(14)} Status`);
+  console.log(`  ${'─'.repeat(20)} ${'─'.repeat(14)} ${'─'.repeat(14)} ${'─'.repeat(20)}`);
+  for (const update of updates) {
+    const status = update.outdated === true
+      ? yellow(`run letsyolo upgrade ${update.type}`)
+      : update.outdated === false
+        ? green('up to date')
+        : dim(update.error ?? 'unknown');
+    const icon = update.outdated === true ? yellow('↑') : update.outdated === false ? green('✓') : dim('?');
+    console.log(`  ${icon} ${update.displayName.padEnd(18)} ${(update.current ?? '—').padEnd(14)} ${(update.latest ?? '—').padEnd(14)} ${status}`);
+  }
+  console.log();
+}
+
+function printUpgradeResults(results: UpgradeResult[]): void {
+  console.log(`\n${bold('Upgrade Agents')}\n`);
+  for (const result of results) {
+    if (result.status === 'failed') {
+      console.log(`  ${red('✗')} ${result.displayName}: ${red(result.error ?? 'Upgrade failed')}`);
+    } else if (result.status === 'upgraded') {
+      console.log(`  ${green('✓')} ${bold(result.displayName)} ${result.from ?? '?'} → ${result.to ?? '?'} ${dim(result.path ?? '')}`.trimEnd());
+    } else {
+      console.log(`  ${dim('○')} ${bold(result.displayName)} already up to date ${result.to ?? result.from ?? ''}`.trimEnd());
+    }
+  }
+  console.log();
+}
+
+/**
+ * Show the commands about to run and ask before running them. Without a
+ * terminal to ask on, --yes is required.
+ */
+async function confirmCommands(commands: string[], action: string, options: CliOptions): Promise<boolean> {
+  if (commands.length === 0 || options.yes) return true;
+  if (!process.stdin.isTTY) {
+    throw new Error(`${action} needs confirmation; re-run with --yes to ${action} without asking`);
+  }
+  const log = options.json ? console.error : console.log;
+  log(`\n${bold('About to run:')}\n`);
+  for (const command of commands) log(`  ${cyan(command)}`);
+  log();
+  return confirm(`${action[0].toUpperCase()}${action.slice(1)} ${commands.length} agent(s)?`, options.json);
+}
+
+/**
+ * Ask a yes/no question; anything but y/yes is a no. Prompts on stderr
+ * when stdout carries --json output.
+ */
+async function confirm(question: string, json: boolean): Promise<boolean> {
+  const rl = readline.createInterface({ input: process.stdin, output: json ? process.stderr : process.stdout });
+  try {
+    const answer = await new Promise<string>((resolve) => rl.question(`${question} [y/N] `, resolve));
+    return /^y(es)?$/i.test(answer.trim());
+  } finally {
+    rl.close();
+  }
+}
+
+function printBackups(backups: ConfigBackup[]): void {
+  console.log(`\n${bold('Config Backups')}\n`);
+
+  if (backups.length === 0) {
+    console.log(`  ${dim('No backups yet — one is saved before every enable/disable write.')}`);
+  } else {
+    console.log(`  ${'Agent'.padEnd(14)} ${'Timestamp'.padEnd(28)} Source`);
+    console.log(`  ${'─'.repeat(14)} ${'─'.repeat(28)} ${'─'.repeat(30)}`);
+    for (const backup of backups) {
+      const source = backup.existed ? backup.source : `${backup.source} ${dim('(did not exist)')}`;
+      console.log(`  ${backup.agent.padEnd(14)} ${cyan(backup.timestamp.padEnd(28))} ${source}`);
+    }
+  }
+
+  console.log(`\n  ${dim(`Backup directory: ${BACKUPS_DIR}`)}`);
+  console.log();
+}
+
+function printRestore(restored: ConfigBackup, previous: ConfigBackup): void {
+  console.log(`\n${bold('Restore')}\n`);
+  const action = restored.existed ? 'Restored' : 'Removed (did not exist at backup time)';
+  console.log(`  ${green('✓')} ${action}: ${restored.source}`);
+  console.log(`    ${dim('From:')}      ${restored.timestamp}`);
+  console.log(`    ${dim('Undo with:')} ${cyan(`letsyolo restore ${restored.agent} --at ${previous.timestamp}`)}`);
+  console.log();
+}
+
+function getUserFlags(): Record<string, string> {
+  return Object.fromEntries(
+    getAgentDefinitions()
+      .filter((def) => def.source)
+      .map((def) => [def.type, `${def.binaries[0]} ${def.yoloFlag}`]),
+  );
+}
+
 function printHelp(): void {
-  const agentNames = AGENT_DEFINITIONS.map((agent) => agent.type).join(', ');
+  const agentNames = getAgentDefinitions().map((agent) => agent.type).join(', ');
+  const userAgents = getAgentDefinitions()
+    .filter((def) => def.source)
+    .map((def) => `  ${[def.type, ...(def.aliases ?? [])].join(', ').padEnd(29)}${def.displayName} ${dim('(agents.d)')}\n`)
+    .join('');
 
   console.log(`
 ${bold('letsyolo')} — Configure YOLO mode for AI coding agents
 
 ${bold('Usage:')}
-  letsyolo [command] [agent] [--json] [--no-color]
+  letsyolo [command] [agent] [options]
 
 ${bold('Commands:')}
   letsyolo                     Detect agents and show current YOLO status
@@ -295,34 +944,128 @@ ${bold('Commands:')}
   letsyolo disable <agent>     Disable YOLO mode for a specific agent
   letsyolo detect              Detect installed agents
   letsyolo status              Show current YOLO configuration status
-  letsyolo setup               Interactive API key setup
+  letsyolo setup [--store <name>]
+                               Interactive API key setup; --store picks where keys
+                               are kept (env-file, encrypted, pass, secret-tool)
+                               and moves existing keys there
   letsyolo keys                Show API key status
+  letsyolo keys set <VAR> [--stdin]
+                               Store one key, typed in (hidden) or read from stdin
+  letsyolo keys unset <VAR>    Remove a key from the secret store
+  letsyolo keys import <file>  Store every KEY=value line of an env/dotenv file
+  letsyolo keys export [--format env|json|dotenv]
+                               Print the stored keys (default format: env)
+  letsyolo unlock              Print export lines for the stored keys; run as
+                               eval "$(letsyolo unlock)" (asks for the passphrase
+                               of the encrypted store)
+  letsyolo lock                Print unset lines for the stored keys; run as
+                               eval "$(letsyolo lock)"
   letsyolo flags               Show recommended CLI flags
+  letsyolo exec <agent> -- [args]
+                               Run an agent with its yolo flag and only its own API
+                               key from the secret store; exits with its exit code
+  letsyolo install [agent...]  Run the install command of each agent (default: every
+                               missing one) after confirmation, then detect it again
+  letsyolo outdated [agent]    Compare installed versions with the npm/PyPI registry
+  letsyolo upgrade [agent]     Upgrade one agent, or every outdated one, and confirm
+                               the new version with detection
+  letsyolo doctor              Check configs, secrets permissions, shell setup and PATH;
+                               exits 1 if any check fails
+  letsyolo backups list [agent]
+                               List config backups taken before each write
+  letsyolo restore <agent> [--at <timestamp>]
+                               Restore the newest (or matching) config backup
+  letsyolo expire              Revert agents whose enable --for window has passed
 
 ${bold('Agents:')}
   claude, claude-code          Claude Code CLI
   codex                        OpenAI Codex CLI
   copilot, github-copilot      GitHub Copilot CLI
   amplifier                    Amplifier (Microsoft)
-
+  gemini, gemini-cli           Gemini CLI
+  aider, aider-chat            Aider
+  cursor, cursor-agent         Cursor Agent CLI
+  claude-desktop, desktop      Claude Desktop (MCP auto-approve)
+${userAgents}
 ${bold('Global Options:')}
   --json                       Emit machine-readable JSON output
   --no-color                   Disable ANSI colors
+  --dry-run                    Preview enable/disable as a diff without writing
+  --level <name>               Autonomy level for enable <agent> (default: full-bypass)
+  --for <duration>             With enable, revert automatically after e.g. 30m, 2h, 1d
+  --refresh                    Re-run agent version checks instead of using the
+                               detection cache (~/.letsyolo/cache.json)
+  --timeout <ms|duration>      Time limit for each agent version check (default: 5s;
+                               env: LETSYOLO_DETECT_TIMEOUT)
+  --yes, -y                    With install/upgrade, run the commands without asking
   --help, -h                   Show help
   --version, -v                Show version
 
+${bold('Levels:')}
+${AUTONOMY_LEVELS.map((d) => `  ${d.level.padEnd(29)}${d.description}`).join('\n')}
+
+${bold('Claude Code Project Options:')}
+  --project [dir]              Use <dir>/.claude/settings.local.json (default: cwd)
+                               with enable, disable or status
+  --allow <rule>               Add (or on disable, remove) an allow rule; repeatable
+  --deny <rule>                Add (or on disable, remove) a deny rule; repeatable
+
+${bold('Codex Options:')}
+  --profile <name>             Write (or on disable, remove) [profiles.<name>] instead
+                               of top-level settings; launch with codex --profile <name>
+
+${bold('Update Options:')}
+  --registry <url>             npm registry for outdated/upgrade (e.g. a local mirror)
+  --index-url <url>            Python package index for outdated/upgrade
+                               (default: UV_DEFAULT_INDEX, UV_INDEX_URL or PyPI)
+
+${bold('Claude Desktop Options:')}
+  --server <name>              Only enable (or disable) auto-approve for this MCP
+                               server; repeatable (default: every configured server)
+
 ${bold('Known Agent Types:')} ${agentNames}
 `);
 }
 
-function printFlags(): void {
+/**
+ * Per-session launch commands, keyed as in `flags --json`. Installed agents
+ * get the flag their version understands.
+ */
+function getSessionCommands(agents: AgentStatus[]): { commands: Record<string, string>; warnings: string[] } {
+  const commands: Record<string, string> = {
+    claude: 'claude --dangerously-skip-permissions',
+    codex: 'codex --yolo',
+    copilot: 'copilot --yolo',
+    amplifier: 'amplifier',
+    gemini: 'gemini --yolo',
+    aider: 'aider --yes-always',
+    'cursor-agent': 'cursor-agent --force',
+    ...getUserFlags(),
+  };
+  const warnings: string[] = [];
+
+  for (const agent of agents) {
+    const def = getDefinition(agent.type);
+    if (!def || !agent.installed) continue;
+    const { definition, warning } = resolveForVersion(def, agent.version);
+    if (definition.yoloFlag !== def.yoloFlag) {
+      commands[agent.type === 'claude-code' ? 'claude' : agent.type] = `${def.binaries[0]} ${definition.yoloFlag}`;
+    }
+    if (warning) warnings.push(warning);
+  }
+  return { commands, warnings };
+}
+
+function printFlags(commands: Record<string, string>, warnings: string[]): void {
+  const sessionCommands = Object.values(commands)
+    .map((command) => `  ${cyan(command)}`)
+    .join('\n');
+  const warningLines = warnings.map((warning) => `\n${yellow(`⚠  ${warning}`)}`).join('');
+
   console.log(`
 ${bold('Recommended CLI Flags (per-session)')}
 
-  ${cyan('claude --dangerously-skip-permissions')}
-  ${cyan('codex --yolo')}
-  ${cyan('copilot --yolo')}
-  ${cyan('amplifier')}
+${sessionCommands}
 
 ${bold('Full Autonomous Launch Commands')}
 
@@ -330,12 +1073,33 @@ ${bold('Full Autonomous Launch Commands')}
   ${cyan('codex --sandbox danger-full-access --ask-for-approval never')}
   ${cyan('copilot --autopilot --yolo --no-ask-user')}
   ${cyan('amplifier run "your prompt"')}
-
+  ${cyan('gemini --yolo -p "your prompt"')}
+  ${cyan('aider --yes-always --message "your prompt"')}
+  ${cyan('cursor-agent --force -p "your prompt"')}
+${warningLines}
 ${yellow('⚠  All bypass modes are for trusted/sandboxed environments only.')}
 `);
 }
 
+/**
+ * Register agents from ~/.letsyolo/agents.d. A broken definition file is
+ * reported on stderr and skipped. Runs before options (and colors) are parsed.
+ */
+async function loadAgents(): Promise<void> {
+  try {
+    const { definitions, errors } = await loadUserAgents();
+    registerAgentDefinitions(definitions);
+    for (const error of errors) {
+      console.error(`Warning: skipping agent definition ${error}`);
+    }
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    console.error(`Warning: could not load user agent definitions (${reason})`);
+  }
+}
+
 async function main(): Promise<void> {
+  await loadAgents();
   const options = parseCliOptions(process.argv.slice(2));
   configureColors(options);
 
@@ -349,18 +1113,105 @@ async function main(): Promise<void> {
     return;
   }
 
-  const [rawCommand, target, extra] = options.positionals;
-  if (extra) {
-    throw new Error(`Unexpected argument: ${extra}`);
+  if (options.refresh) {
+    refreshDetectionCache();
+  }
+
+  const envTimeout = process.env.LETSYOLO_DETECT_TIMEOUT;
+  const timeoutMs = options.timeoutMs ?? (envTimeout ? parseTimeout(envTimeout, 'LETSYOLO_DETECT_TIMEOUT') : undefined);
+  if (timeoutMs !== undefined) {
+    setDetectTimeout(timeoutMs);
   }
 
+  const [rawCommand, target, extra, ...rest] = options.positionals;
   const command = rawCommand?.toLowerCase();
 
+  // Only `backups list <agent>` and `keys <subcommand> <arg>` take a third positional; `install` takes any number of agents.
+  const unexpected = command === 'install' ? undefined : command === 'backups' || command === 'keys' ? rest[0] : (extra ?? rest[0]);
+  if (unexpected) {
+    throw new Error(`Unexpected argument: ${unexpected}`);
+  }
+
+  if (options.yes && command !== 'install' && command !== 'upgrade') {
+    throw new Error('--yes can only be used with install or upgrade');
+  }
+
+  if ((options.registry !== undefined || options.indexUrl !== undefined) && command !== 'outdated' && command !== 'upgrade') {
+    throw new Error('--registry/--index-url can only be used with outdated or upgrade');
+  }
+
+  if (options.passthrough !== undefined && command !== 'exec') {
+    throw new Error('Arguments after -- are only used by exec');
+  }
+
+  if (options.stdin && !(command === 'keys' && target === 'set')) {
+    throw new Error('--stdin can only be used with keys set');
+  }
+
+  if (options.format !== undefined && !(command === 'keys' && target === 'export')) {
+    throw new Error('--format can only be used with keys export');
+  }
+
+  if (options.store !== undefined && command !== 'setup') {
+    throw new Error('--store can only be used with setup');
+  }
+
+  if (options.at !== undefined && command !== 'restore') {
+    throw new Error('--at can only be used with restore');
+  }
+
+  if (options.dryRun && command !== 'enable' && command !== 'disable') {
+    throw new Error('--dry-run can only be used with enable or disable');
+  }
+
+  const hasRules = options.allow.length > 0 || options.deny.length > 0;
+  if (options.projectDir !== undefined && !['enable', 'disable', 'status', undefined].includes(command)) {
+    throw new Error('--project can only be used with enable, disable or status');
+  }
+
+  if (hasRules && command !== 'enable' && command !== 'disable') {
+    throw new Error('--allow/--deny can only be used with enable or disable');
+  }
+
+  if ((options.projectDir !== undefined || hasRules) && (command === 'enable' || command === 'disable') && !target) {
+    throw new Error(`Project settings and permission rules need an agent, e.g. letsyolo ${command} claude --project`);
+  }
+
+  if (options.profile !== undefined && command !== 'enable' && command !== 'disable') {
+    throw new Error('--profile can only be used with enable or disable');
+  }
+
+  if (options.profile !== undefined && !target) {
+    throw new Error(`--profile needs an agent, e.g. letsyolo ${command} codex --profile ${options.profile}`);
+  }
+
+  if (options.servers.length > 0 && ((command !== 'enable' && command !== 'disable') || !target)) {
+    throw new Error('--server needs enable or disable and an agent, e.g. letsyolo enable claude-desktop --server filesystem');
+  }
+
+  if (options.servers.length > 0 && options.forMs !== undefined) {
+    throw new Error('--for cannot be combined with --server');
+  }
+
+  if (options.level !== undefined && (command !== 'enable' || !target)) {
+    throw new Error(`--level needs enable and an agent, e.g. letsyolo enable claude --level ${options.level}`);
+  }
+
+  if (options.forMs !== undefined && command !== 'enable') {
+    throw new Error('--for can only be used with enable');
+  }
+
+  // Every run doubles as an expiry check; `expire` does it explicitly and dry runs never write.
+  if (command !== 'expire' && !options.dryRun) {
+    await revertExpired();
+  }
+
   switch (command) {
     case undefined:
     case 'status': {
       const detection = await detectAll();
-      const status = await checkYoloStatus();
+      const status = await checkYoloStatus({ projectDir: options.projectDir });
+      attachExpiries(status, await listExpiries());
       const keys = await checkApiKeyStatus();
 
       if (options.json) {
@@ -384,57 +1235,54 @@ async function main(): Promise<void> {
     }
 
     case 'enable': {
-      if (target) {
-        const agentType = parseAgentType(target);
-        if (!agentType) {
-          throw new Error(`Unknown agent: ${target}`);
-        }
+      const yoloOptions = getYoloOptions(options);
+      const results = target
+        ? [await enableYolo(requireAgentType(target), yoloOptions)]
+        : await enableAll(yoloOptions);
+      const action = target ? 'Enable' : 'Enable All';
+      if (options.forMs !== undefined && !options.dryRun) {
+        const expiresAt = new Date(Date.now() + options.forMs);
+        await recordExpiries(results, expiresAt, { projectDir: options.projectDir, profile: options.profile });
+      } else if (!options.dryRun) {
+        // A plain enable makes the change permanent again.
+        await clearExpiries(results, options);
+      }
 
-        const result = await enableYolo(agentType);
-        if (options.json) {
-          printJson({ results: [result], readyCommands: getReadyCommands([result]) });
-        } else {
-          printYoloResults([result], 'Enable');
-          printReadyToRun([result]);
-        }
+      if (options.json) {
+        printJson(options.dryRun ? { dryRun: true, results } : { results, readyCommands: getReadyCommands(results) });
+      } else if (options.dryRun) {
+        printYoloResults(results, `${action} (dry run)`);
+        printChanges(results);
       } else {
-        const results = await enableAll();
-        if (options.json) {
-          printJson({ results, readyCommands: getReadyCommands(results) });
-        } else {
-          printYoloResults(results, 'Enable All');
-          printReadyToRun(results);
-        }
+        printYoloResults(results, action);
+        printReadyToRun(results);
       }
       break;
     }
 
     case 'disable': {
-      if (target) {
-        const agentType = parseAgentType(target);
-        if (!agentType) {
-          throw new Error(`Unknown agent: ${target}`);
-        }
+      const yoloOptions = getYoloOptions(options);
+      const results = target
+        ? [await disableYolo(requireAgentType(target), yoloOptions)]
+        : await disableAll(yoloOptions);
+      const action = target ? 'Disable' : 'Disable All';
+      if (!options.dryRun) {
+        await clearExpiries(results, options);
+      }
 
-        const result = await disableYolo(agentType);
-        if (options.json) {
-          printJson({ results: [result] });
-        } else {
-          printYoloResults([result], 'Disable');
-        }
+      if (options.json) {
+        printJson(options.dryRun ? { dryRun: true, results } : { results });
+      } else if (options.dryRun) {
+        printYoloResults(results, `${action} (dry run)`);
+        printChanges(results);
       } else {
-        const results = await disableAll();
-        if (options.json) {
-          printJson({ results });
-        } else {
-          printYoloResults(results, 'Disable All');
-        }
+        printYoloResults(results, action);
       }
       break;
     }
 
     case 'setup': {
-      const setupResult = await runSetup(options.json);
+      const setupResult = await runSetup(options.json, options.store);
       if (options.json) {
         printJson(setupResult);
       }
@@ -442,6 +1290,10 @@ async function main(): Promise<void> {
     }
 
     case 'keys': {
+      if (target) {
+        await runKeysCommand(target.toLowerCase(), extra, options);
+        break;
+      }
       const keys = await checkApiKeyStatus();
       if (options.json) {
         printJson({ keys });
@@ -451,19 +1303,218 @@ async function main(): Promise<void> {
       break;
     }
 
+    case 'unlock': {
+      const secrets = await readSecrets();
+      if (options.json) {
+        printJson({ secrets: Object.fromEntries(secrets) });
+        break;
+      }
+      process.stdout.write(formatSecrets(secrets, 'env'));
+      if (process.stdout.isTTY) {
+        console.error(dim('Load these into your shell with: eval "$(letsyolo unlock)"'));
+      }
+      break;
+    }
+
+    case 'lock': {
+      const store = await getActiveSecretStore();
+      const keys = (await store.list()).filter((key) => key !== 'AMPLIFIER_CONFIGURED');
+      if (options.json) {
+        printJson({ unset: keys });
+        break;
+      }
+      if (keys.length > 0) {
+        console.log(`unset ${keys.join(' ')}`);
+      }
+      if (process.stdout.isTTY) {
+        console.error(dim('Clear them from your shell with: eval "$(letsyolo lock)"'));
+      }
+      break;
+    }
+
+    case 'exec': {
+      if (!target) {
+        throw new Error('exec needs an agent: letsyolo exec <agent> -- [args]');
+      }
+      const plan = await planExec(getDefinitionOrThrow(requireAgentType(target)), options.passthrough ?? []);
+      if (plan.missing.length > 0) {
+        console.error(dim(`No ${plan.missing.join(' or ')} stored; run \`letsyolo setup\` if ${target} needs it`));
+      }
+      process.exitCode = await runExec(plan);
+      break;
+    }
+
+    case 'install': {
+      const names = options.positionals.slice(1);
+      const defs = names.length > 0
+        ? [...new Set(names.map(requireAgentType))].map(getDefinitionOrThrow)
+        : (await detectAll()).agents
+          .filter((agent) => !agent.installed)
+          .map((agent) => getDefinitionOrThrow(agent.type))
+          .filter((def) => !def.manualInstall);
+
+      const results = new Map<AgentType, InstallResult>();
+      const pending: AgentDefinition[] = [];
+      for (const def of defs) {
+        const settled = await planInstall(def);
+        if (settled) results.set(def.type, settled);
+        else pending.push(def);
+      }
+
+      if (!(await confirmCommands(pending.map((def) => def.installCommand), 'install', options))) {
+        (options.json ? console.error : console.log)('Nothing was installed.');
+        process.exitCode = 1;
+        break;
+      }
+
+      for (const def of pending) {
+        // Install output goes to stderr under --json so stdout stays parseable.
+        (options.json ? console.error : console.log)(`\n${bold(`$ ${def.installCommand}`)}`);
+        results.set(def.type, await installAgent(def, options.json ? 'stderr' : 'inherit'));
+      }
+
+      const ordered = defs.map((def) => results.get(def.type)).filter((result) => result !== undefined);
+      if (options.json) {
+        printJson({ results: ordered });
+      } else if (ordered.length === 0) {
+        console.log(`\n  ${dim('Every agent with an install command is already installed.')}\n`);
+      } else {
+        printInstallResults(ordered);
+      }
+      if (ordered.some((result) => result.status === 'failed')) {
+        process.exitCode = 1;
+      }
+      break;
+    }
+
+    case 'outdated': {
+      const registries: RegistryOptions = { npmRegistry: options.registry, pypiIndex: options.indexUrl };
+      const defs = target
+        ? [getDefinitionOrThrow(requireAgentType(target))]
+        : getAgentDefinitions().filter((def) => !def.desktopApp);
+      const updates = (await Promise.all(defs.map((def) => checkForUpdate(def, registries))))
+        .filter((update) => target || update.installed);
+      if (options.json) {
+        printJson({ agents: updates });
+      } else if (updates.length === 0) {
+        console.log(`\n  ${dim('No agents are installed. Run letsyolo install.')}\n`);
+      } else {
+        printOutdated(updates);
+      }
+      break;
+    }
+
+    case 'upgrade': {
+      const registries: RegistryOptions = { npmRegistry: options.registry, pypiIndex: options.indexUrl };
+      const defs = target
+        ? [getDefinitionOrThrow(requireAgentType(target))]
+        : getAgentDefinitions().filter((def) => !def.desktopApp);
+      const updates = await Promise.all(defs.map((def) => checkForUpdate(def, registries)));
+
+      // Without an agent, only upgrade what is known to be outdated; a named
+      // agent is upgraded unless it is known to be current.
+      const results: UpgradeResult[] = [];
+      const pending: { def: AgentDefinition; update: AgentUpdate }[] = [];
+      defs.forEach((def, i) => {
+        const update = updates[i];
+        if (update.outdated === false && update.installed) {
+          results.push({ type: def.type, displayName: def.displayName, status: 'up-to-date', from: update.current, latest: update.latest });
+        } else if (target || update.outdated === true) {
+          pending.push({ def, update });
+        }
+      });
+
+      const commands = pending.map(({ def }) => getUpgradeCommand(def, registries) ?? def.installCommand);
+      if (!(await confirmCommands(commands, 'upgrade', options))) {
+        (options.json ? console.error : console.log)('Nothing was upgraded.');
+        process.exitCode = 1;
+        break;
+      }
+
+      for (const { def, update } of pending) {
+        // Upgrade output goes to stderr under --json so stdout stays parseable.
+        (options.json ? console.error : console.log)(`\n${bold(`$ ${getUpgradeCommand(def, registries) ?? def.installCommand}`)}`);
+        results.push(await upgradeAgent(def, update, registries, options.json ? 'stderr' : 'inherit'));
+      }
+
+      const ordered = defs
+        .map((def) => results.find((result) => result.type === def.type))
+        .filter((result) => result !== undefined);
+      if (options.json) {
+        printJson({ results: ordered });
+      } else if (ordered.length === 0) {
+        console.log(`\n  ${dim('Every installed agent is up to date.')}\n`);
+      } else {
+        printUpgradeResults(ordered);
+      }
+      if (ordered.some((result) => result.status === 'failed')) {
+        process.exitCode = 1;
+      }
+      break;
+    }
+
     case 'flags': {
+      const { commands, warnings } = getSessionCommands((await detectAll()).agents);
       if (options.json) {
         printJson({
-          flags: {
-            claude: 'claude --dangerously-skip-permissions',
-            codex: 'codex --yolo',
-            copilot: 'copilot --yolo',
-            amplifier: 'amplifier',
-          },
+          flags: commands,
+          warnings,
           warning: 'All bypass modes are for trusted/sandboxed environments only.',
         });
       } else {
-        printFlags();
+        printFlags(commands, warnings);
+      }
+      break;
+    }
+
+    case 'expire': {
+      const results = await expireDue();
+      if (options.json) {
+        printJson({ expired: results });
+      } else {
+        printExpired(results);
+      }
+      break;
+    }
+
+    case 'doctor': {
+      const checks = await runDoctor();
+      if (options.json) {
+        printJson({ checks, summary: summarizeChecks(checks) });
+      } else {
+        printDoctor(checks);
+      }
+      if (checks.some((check) => check.status === 'fail')) {
+        process.exitCode = 1;
+      }
+      break;
+    }
+
+    case 'backups': {
+      const subcommand = target?.toLowerCase() ?? 'list';
+      if (subcommand !== 'list') {
+        throw new Error(`Unknown backups subcommand: ${target}`);
+      }
+
+      const backups = await listBackups(extra ? requireAgentType(extra) : undefined);
+      if (options.json) {
+        printJson({ backups });
+      } else {
+        printBackups(backups);
+      }
+      break;
+    }
+
+    case 'restore': {
+      if (!target) {
+        throw new Error('Usage: letsyolo restore <agent> [--at <timestamp>]');
+      }
+
+      const result = await restoreBackup(requireAgentType(target), options.at);
+      if (options.json) {
+        printJson(result);
+      } else {
+        printRestore(result.restored, result.previous);
       }
       break;
     }
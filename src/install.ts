@@ -0,0 +1,133 @@
+import { spawn } from 'node:child_process';
+import type { StdioOptions } from 'node:child_process';
+import { detectBinary, findOnPath } from './detect.js';
+import type { AgentDefinition, InstallResult } from './types.js';
+
+/** Where an install command's output goes; `stderr` keeps stdout free for --json */
+export type InstallOutput = 'inherit' | 'stderr' | 'ignore';
+
+/** What to tell someone who lacks the tool an install command needs. */
+const TOOL_HINTS: Record<string, string> = {
+  npm: 'install Node.js (https://nodejs.org) first',
+  uv: 'install uv (https://docs.astral.sh/uv/) first',
+};
+
+/**
+ * Programs an install command runs: the first word of each pipeline or
+ * `&&`/`||`/`;` segment, skipping leading `VAR=value` assignments.
+ */
+export function getRequiredTools(command: string): string[] {
+  const tools: string[] = [];
+  for (const segment of command.split(/\|\||&&|[|;]/)) {
+    const words = segment.trim().split(/\s+/).filter((word) => !/^[A-Za-z_][A-Za-z0-9_]*=/.test(word));
+    const tool = words[0];
+    if (tool && !tools.includes(tool)) tools.push(tool);
+  }
+  return tools;
+}
+
+/**
+ * Why `command` can't run here because `tool` isn't on PATH, or null.
+ */
+export async function checkTool(tool: string, command: string): Promise<string | null> {
+  if ((await findOnPath(tool)).length > 0) return null;
+  const hint = TOOL_HINTS[tool] ?? `install ${tool} first`;
+  return `${tool} is not installed, so \`${command}\` can't run; ${hint}`;
+}
+
+/**
+ * Why a command can't run here (a program it needs isn't on PATH), or null.
+ */
+export async function checkCommandTools(command: string): Promise<string | null> {
+  for (const tool of getRequiredTools(command)) {
+    const problem = await checkTool(tool, command);
+    if (problem) return problem;
+  }
+  return null;
+}
+
+/**
+ * Why an agent can't be installed from here, or null if its command can run.
+ */
+export async function checkInstallable(def: AgentDefinition): Promise<string | null> {
+  if (def.manualInstall) {
+    return `${def.displayName} has no install command to run: ${def.installCommand}`;
+  }
+  return checkCommandTools(def.installCommand);
+}
+
+/**
+ * Run an install command through the shell, streaming its output.
+ * Resolves to the exit code (null if a signal ended it).
+ */
+export function runInstallCommand(command: string, output: InstallOutput = 'inherit'): Promise<number | null> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(command, { shell: true, stdio: outputStdio(output) });
+    child.on('error', reject);
+    child.on('close', (code) => resolve(code));
+  });
+}
+
+/**
+ * Run a program with an argument list and no shell, so arguments such as
+ * registry URLs arrive exactly as given. Output and exit code as above.
+ */
+export function runInstallProgram(file: string, args: string[], output: InstallOutput = 'inherit'): Promise<number | null> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(file, args, { stdio: outputStdio(output) });
+    child.on('error', reject);
+    child.on('close', (code) => resolve(code));
+  });
+}
+
+function outputStdio(output: InstallOutput): StdioOptions {
+  const stream = output === 'stderr' ? process.stderr : output;
+  return ['inherit', stream, stream];
+}
+
+/**
+ * Settle what needs no install command: agents that are already installed,
+ * and ones whose command can't run here. Null means the command should run.
+ */
+export async function planInstall(def: AgentDefinition): Promise<InstallResult | null> {
+  const base = { type: def.type, displayName: def.displayName, command: def.installCommand };
+
+  if (!def.desktopApp) {
+    const before = await detectBinary(def.binaries, def.versionFlag);
+    if (before.found && before.path) {
+      return { ...base, status: 'already-installed', path: before.path, version: before.version };
+    }
+  }
+
+  const problem = await checkInstallable(def);
+  return problem ? { ...base, status: 'failed', error: problem } : null;
+}
+
+/**
+ * Run an agent's install command and confirm it worked by detecting the
+ * agent again.
+ */
+export async function installAgent(def: AgentDefinition, output: InstallOutput = 'inherit'): Promise<InstallResult> {
+  const base = { type: def.type, displayName: def.displayName, command: def.installCommand };
+
+  let exitCode: number | null;
+  try {
+    exitCode = await runInstallCommand(def.installCommand, output);
+  } catch (error) {
+    return { ...base, status: 'failed', error: error instanceof Error ? error.message : String(error) };
+  }
+  if (exitCode !== 0) {
+    return { ...base, status: 'failed', exitCode, error: `Install command exited with ${exitCode ?? 'a signal'}` };
+  }
+
+  const after = await detectBinary(def.binaries, def.versionFlag);
+  if (!after.found || !after.path) {
+    return {
+      ...base,
+      status: 'failed',
+      exitCode,
+      error: `The install command succeeded, but \`${def.binaries[0]}\` still can't be found; open a new shell or check PATH`,
+    };
+  }
+  return { ...base, status: 'installed', exitCode, path: after.path, version: after.version };
+}
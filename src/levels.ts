@@ -0,0 +1,87 @@
+import type { AutonomyLevel } from './types.js';
+
+export interface AutonomyLevelDefinition {
+  level: AutonomyLevel;
+  description: string;
+  /** Claude Code `permissions.defaultMode` value */
+  claudeMode: string;
+  /** Codex `approval_policy` / `sandbox_mode` pair */
+  codex: { approvalPolicy: string; sandboxMode: string };
+}
+
+/**
+ * Autonomy levels, from least to most permissive.
+ */
+export const AUTONOMY_LEVELS: AutonomyLevelDefinition[] = [
+  {
+    level: 'plan',
+    description: 'Plan only — read and propose, no edits or commands',
+    claudeMode: 'plan',
+    codex: { approvalPolicy: 'on-request', sandboxMode: 'read-only' },
+  },
+  {
+    level: 'accept-edits',
+    description: 'Auto-accept file edits; still ask before risky commands',
+    claudeMode: 'acceptEdits',
+    codex: { approvalPolicy: 'untrusted', sandboxMode: 'workspace-write' },
+  },
+  {
+    level: 'sandboxed-auto',
+    description: 'Run without prompting inside the sandbox/workspace',
+    // Claude Code has no sandboxed auto-approve mode: dontAsk never prompts,
+    // but it denies any tool that isn't pre-approved rather than running it.
+    claudeMode: 'dontAsk',
+    codex: { approvalPolicy: 'on-request', sandboxMode: 'workspace-write' },
+  },
+  {
+    level: 'full-bypass',
+    description: 'No prompts, no sandbox — classic YOLO',
+    claudeMode: 'bypassPermissions',
+    codex: { approvalPolicy: 'never', sandboxMode: 'danger-full-access' },
+  },
+];
+
+/** Level used by `enable` when none is given. */
+export const DEFAULT_LEVEL: AutonomyLevel = 'full-bypass';
+
+export function getLevelDefinition(level: AutonomyLevel): AutonomyLevelDefinition {
+  const def = AUTONOMY_LEVELS.find((d) => d.level === level);
+  if (!def) throw new Error(`Unknown autonomy level: ${level}`);
+  return def;
+}
+
+export function parseAutonomyLevel(input: string): AutonomyLevel | undefined {
+  const normalized = input.toLowerCase().trim();
+  const aliases: Record<string, AutonomyLevel> = {
+    'plan': 'plan',
+    'accept-edits': 'accept-edits',
+    'acceptedits': 'accept-edits',
+    'edits': 'accept-edits',
+    'sandboxed-auto': 'sandboxed-auto',
+    'sandboxed': 'sandboxed-auto',
+    'auto': 'sandboxed-auto',
+    'full-auto': 'sandboxed-auto',
+    'full-bypass': 'full-bypass',
+    'bypass': 'full-bypass',
+    'yolo': 'full-bypass',
+  };
+  return aliases[normalized];
+}
+
+/**
+ * Map a Claude Code `permissions.defaultMode` back to a level.
+ */
+export function levelFromClaudeMode(mode: unknown): AutonomyLevel | null {
+  return AUTONOMY_LEVELS.find((d) => d.claudeMode === mode)?.level ?? null;
+}
+
+/**
+ * Map a Codex `approval_policy` / `sandbox_mode` pair back to a level.
+ */
+export function levelFromCodexSettings(approvalPolicy: unknown, sandboxMode: unknown): AutonomyLevel | null {
+  return (
+    AUTONOMY_LEVELS.find(
+      (d) => d.codex.approvalPolicy === approvalPolicy && d.codex.sandboxMode === sandboxMode,
+    )?.level ?? null
+  );
+}
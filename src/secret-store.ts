@@ -0,0 +1,324 @@
+import { spawn } from 'node:child_process';
+import crypto from 'node:crypto';
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { promisify } from 'node:util';
+import { findOnPath } from './detect.js';
+import { isFileNotFoundError, writeFileAtomic } from './fs-utils.js';
+
+const scryptAsync = promisify(crypto.scrypt) as (
+  password: string,
+  salt: Buffer,
+  keylen: number,
+  options: crypto.ScryptOptions,
+) => Promise<Buffer>;
+
+export const SECRET_STORE_NAMES = ['env-file', 'encrypted', 'pass', 'secret-tool'] as const;
+
+export type SecretStoreName = (typeof SECRET_STORE_NAMES)[number];
+
+/**
+ * Somewhere API keys are kept, one entry per environment variable.
+ */
+export interface SecretStore {
+  readonly name: SecretStoreName;
+  /** Where keys end up, for messages */
+  readonly location: string;
+  /** Why the store can't be used on this machine, or null */
+  checkAvailable(): Promise<string | null>;
+  /** Names of the stored keys, without reading their values */
+  list(): Promise<string[]>;
+  get(key: string): Promise<string | undefined>;
+  set(key: string, value: string): Promise<void>;
+  delete(key: string): Promise<void>;
+  /** Every key and value at once, for stores kept in a single file */
+  readAll?(): Promise<Map<string, string>>;
+  /** Replace the whole store at once, for stores kept in a single file */
+  replaceAll?(secrets: Map<string, string>): Promise<void>;
+  /**
+   * Shell command that prints a key's value. Stores that have one are
+   * loaded into new shells by running it rather than by a plaintext file.
+   */
+  loadCommand?(key: string): string;
+}
+
+export function isSecretStoreName(value: string): value is SecretStoreName {
+  return (SECRET_STORE_NAMES as readonly string[]).includes(value);
+}
+
+/** Folder (pass) and service attribute (secret-tool) that letsyolo's keys live under */
+const STORE_NAMESPACE = 'letsyolo';
+
+interface ToolResult {
+  code: number | null;
+  stdout: string;
+  stderr: string;
+}
+
+/**
+ * Run a store's command-line tool, feeding `input` on stdin so values never
+ * show up in the process list.
+ */
+function runTool(command: string, args: string[], input?: string): Promise<ToolResult> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(command, args, { stdio: ['pipe', 'pipe', 'pipe'] });
+    let stdout = '';
+    let stderr = '';
+    child.stdout.setEncoding('utf8').on('data', (chunk: string) => { stdout += chunk; });
+    child.stderr.setEncoding('utf8').on('data', (chunk: string) => { stderr += chunk; });
+    child.on('error', reject);
+    child.on('close', (code) => resolve({ code, stdout, stderr }));
+    // A tool that exits without reading its input closes the pipe; its exit code says why.
+    child.stdin.on('error', () => {});
+    child.stdin.end(input ?? '');
+  });
+}
+
+function checkResult(result: ToolResult, description: string): ToolResult {
+  if (result.code !== 0) {
+    throw new Error(`${description} failed: ${result.stderr.trim() || `exited with ${result.code ?? 'a signal'}`}`);
+  }
+  return result;
+}
+
+function passStoreDir(): string {
+  return process.env.PASSWORD_STORE_DIR ?? path.join(os.homedir(), '.password-store');
+}
+
+/**
+ * Keys as gpg-encrypted entries under letsyolo/ in the password store.
+ */
+export function createPassStore(): SecretStore {
+  const entry = (key: string) => `${STORE_NAMESPACE}/${key}`;
+
+  // pass keeps one file per entry, so listing needs no decryption.
+  async function list(): Promise<string[]> {
+    try {
+      const files = await fs.readdir(path.join(passStoreDir(), STORE_NAMESPACE));
+      return files.filter((file) => file.endsWith('.gpg')).map((file) => file.slice(0, -'.gpg'.length)).sort();
+    } catch (error) {
+      if (isFileNotFoundError(error)) return [];
+      throw error;
+    }
+  }
+
+  return {
+    name: 'pass',
+    location: `pass (${STORE_NAMESPACE}/)`,
+    async checkAvailable() {
+      if ((await findOnPath('pass')).length === 0) {
+        return 'pass is not installed; see https://www.passwordstore.org';
+      }
+      try {
+        await fs.access(path.join(passStoreDir(), '.gpg-id'));
+      } catch {
+        return 'The password store is not set up; run `pass init <gpg-id>` first';
+      }
+      return null;
+    },
+    list,
+    async get(key) {
+      if (!(await list()).includes(key)) return undefined;
+      const { stdout } = checkResult(await runTool('pass', ['show', entry(key)]), `pass show ${entry(key)}`);
+      return stdout.split('\n')[0];
+    },
+    async set(key, value) {
+      checkResult(await runTool('pass', ['insert', '--multiline', '--force', entry(key)], `${value}\n`), `pass insert ${entry(key)}`);
+    },
+    async delete(key) {
+      if (!(await list()).includes(key)) return;
+      checkResult(await runTool('pass', ['rm', '--force', entry(key)]), `pass rm ${entry(key)}`);
+    },
+    loadCommand(key) {
+      return `pass show ${entry(key)} 2>/dev/null | head -n 1`;
+    },
+  };
+}
+
+/**
+ * Keys in the desktop keyring (GNOME Keyring, KWallet) through the
+ * freedesktop Secret Service, tagged service=letsyolo key=<VAR>.
+ */
+export function createSecretToolStore(): SecretStore {
+  const attributes = (key: string) => ['service', STORE_NAMESPACE, 'key', key];
+
+  return {
+    name: 'secret-tool',
+    location: `secret-tool (service=${STORE_NAMESPACE})`,
+    async checkAvailable() {
+      if ((await findOnPath('secret-tool')).length === 0) {
+        return 'secret-tool is not installed; it ships with libsecret (e.g. the libsecret-tools package)';
+      }
+      return null;
+    },
+    async list() {
+      const result = await runTool('secret-tool', ['search', '--all', 'service', STORE_NAMESPACE]);
+      // secret-tool prints item details to stderr and secrets to stdout; only the key attributes matter here.
+      const keys = new Set<string>();
+      for (const line of `${result.stdout}\n${result.stderr}`.split('\n')) {
+        const match = line.match(/^attribute\.key = (.+)$/);
+        if (match) keys.add(match[1].trim());
+      }
+      if (result.code !== 0 && keys.size === 0 && result.stderr.trim()) {
+        checkResult(result, 'secret-tool search');
+      }
+      return [...keys].sort();
+    },
+    async get(key) {
+      const result = await runTool('secret-tool', ['lookup', ...attributes(key)]);
+      // A missing item exits 1 without saying anything.
+      if (result.code !== 0 && !result.stderr.trim()) return undefined;
+      return checkResult(result, `secret-tool lookup ${key}`).stdout.replace(/\n$/, '');
+    },
+    async set(key, value) {
+      const args = ['store', '--label', `${STORE_NAMESPACE} ${key}`, ...attributes(key)];
+      checkResult(await runTool('secret-tool', args, value), `secret-tool store ${key}`);
+    },
+    async delete(key) {
+      const result = await runTool('secret-tool', ['clear', ...attributes(key)]);
+      if (result.code !== 0 && result.stderr.trim()) {
+        checkResult(result, `secret-tool clear ${key}`);
+      }
+    },
+    loadCommand(key) {
+      return `secret-tool lookup ${attributes(key).join(' ')} 2>/dev/null`;
+    },
+  };
+}
+
+/**
+ * Asks for the passphrase; `isNew` is true when it will encrypt a new file,
+ * so it's worth asking twice.
+ */
+export type PassphraseSource = (isNew: boolean) => Promise<string>;
+
+const SCRYPT_PARAMS = { N: 2 ** 15, r: 8, p: 1, maxmem: 64 * 1024 * 1024 };
+const KEY_LENGTH = 32;
+
+/** On-disk form of the encrypted file; binary fields are base64 */
+interface EncryptedSecretsFile {
+  version: 1;
+  kdf: 'scrypt';
+  N: number;
+  r: number;
+  p: number;
+  salt: string;
+  cipher: 'aes-256-gcm';
+  iv: string;
+  tag: string;
+  /** Key names in the clear, so status checks need no passphrase; authenticated with the data */
+  keys: string[];
+  data: string;
+}
+
+function deriveKey(passphrase: string, salt: Buffer, params: { N: number; r: number; p: number }): Promise<Buffer> {
+  return scryptAsync(passphrase, salt, KEY_LENGTH, { ...params, maxmem: SCRYPT_PARAMS.maxmem });
+}
+
+async function readEncryptedFile(filePath: string): Promise<EncryptedSecretsFile | undefined> {
+  let data: string;
+  try {
+    data = await fs.readFile(filePath, 'utf-8');
+  } catch (error) {
+    if (isFileNotFoundError(error)) return undefined;
+    throw error;
+  }
+
+  const parsed = JSON.parse(data) as Partial<EncryptedSecretsFile>;
+  if (parsed.version !== 1 || parsed.kdf !== 'scrypt' || parsed.cipher !== 'aes-256-gcm' || !Array.isArray(parsed.keys)) {
+    throw new Error(`${filePath} is not a letsyolo encrypted secrets file this version can read`);
+  }
+  return parsed as EncryptedSecretsFile;
+}
+
+async function decryptSecrets(file: EncryptedSecretsFile, filePath: string, passphrase: string): Promise<Map<string, string>> {
+  const key = await deriveKey(passphrase, Buffer.from(file.salt, 'base64'), file);
+  const decipher = crypto.createDecipheriv('aes-256-gcm', key, Buffer.from(file.iv, 'base64'));
+  decipher.setAAD(Buffer.from(JSON.stringify(file.keys)));
+  decipher.setAuthTag(Buffer.from(file.tag, 'base64'));
+
+  let plaintext: string;
+  try {
+    plaintext = Buffer.concat([decipher.update(Buffer.from(file.data, 'base64')), decipher.final()]).toString('utf-8');
+  } catch {
+    throw new Error(`Wrong passphrase for ${filePath}, or the file has been modified`);
+  }
+  return new Map(Object.entries(JSON.parse(plaintext) as Record<string, string>));
+}
+
+async function encryptSecrets(secrets: Map<string, string>, passphrase: string): Promise<EncryptedSecretsFile> {
+  const salt = crypto.randomBytes(16);
+  const iv = crypto.randomBytes(12);
+  const key = await deriveKey(passphrase, salt, SCRYPT_PARAMS);
+  const keys = [...secrets.keys()];
+
+  const cipher = crypto.createCipheriv('aes-256-gcm', key, iv);
+  cipher.setAAD(Buffer.from(JSON.stringify(keys)));
+  const data = Buffer.concat([cipher.update(JSON.stringify(Object.fromEntries(secrets)), 'utf-8'), cipher.final()]);
+
+  return {
+    version: 1,
+    kdf: 'scrypt',
+    N: SCRYPT_PARAMS.N,
+    r: SCRYPT_PARAMS.r,
+    p: SCRYPT_PARAMS.p,
+    salt: salt.toString('base64'),
+    cipher: 'aes-256-gcm',
+    iv: iv.toString('base64'),
+    tag: cipher.getAuthTag().toString('base64'),
+    keys,
+    data: data.toString('base64'),
+  };
+}
+
+/**
+ * Keys in one passphrase-encrypted file (scrypt, then AES-256-GCM). Safe to
+ * back up or sync; shells load it with `eval "$(letsyolo unlock)"`.
+ */
+export function createEncryptedFileStore(filePath: string, getPassphrase: PassphraseSource): SecretStore {
+  async function readAll(): Promise<Map<string, string>> {
+    const file = await readEncryptedFile(filePath);
+    return file ? decryptSecrets(file, filePath, await getPassphrase(false)) : new Map();
+  }
+
+  async function replaceAll(secrets: Map<string, string>): Promise<void> {
+    const existing = await readEncryptedFile(filePath);
+    if (secrets.size === 0) {
+      await fs.rm(filePath, { force: true });
+      return;
+    }
+    const passphrase = await getPassphrase(!existing);
+    if (existing) {
+      // Check the passphrase first, so a typo can't re-encrypt the keys under a new one.
+      await decryptSecrets(existing, filePath, passphrase);
+    }
+    await fs.mkdir(path.dirname(filePath), { recursive: true, mode: 0o700 });
+    await writeFileAtomic(filePath, `${JSON.stringify(await encryptSecrets(secrets, passphrase), null, 2)}\n`, { mode: 0o600 });
+  }
+
+  return {
+    name: 'encrypted',
+    location: filePath,
+    async checkAvailable() {
+      return null;
+    },
+    async list() {
+      return (await readEncryptedFile(filePath))?.keys ?? [];
+    },
+    async get(key) {
+      return (await readAll()).get(key);
+    },
+    async set(key, value) {
+      const secrets = await readAll();
+      secrets.set(key, value);
+      await replaceAll(secrets);
+    },
+    async delete(key) {
+      const secrets = await readAll();
+      if (secrets.delete(key)) await replaceAll(secrets);
+    },
+    readAll,
+    replaceAll,
+  };
+}
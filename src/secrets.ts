@@ -1,8 +1,10 @@
 import fs from 'node:fs/promises';
 import os from 'node:os';
 import path from 'node:path';
-import readline from 'node:readline';
 import { isFileNotFoundError, writeFileAtomic } from './fs-utils.js';
+import { createEncryptedFileStore, createPassStore, createSecretToolStore, isSecretStoreName } from './secret-store.js';
+import type { SecretStore, SecretStoreName } from './secret-store.js';
+import type { AgentType } from './types.js';
 
 const home = os.homedir();
 
@@ -13,34 +15,79 @@ export interface ApiKeyDefinition {
   envVar: string;
   displayName: string;
   agent: string;
+  /** The agents that read the key; `letsyolo exec` gives it only to those */
+  agentTypes: AgentType[];
   hint: string;
+  /** Shape a valid key has; setup re-prompts for anything else */
+  pattern?: RegExp;
+  /** The pattern in words, for the re-prompt */
+  patternHint?: string;
 }
 
 export const API_KEYS: ApiKeyDefinition[] = [
   {
     envVar: 'ANTHROPIC_API_KEY',
     displayName: 'Anthropic API Key',
-    agent: 'Claude Code',
+    agent: 'Claude Code, Aider',
+    agentTypes: ['claude-code', 'aider'],
     hint: 'https://console.anthropic.com/settings/keys',
+    pattern: /^sk-ant-[A-Za-z0-9_-]+$/,
+    patternHint: 'starts with sk-ant-',
   },
   {
     envVar: 'OPENAI_API_KEY',
     displayName: 'OpenAI API Key',
-    agent: 'Codex',
+    agent: 'Codex, Aider',
+    agentTypes: ['codex', 'aider'],
     hint: 'https://platform.openai.com/api-keys',
+    // Anthropic keys start with sk- too; they belong in the other slot.
+    pattern: /^sk-(?!ant-)[A-Za-z0-9_-]+$/,
+    patternHint: 'starts with sk- (but not sk-ant-)',
   },
   {
     envVar: 'GITHUB_TOKEN',
     displayName: 'GitHub Token',
     agent: 'GitHub Copilot',
+    agentTypes: ['copilot'],
     hint: 'https://github.com/settings/tokens (or use `gh auth login`)',
+    pattern: /^(ghp_|github_pat_|gho_)[A-Za-z0-9_]+$/,
+    patternHint: 'starts with ghp_, github_pat_ or gho_',
   },
   {
     envVar: 'AMPLIFIER_CONFIGURED',
     displayName: 'Amplifier Provider Keys',
     agent: 'Amplifier',
+    agentTypes: ['amplifier'],
     hint: 'Managed by Amplifier — run `amplifier init` to configure providers',
   },
+  {
+    envVar: 'GEMINI_API_KEY',
+    displayName: 'Gemini API Key',
+    agent: 'Gemini CLI',
+    agentTypes: ['gemini'],
+    hint: 'https://aistudio.google.com/apikey',
+  },
+  {
+    envVar: 'DEEPSEEK_API_KEY',
+    displayName: 'DeepSeek API Key',
+    agent: 'Aider',
+    agentTypes: ['aider'],
+    hint: 'https://platform.deepseek.com/api_keys',
+  },
+  {
+    envVar: 'OPENROUTER_API_KEY',
+    displayName: 'OpenRouter API Key',
+    agent: 'Aider',
+    agentTypes: ['aider'],
+    hint: 'https://openrouter.ai/keys',
+  },
+  {
+    envVar: 'CURSOR_API_KEY',
+    displayName: 'Cursor API Key',
+    agent: 'Cursor Agent',
+    agentTypes: ['cursor-agent'],
+    hint: 'https://cursor.com/dashboard?tab=integrations',
+  },
 ];
 
 function escapeForDoubleQuotes(value: string): string {
@@ -120,10 +167,26 @@ function parseEnvLine(line: string): { key: string; value: string } | undefined
   return { key, value: rawValue };
 }
 
-/**
- * Read existing secrets file into a map.
- */
-export async function readSecrets(): Promise<Map<string, string>> {
+/** Which secret store holds the keys; no file means the plaintext env file */
+export const SECRETS_CONFIG_FILE = path.join(SECRETS_DIR, 'config.json');
+
+/** Passphrase-encrypted keys, for the `encrypted` store */
+export const ENCRYPTED_SECRETS_FILE = path.join(SECRETS_DIR, 'secrets.enc');
+
+function isWrittenKey(key: string, value: string | undefined): value is string {
+  return key !== 'AMPLIFIER_CONFIGURED' && !!value; // Amplifier's entry is virtual — not a real env var
+}
+
+/** Keys in the order the secrets file lists them: known keys first, then any extras. */
+function orderKeys(keys: Iterable<string>): string[] {
+  const all = [...keys];
+  return [
+    ...API_KEYS.map((d) => d.envVar).filter((key) => all.includes(key)),
+    ...all.filter((key) => !API_KEYS.some((d) => d.envVar === key)),
+  ];
+}
+
+async function readEnvFile(): Promise<Map<string, string>> {
   const secrets = new Map<string, string>();
   try {
     const data = await fs.readFile(SECRETS_FILE, 'utf-8');
@@ -144,35 +207,322 @@ export async function readSecrets(): Promise<Map<string, string>> {
 }
 
 /**
- * Write secrets to the env file.
+ * Write the file shell profiles source. For the env-file store it holds the
+ * values themselves; for other stores, commands that fetch each value (or
+ * nothing, for the encrypted file).
  */
-export async function writeSecrets(secrets: Map<string, string>): Promise<void> {
+async function writeEnvFile(exports: Map<string, string>, note = 'DO NOT commit this file to version control'): Promise<void> {
   await fs.mkdir(SECRETS_DIR, { recursive: true, mode: 0o700 });
 
   const lines = [
     '# letsyolo API keys — sourced by your shell profile',
-    '# DO NOT commit this file to version control',
+    `# ${note}`,
     '',
   ];
 
-  for (const keyDef of API_KEYS) {
-    if (keyDef.envVar === 'AMPLIFIER_CONFIGURED') continue; // Virtual — not a real env var
-    const value = secrets.get(keyDef.envVar);
-    if (value) {
-      lines.push(`export ${keyDef.envVar}=${quoteEnvValue(value)}`);
-    }
+  for (const key of orderKeys(exports.keys())) {
+    lines.push(`export ${key}=${exports.get(key)}`);
   }
 
-  // Preserve any extra keys the user added manually
+  lines.push('');
+  await writeFileAtomic(SECRETS_FILE, lines.join('\n'), { mode: 0o600 });
+  await fs.chmod(SECRETS_FILE, 0o600);
+}
+
+async function writePlaintextSecrets(secrets: Map<string, string>): Promise<void> {
+  const exports = new Map<string, string>();
   for (const [key, value] of secrets) {
-    if (!API_KEYS.some((d) => d.envVar === key)) {
-      lines.push(`export ${key}=${quoteEnvValue(value)}`);
+    if (isWrittenKey(key, value)) exports.set(key, quoteEnvValue(value));
+  }
+  await writeEnvFile(exports);
+}
+
+/**
+ * Keys as export lines in ~/.letsyolo/secrets.env, the original store.
+ */
+function createEnvFileStore(): SecretStore {
+  return {
+    name: 'env-file',
+    location: SECRETS_FILE,
+    async checkAvailable() {
+      return null;
+    },
+    async list() {
+      return [...(await readEnvFile()).keys()];
+    },
+    async get(key) {
+      return (await readEnvFile()).get(key);
+    },
+    async set(key, value) {
+      const secrets = await readEnvFile();
+      secrets.set(key, value);
+      await writePlaintextSecrets(secrets);
+    },
+    async delete(key) {
+      const secrets = await readEnvFile();
+      if (secrets.delete(key)) await writePlaintextSecrets(secrets);
+    },
+    readAll: readEnvFile,
+    replaceAll: writePlaintextSecrets,
+  };
+}
+
+/** Kept for the rest of the run, so one command asks only once. */
+let enteredPassphrase: string | undefined;
+
+/**
+ * The encrypted file's passphrase: LETSYOLO_PASSPHRASE if set, otherwise
+ * asked for on the terminal (on stderr, so `eval "$(letsyolo unlock)"` works).
+ */
+async function getPassphrase(isNew: boolean): Promise<string> {
+  const fromEnv = process.env.LETSYOLO_PASSPHRASE;
+  if (fromEnv) return fromEnv;
+  if (enteredPassphrase !== undefined) return enteredPassphrase;
+  if (!process.stdin.isTTY) {
+    throw new Error(`${ENCRYPTED_SECRETS_FILE} needs a passphrase; set LETSYOLO_PASSPHRASE or run in a terminal`);
+  }
+
+  const passphrase = await askHidden(isNew ? 'New passphrase for secrets.enc: ' : 'Passphrase for secrets.enc: ');
+  if (!passphrase) {
+    throw new Error('The passphrase cannot be empty');
+  }
+  if (isNew && (await askHidden('Repeat the passphrase: ')) !== passphrase) {
+    throw new Error('The passphrases do not match');
+  }
+  enteredPassphrase = passphrase;
+  return passphrase;
+}
+
+export function getSecretStore(name: SecretStoreName): SecretStore {
+  switch (name) {
+    case 'env-file':
+      return createEnvFileStore();
+    case 'encrypted':
+      return createEncryptedFileStore(ENCRYPTED_SECRETS_FILE, getPassphrase);
+    case 'pass':
+      return createPassStore();
+    case 'secret-tool':
+      return createSecretToolStore();
+  }
+}
+
+/**
+ * The store picked with `letsyolo setup --store`, defaulting to the env file.
+ */
+export async function getActiveSecretStore(): Promise<SecretStore> {
+  let data: string;
+  try {
+    data = await fs.readFile(SECRETS_CONFIG_FILE, 'utf-8');
+  } catch (error) {
+    if (isFileNotFoundError(error)) return createEnvFileStore();
+    throw error;
+  }
+
+  const store: unknown = (JSON.parse(data) as { store?: unknown }).store;
+  if (store === undefined) return createEnvFileStore();
+  if (typeof store !== 'string' || !isSecretStoreName(store)) {
+    throw new Error(`Unknown secret store ${JSON.stringify(store)} in ${SECRETS_CONFIG_FILE}`);
+  }
+  return getSecretStore(store);
+}
+
+async function readFromStore(store: SecretStore): Promise<Map<string, string>> {
+  if (store.readAll) return store.readAll();
+  const secrets = new Map<string, string>();
+  for (const key of await store.list()) {
+    const value = await store.get(key);
+    if (value !== undefined) secrets.set(key, value);
+  }
+  return secrets;
+}
+
+async function writeToStore(store: SecretStore, secrets: Map<string, string>): Promise<void> {
+  const kept = new Map<string, string>();
+  for (const [key, value] of secrets) {
+    if (isWrittenKey(key, value)) kept.set(key, value);
+  }
+
+  if (store.replaceAll) {
+    await store.replaceAll(kept);
+  } else {
+    for (const [key, value] of kept) {
+      await store.set(key, value);
+    }
+    for (const key of await store.list()) {
+      if (!kept.has(key)) await store.delete(key);
     }
   }
+  await writeShellFile(store, [...kept.keys()]);
+}
 
-  lines.push('');
-  await writeFileAtomic(SECRETS_FILE, lines.join('\n'), { mode: 0o600 });
-  await fs.chmod(SECRETS_FILE, 0o600);
+/**
+ * Regenerate the file shell profiles source for a store other than the env
+ * file, without any values in it.
+ */
+async function writeShellFile(store: SecretStore, keys: string[]): Promise<void> {
+  if (store.name === 'env-file') return;
+
+  const exports = new Map<string, string>();
+  if (store.loadCommand) {
+    for (const key of keys) {
+      exports.set(key, `"$(${store.loadCommand(key)})"`);
+    }
+    await writeEnvFile(exports, `Values are read from ${store.location} when a shell starts; none are stored here`);
+  } else {
+    await writeEnvFile(exports, `Keys are encrypted in ${store.location}; load them with: eval "$(letsyolo unlock)"`);
+  }
+}
+
+/**
+ * Read every key from the active secret store into a map.
+ */
+export async function readSecrets(): Promise<Map<string, string>> {
+  return readFromStore(await getActiveSecretStore());
+}
+
+/**
+ * Replace the keys in the active secret store, and regenerate the secrets
+ * file that shell profiles source.
+ */
+export async function writeSecrets(secrets: Map<string, string>): Promise<void> {
+  await writeToStore(await getActiveSecretStore(), secrets);
+}
+
+/**
+ * Why a name can't be stored as a key, or null.
+ */
+function checkKeyName(key: string): string | null {
+  if (!/^[A-Z_][A-Z0-9_]*$/.test(key)) {
+    return `Invalid key name "${key}": use capital letters, digits and underscores, e.g. OPENAI_API_KEY`;
+  }
+  if (key === 'AMPLIFIER_CONFIGURED') {
+    return 'AMPLIFIER_CONFIGURED is a status marker, not a key; Amplifier manages its own keys';
+  }
+  return null;
+}
+
+/**
+ * Add or replace keys in the active secret store, leaving the others alone.
+ * Returns the store they went to.
+ */
+export async function storeSecrets(entries: Map<string, string>): Promise<SecretStore> {
+  for (const [key, value] of entries) {
+    const problem = checkKeyName(key);
+    if (problem) throw new Error(problem);
+    if (!value) throw new Error(`No value given for ${key}`);
+  }
+
+  const store = await getActiveSecretStore();
+  if (store.readAll && store.replaceAll) {
+    const secrets = await store.readAll();
+    for (const [key, value] of entries) secrets.set(key, value);
+    await store.replaceAll(secrets);
+  } else {
+    for (const [key, value] of entries) await store.set(key, value);
+  }
+  await writeShellFile(store, await store.list());
+  return store;
+}
+
+/**
+ * Remove a key from the active secret store. False if it wasn't there.
+ */
+export async function removeSecret(key: string): Promise<boolean> {
+  const store = await getActiveSecretStore();
+  if (!(await store.list()).includes(key)) return false;
+  await store.delete(key);
+  await writeShellFile(store, await store.list());
+  return true;
+}
+
+/** A line `keys import` could not use */
+export interface SkippedLine {
+  line: number;
+  reason: string;
+}
+
+/**
+ * Read keys from an env/dotenv file. Comments and blank lines are ignored;
+ * lines that aren't assignments, or assign something that isn't a key, are
+ * reported as skipped.
+ */
+export async function parseSecretsFile(filePath: string): Promise<{ secrets: Map<string, string>; skipped: SkippedLine[] }> {
+  let data: string;
+  try {
+    data = await fs.readFile(filePath, 'utf-8');
+  } catch (error) {
+    if (isFileNotFoundError(error)) throw new Error(`${filePath} does not exist`);
+    throw error;
+  }
+  const secrets = new Map<string, string>();
+  const skipped: SkippedLine[] = [];
+
+  data.split('\n').forEach((raw, index) => {
+    const trimmed = raw.trim();
+    if (!trimmed || trimmed.startsWith('#')) return;
+    const parsed = parseEnvLine(trimmed);
+    if (!parsed) {
+      skipped.push({ line: index + 1, reason: 'not a KEY=value line' });
+    } else if (parsed.key === 'AMPLIFIER_CONFIGURED') {
+      skipped.push({ line: index + 1, reason: 'AMPLIFIER_CONFIGURED is a status marker, not a key' });
+    } else if (!parsed.value) {
+      skipped.push({ line: index + 1, reason: `${parsed.key} has no value` });
+    } else if (parsed.value.startsWith('$(')) {
+      skipped.push({ line: index + 1, reason: `${parsed.key} is a command, not a value` });
+    } else {
+      secrets.set(parsed.key, parsed.value);
+    }
+  });
+  return { secrets, skipped };
+}
+
+export const SECRETS_FORMATS = ['env', 'dotenv', 'json'] as const;
+
+/** `env` is export lines for eval, `dotenv` plain KEY="value" lines, `json` one object */
+export type SecretsFormat = (typeof SECRETS_FORMATS)[number];
+
+/**
+ * Render keys for `keys export` and `unlock`.
+ */
+export function formatSecrets(secrets: Map<string, string>, format: SecretsFormat): string {
+  const keys = orderKeys(secrets.keys()).filter((key) => isWrittenKey(key, secrets.get(key)));
+  if (format === 'json') {
+    return `${JSON.stringify(Object.fromEntries(keys.map((key) => [key, secrets.get(key)])), null, 2)}\n`;
+  }
+  const prefix = format === 'env' ? 'export ' : '';
+  return keys.map((key) => `${prefix}${key}=${quoteEnvValue(secrets.get(key) ?? '')}\n`).join('');
+}
+
+/**
+ * Switch to another secret store, moving every key across. Keys leave the
+ * old store only once the new one holds them. Returns the moved key names.
+ */
+export async function setSecretStore(name: SecretStoreName): Promise<string[]> {
+  const target = getSecretStore(name);
+  const problem = await target.checkAvailable();
+  if (problem) {
+    throw new Error(problem);
+  }
+
+  const current = await getActiveSecretStore();
+  if (current.name === name) return [];
+
+  const secrets = await readFromStore(current);
+  await writeToStore(target, secrets);
+  await fs.mkdir(SECRETS_DIR, { recursive: true, mode: 0o700 });
+  await writeFileAtomic(SECRETS_CONFIG_FILE, `${JSON.stringify({ store: name }, null, 2)}\n`, { mode: 0o600 });
+  // The env file was already rewritten above; other stores need emptying.
+  if (current.name !== 'env-file') {
+    if (current.replaceAll) {
+      await current.replaceAll(new Map());
+    } else {
+      for (const key of await current.list()) {
+        await current.delete(key);
+      }
+    }
+  }
+
+  return [...secrets.keys()].filter((key) => isWrittenKey(key, secrets.get(key)));
 }
 
 /**
@@ -244,70 +594,142 @@ export async function addSourceLine(profilePath: string): Promise<boolean> {
 }
 
 /**
- * Prompt user for a single value via stdin.
+ * Clean up a pasted key: surrounding whitespace and matching quotes go.
  */
-function askQuestion(rl: readline.Interface, prompt: string): Promise<string> {
-  return new Promise((resolve) => {
-    rl.question(prompt, (answer) => {
-      resolve(answer.trim());
-    });
-  });
+export function normalizeKeyValue(raw: string): string {
+  let value = raw.trim();
+  while (value.length >= 2 && (value[0] === '"' || value[0] === "'") && value.endsWith(value[0])) {
+    value = value.slice(1, -1).trim();
+  }
+  return value;
 }
 
 /**
- * Interactive setup — prompts for each API key.
+ * Why a value isn't a plausible key for its definition, or null.
  */
-export async function interactiveSetup(): Promise<{ saved: string[]; skipped: string[] }> {
-  const existing = await readSecrets();
+export function checkKeyValue(keyDef: ApiKeyDefinition, value: string): string | null {
+  if (/\s/.test(value)) {
+    return `${keyDef.displayName} can't contain spaces`;
+  }
+  if (keyDef.pattern && !keyDef.pattern.test(value)) {
+    return `That doesn't look like a ${keyDef.displayName}; it ${keyDef.patternHint ?? `should match ${keyDef.pattern}`}`;
+  }
+  return null;
+}
 
-  const rl = readline.createInterface({
-    input: process.stdin,
-    output: process.stdout,
-  });
+/**
+ * Drop terminal escape sequences from raw input: bracketed-paste markers,
+ * arrow and function keys (CSI and SS3) and Alt-modified keys.
+ */
+export function stripTerminalEscapes(chunk: string): string {
+  return chunk.replace(/\u001b(?:\[[0-?]*[ -/]*[@-~]|O.|.)?/gs, '');
+}
 
-  const saved: string[] = [];
-  const skipped: string[] = [];
+/**
+ * Prompt on stderr and read a line from the terminal without echoing it.
+ */
+export function askHidden(prompt: string): Promise<string> {
+  const input = process.stdin;
+  return new Promise((resolve, reject) => {
+    if (!input.isTTY) {
+      reject(new Error('No terminal to read from'));
+      return;
+    }
 
-  try {
-    for (const keyDef of API_KEYS) {
-      // Amplifier manages its own keys — skip interactive prompt
-      if (keyDef.envVar === 'AMPLIFIER_CONFIGURED') {
-        const amp = await checkAmplifierKeys();
-        if (amp.configured) {
-          console.log(`  ${keyDef.displayName} (${keyDef.agent})`);
-          console.log(`    Self-managed in ${amp.source} — skipping\n`);
-        } else {
-          console.log(`  ${keyDef.displayName} (${keyDef.agent})`);
-          console.log(`    Not configured. Run: amplifier init\n`);
-          skipped.push(keyDef.envVar);
+    let value = '';
+    const finish = (): void => {
+      input.off('data', onData);
+      input.setRawMode(false);
+      input.pause();
+      process.stderr.write('\n');
+    };
+    const onData = (chunk: string): void => {
+      // Pastes arrive as one chunk, wrapped in markers if the terminal uses bracketed paste.
+      for (const ch of stripTerminalEscapes(chunk)) {
+        if (ch === '\r' || ch === '\n' || ch === '\u0004') {
+          finish();
+          resolve(value);
+          return;
+        }
+        if (ch === '\u0003') {
+          finish();
+          reject(new Error('Cancelled'));
+          return;
+        }
+        if (ch === '\u007f' || ch === '\b') {
+          value = value.slice(0, -1);
+        } else if (ch >= ' ') {
+          value += ch;
         }
-        continue;
       }
+    };
 
-      const current = existing.get(keyDef.envVar) || process.env[keyDef.envVar];
-      const masked = current ? `${current.slice(0, 8)}...${current.slice(-4)}` : '';
-      const currentDisplay = masked ? ` [current: ${masked}]` : '';
+    process.stderr.write(prompt);
+    input.setRawMode(true);
+    input.setEncoding('utf8');
+    input.on('data', onData);
+    input.resume();
+  });
+}
 
-      const answer = await askQuestion(
-        rl,
-        `  ${keyDef.displayName} (${keyDef.agent})${currentDisplay}\n  ${keyDef.hint}\n  ${keyDef.envVar}= `,
-      );
+/**
+ * Interactive setup — prompts for each API key.
+ */
+export async function interactiveSetup(): Promise<{ saved: string[]; skipped: string[] }> {
+  const existing = await readSecrets();
+
+  const saved: string[] = [];
+  const skipped: string[] = [];
 
-      if (answer) {
-        existing.set(keyDef.envVar, answer);
-        saved.push(keyDef.envVar);
+  for (const keyDef of API_KEYS) {
+    // Amplifier manages its own keys — skip interactive prompt
+    if (keyDef.envVar === 'AMPLIFIER_CONFIGURED') {
+      const amp = await checkAmplifierKeys();
+      if (amp.configured) {
+        console.log(`  ${keyDef.displayName} (${keyDef.agent})`);
+        console.log(`    Self-managed in ${amp.source} — skipping\n`);
       } else {
+        console.log(`  ${keyDef.displayName} (${keyDef.agent})`);
+        console.log(`    Not configured. Run: amplifier init\n`);
         skipped.push(keyDef.envVar);
       }
+      continue;
+    }
+
+    const current = existing.get(keyDef.envVar) || process.env[keyDef.envVar];
+    const masked = current ? `${current.slice(0, 8)}...${current.slice(-4)}` : '';
+    const currentDisplay = masked ? ` [current: ${masked}]` : '';
+    console.log(`  ${keyDef.displayName} (${keyDef.agent})${currentDisplay}\n  ${keyDef.hint}`);
+
+    const answer = await askForKey(keyDef);
+    if (answer) {
+      existing.set(keyDef.envVar, answer);
+      saved.push(keyDef.envVar);
+      console.log(`    Got ${maskKey(answer)}\n`);
+    } else {
+      skipped.push(keyDef.envVar);
+      console.log();
     }
-  } finally {
-    rl.close();
   }
 
   await writeSecrets(existing);
   return { saved, skipped };
 }
 
+/**
+ * Ask for one key without echoing it, until it looks valid or is left
+ * empty (skipped).
+ */
+async function askForKey(keyDef: ApiKeyDefinition): Promise<string> {
+  for (;;) {
+    const answer = normalizeKeyValue(await askHidden(`  ${keyDef.envVar}= `));
+    if (!answer) return '';
+    const problem = checkKeyValue(keyDef, answer);
+    if (!problem) return answer;
+    console.log(`    ${problem}. Try again, or press Enter to skip.`);
+  }
+}
+
 /**
  * Common dotfiles and env files where API keys might already live.
  */
@@ -327,6 +749,7 @@ export function getSearchPaths(): string[] {
     path.join(home, '.config', 'secrets'),
     // Agent-specific key files
     path.join(home, '.amplifier', 'keys.env'),
+    path.join(home, '.gemini', '.env'),
   ];
 }
 
@@ -377,6 +800,8 @@ export async function scanForExistingKeys(): Promise<Map<string, { value: string
         const trimmed = line.trim();
         if (!trimmed || trimmed.startsWith('#')) continue;
         const parsed = parseEnvLine(trimmed);
+        // Command substitutions, like the secrets file's lines for pass, aren't keys.
+        if (parsed?.value.startsWith('$(')) continue;
         if (parsed && targetVars.has(parsed.key) && !found.has(parsed.key)) {
           const relPath = filePath.startsWith(home)
             ? '~' + filePath.slice(home.length)
@@ -409,27 +834,36 @@ export function maskKey(key: string): string {
 }
 
 /**
- * Check which API keys are currently set (env, secrets file, or scanned).
+ * Check which API keys are currently set (env, secret store, or scanned).
+ * `backend` names the secret store holding the key, if it holds it.
  */
-export async function checkApiKeyStatus(): Promise<{ envVar: string; agent: string; set: boolean; source: string }[]> {
+export async function checkApiKeyStatus(): Promise<{
+  envVar: string;
+  agent: string;
+  set: boolean;
+  source: string;
+  backend: SecretStoreName | null;
+}[]> {
   const scanned = await scanForExistingKeys();
-  const fileSecrets = await readSecrets();
+  const store = await getActiveSecretStore();
+  const stored = new Set(await store.list());
 
   return API_KEYS.map((keyDef) => {
     const inEnv = !!process.env[keyDef.envVar];
-    const inFile = fileSecrets.has(keyDef.envVar);
+    const inStore = stored.has(keyDef.envVar);
     const scanResult = scanned.get(keyDef.envVar);
 
     let source = 'not set';
     if (inEnv) source = 'environment';
-    else if (inFile) source = 'secrets file';
+    else if (inStore) source = store.name === 'env-file' ? 'secrets file' : store.name;
     else if (scanResult) source = scanResult.source;
 
     return {
       envVar: keyDef.envVar,
       agent: keyDef.agent,
-      set: inEnv || inFile || !!scanResult,
+      set: inEnv || inStore || !!scanResult,
       source,
+      backend: inStore ? store.name : null,
     };
   });
 }
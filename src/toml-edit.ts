@@ -0,0 +1,374 @@
+import { parse as parseToml } from '@iarna/toml';
+
+/**
+ * Surgical TOML editing that leaves everything it doesn't touch byte-for-byte
+ * intact — comments, blank lines, key order and table layout included.
+ *
+ * Only the statements being changed are rewritten. The scanner understands
+ * enough TOML (strings, multi-line strings, arrays, inline tables, comments)
+ * to find statement boundaries; parsing proper is still left to @iarna/toml.
+ */
+
+export type TomlScalar = string | number | boolean;
+
+interface Position {
+  line: number;
+  col: number;
+}
+
+interface TomlStatement {
+  kind: 'table' | 'key';
+  /** Table the statement belongs to (for headers: the table they open) */
+  table: string[];
+  /** Dotted key, for key/value statements */
+  key: string[];
+  /** Whether a header opens an array-of-tables entry ([[...]]) */
+  arrayTable: boolean;
+  startLine: number;
+  endLine: number;
+  /** Span of the value, for key/value statements */
+  valueStart?: Position;
+  valueEnd?: Position;
+}
+
+function detectEol(text: string): string {
+  return text.includes('\r\n') ? '\r\n' : '\n';
+}
+
+function splitKeyPath(raw: string): string[] {
+  const parts: string[] = [];
+  let current = '';
+  let quote: '"' | "'" | null = null;
+
+  for (let i = 0; i < raw.length; i += 1) {
+    const ch = raw[i];
+    if (quote) {
+      if (quote === '"' && ch === '\\' && i + 1 < raw.length) {
+        current += raw[i + 1];
+        i += 1;
+      } else if (ch === quote) {
+        quote = null;
+      } else {
+        current += ch;
+      }
+    } else if (ch === '"' || ch === "'") {
+      quote = ch;
+    } else if (ch === '.') {
+      parts.push(current.trim());
+      current = '';
+    } else {
+      current += ch;
+    }
+  }
+
+  parts.push(current.trim());
+  return parts;
+}
+
+/**
+ * Find where the key ends (the `=` outside of quotes) in a key/value line.
+ */
+function findAssignment(line: string): number {
+  let quote: '"' | "'" | null = null;
+  for (let i = 0; i < line.length; i += 1) {
+    const ch = line[i];
+    if (quote) {
+      if (quote === '"' && ch === '\\') i += 1;
+      else if (ch === quote) quote = null;
+    } else if (ch === '"' || ch === "'") {
+      quote = ch;
+    } else if (ch === '=') {
+      return i;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Scan a value starting at `start` until the statement ends, following
+ * multi-line strings and brackets across lines.
+ */
+function scanValue(lines: string[], start: Position): { end: Position; endLine: number } {
+  let depth = 0;
+  let mode: 'normal' | '"' | "'" | '"""' | "'''" = 'normal';
+  let end: Position = { ...start };
+
+  for (let lineNo = start.line; lineNo < lines.length; lineNo += 1) {
+    const line = lines[lineNo];
+    let col = lineNo === start.line ? start.col : 0;
+
+    while (col < line.length) {
+      const rest = line.slice(col);
+      if (mode === 'normal') {
+        const ch = line[col];
+        if (ch === '#') break;
+        if (rest.startsWith('"""') || rest.startsWith("'''")) {
+          mode = rest.slice(0, 3) as '"""' | "'''";
+          col += 3;
+        } else if (ch === '"' || ch === "'") {
+          mode = ch;
+          col += 1;
+        } else {
+          if (ch === '[' || ch === '{') depth += 1;
+          if (ch === ']' || ch === '}') depth -= 1;
+          col += 1;
+        }
+        if (!/\s/.test(ch)) end = { line: lineNo, col };
+        continue;
+      }
+
+      if ((mode === '"' || mode === '"""') && line[col] === '\\') {
+        col += 2;
+        continue;
+      }
+
+      if (rest.startsWith(mode)) {
+        col += mode.length;
+        // A closing """ may be followed by up to two more quotes that belong to the string.
+        while (mode.length === 3 && line[col] === mode[0]) col += 1;
+        mode = 'normal';
+        end = { line: lineNo, col };
+        continue;
+      }
+
+      col += 1;
+    }
+
+    // Single-line strings cannot span lines; bail out rather than swallow the file.
+    if (mode === '"' || mode === "'") mode = 'normal';
+    if (mode === 'normal' && depth <= 0) {
+      return { end, endLine: lineNo };
+    }
+  }
+
+  return { end, endLine: lines.length - 1 };
+}
+
+function scanStatements(lines: string[]): TomlStatement[] {
+  const statements: TomlStatement[] = [];
+  let table: string[] = [];
+
+  for (let lineNo = 0; lineNo < lines.length; lineNo += 1) {
+    const line = lines[lineNo];
+    const trimmed = line.trim();
+    if (!trimmed || trimmed.startsWith('#')) continue;
+
+    if (trimmed.startsWith('[')) {
+      const arrayTable = trimmed.startsWith('[[');
+      const close = trimmed.indexOf(arrayTable ? ']]' : ']');
+      const name = trimmed.slice(arrayTable ? 2 : 1, close === -1 ? undefined : close);
+      table = splitKeyPath(name);
+      statements.push({ kind: 'table', table, key: [], arrayTable, startLine: lineNo, endLine: lineNo });
+      continue;
+    }
+
+    const eq = findAssignment(line);
+    if (eq === -1) continue;
+
+    const indent = line.length - line.trimStart().length;
+    const key = splitKeyPath(line.slice(indent, eq));
+    let valueCol = eq + 1;
+    while (valueCol < line.length && /\s/.test(line[valueCol])) valueCol += 1;
+
+    const valueStart = { line: lineNo, col: valueCol };
+    const { end, endLine } = scanValue(lines, valueStart);
+    statements.push({
+      kind: 'key',
+      table,
+      key,
+      arrayTable: false,
+      startLine: lineNo,
+      endLine,
+      valueStart,
+      valueEnd: end,
+    });
+    lineNo = endLine;
+  }
+
+  return statements;
+}
+
+function pathEquals(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((part, i) => part === b[i]);
+}
+
+function startsWithPath(path: string[], prefix: string[]): boolean {
+  return prefix.length <= path.length && prefix.every((part, i) => part === path[i]);
+}
+
+function isBareKey(key: string): boolean {
+  return /^[A-Za-z0-9_-]+$/.test(key);
+}
+
+function formatKey(key: string): string {
+  return isBareKey(key) ? key : formatTomlValue(key);
+}
+
+function formatKeyPath(path: string[]): string {
+  return path.map(formatKey).join('.');
+}
+
+/**
+ * Format a scalar as a TOML value.
+ */
+function formatTomlValue(value: TomlScalar): string {
+  if (typeof value === 'string') {
+    const escaped = value
+      .replace(/\\/g, '\\\\')
+      .replace(/"/g, '\\"')
+      .replace(/\n/g, '\\n')
+      .replace(/\r/g, '\\r')
+      .replace(/\t/g, '\\t');
+    return `"${escaped}"`;
+  }
+  return String(value);
+}
+
+function findKey(statements: TomlStatement[], path: string[]): TomlStatement | undefined {
+  // Array-of-tables entries are ambiguous targets; never edit inside them.
+  return statements.find(
+    (s) => s.kind === 'key' && pathEquals([...s.table, ...s.key], path) && !isInArrayTable(statements, s),
+  );
+}
+
+function isInArrayTable(statements: TomlStatement[], statement: TomlStatement): boolean {
+  const header = [...statements]
+    .reverse()
+    .find((s) => s.kind === 'table' && s.startLine < statement.startLine);
+  return header?.arrayTable ?? false;
+}
+
+function assertValidToml(text: string): void {
+  try {
+    parseToml(text);
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new Error(`Refusing to write TOML that no longer parses: ${reason}`);
+  }
+}
+
+/**
+ * Where a new key for `table` goes: the line index to insert at, and whether
+ * a blank line should separate it from what follows. Returns undefined when
+ * the table doesn't exist yet.
+ */
+function findInsertPoint(
+  lines: string[],
+  statements: TomlStatement[],
+  table: string[],
+): { index: number; gap: boolean } | undefined {
+  const inTable = statements.filter((s) => s.kind === 'key' && pathEquals(s.table, table));
+  if (inTable.length > 0) {
+    return { index: inTable[inTable.length - 1].endLine + 1, gap: false };
+  }
+
+  if (table.length > 0) {
+    const header = statements.find((s) => s.kind === 'table' && !s.arrayTable && pathEquals(s.table, table));
+    return header ? { index: header.startLine + 1, gap: false } : undefined;
+  }
+
+  const firstHeader = statements.find((s) => s.kind === 'table');
+  if (!firstHeader) {
+    // No tables at all: append after the last non-blank line.
+    let index = lines.length;
+    while (index > 0 && lines[index - 1].trim() === '') index -= 1;
+    return { index, gap: false };
+  }
+
+  // Root keys must come before the first header. Keep any comment block
+  // sitting directly on top of that header attached to it.
+  let index = firstHeader.startLine;
+  while (index > 0 && lines[index - 1].trim().startsWith('#')) index -= 1;
+  return { index, gap: true };
+}
+
+/**
+ * Set a key to a scalar value, keeping the rest of the document untouched.
+ * `path` is the full dotted path, e.g. ['profiles', 'yolo', 'approval_policy'].
+ * Existing values are replaced in place (trailing comments survive); new keys
+ * are appended to their table, and missing tables are created at the end.
+ */
+export function setTomlValue(text: string, path: string[], value: TomlScalar): string {
+  const eol = detectEol(text);
+  const cr = eol === '\r\n' ? '\r' : '';
+  const lines = text.split('\n');
+  const statements = scanStatements(lines);
+  const formatted = formatTomlValue(value);
+  const table = path.slice(0, -1);
+  const keyLine = `${formatKey(path[path.length - 1])} = ${formatted}`;
+
+  let result: string;
+  const existing = findKey(statements, path);
+  const insertPoint = existing ? undefined : findInsertPoint(lines, statements, table);
+
+  if (existing?.valueStart && existing.valueEnd) {
+    const head = lines[existing.valueStart.line].slice(0, existing.valueStart.col);
+    const tail = lines[existing.valueEnd.line].slice(existing.valueEnd.col);
+    lines.splice(existing.startLine, existing.endLine - existing.startLine + 1, `${head}${formatted}${tail}`);
+    result = lines.join('\n');
+  } else if (insertPoint && insertPoint.index >= lines.length) {
+    // Appending after a final line that has no newline of its own.
+    result = `${text}${eol}${keyLine}`;
+  } else if (insertPoint) {
+    const addition = insertPoint.gap ? [`${keyLine}${cr}`, cr] : [`${keyLine}${cr}`];
+    lines.splice(insertPoint.index, 0, ...addition);
+    result = lines.join('\n');
+  } else {
+    // New table at the end of the document, separated by a blank line.
+    const body = text.replace(/(\r?\n)*$/, '');
+    const separator = body ? `${eol}${eol}` : '';
+    result = `${body}${separator}[${formatKeyPath(table)}]${eol}${keyLine}${eol}`;
+  }
+
+  assertValidToml(result);
+  return result;
+}
+
+/**
+ * Remove a key (and any comment on the same line). Returns the text
+ * unchanged when the key isn't present.
+ */
+export function removeTomlValue(text: string, path: string[]): string {
+  const lines = text.split('\n');
+  const existing = findKey(scanStatements(lines), path);
+  if (!existing) return text;
+
+  lines.splice(existing.startLine, existing.endLine - existing.startLine + 1);
+  return lines.join('\n');
+}
+
+/**
+ * Remove a table: its header, its keys and any sub-tables or dotted keys
+ * nested under it. Blank lines separating it from the previous statement go
+ * too; comments after its last key are left to whatever follows them.
+ */
+export function removeTomlTable(text: string, table: string[]): string {
+  const lines = text.split('\n');
+  const statements = scanStatements(lines);
+  const doomed = new Set<number>();
+  const doom = (from: number, to: number): void => {
+    for (let i = from; i <= to; i += 1) doomed.add(i);
+  };
+
+  statements.forEach((statement, index) => {
+    if (statement.kind === 'table' && startsWithPath(statement.table, table)) {
+      let end = statement.endLine;
+      for (const next of statements.slice(index + 1)) {
+        if (next.kind === 'table') break;
+        end = next.endLine;
+      }
+      let start = statement.startLine;
+      while (start > 0 && lines[start - 1].trim() === '') start -= 1;
+      // At the top of the file, drop the gap below instead of above.
+      if (start === 0) {
+        while (end + 1 < lines.length - 1 && lines[end + 1].trim() === '') end += 1;
+      }
+      doom(start, end);
+    } else if (statement.kind === 'key' && startsWithPath([...statement.table, ...statement.key], table)) {
+      doom(statement.startLine, statement.endLine);
+    }
+  });
+
+  if (doomed.size === 0) return text;
+  return lines.filter((_, i) => !doomed.has(i)).join('\n');
+}
@@ -1,4 +1,9 @@
-export type AgentType = 'claude-code' | 'codex' | 'copilot' | 'amplifier';
+export type BuiltinAgentType = 'claude-code' | 'codex' | 'copilot' | 'amplifier' | 'gemini' | 'aider' | 'cursor-agent' | 'claude-desktop';
+
+/** A built-in agent, or the `type` of a user-defined one from ~/.letsyolo/agents.d */
+export type AgentType = BuiltinAgentType | (string & {});
+
+export type AutonomyLevel = 'plan' | 'accept-edits' | 'sandboxed-auto' | 'full-bypass';
 
 export interface AgentDefinition {
   type: AgentType;
@@ -8,8 +13,36 @@ export interface AgentDefinition {
   installCommand: string;
   yoloFlag: string;
   configPath?: string;
-  configFormat: 'json' | 'toml' | 'none';
+  configFormat: 'json' | 'toml' | 'yaml' | 'none';
   persistentToggle: boolean;
+  /** Config values that together mean "yolo mode on", for declaratively defined agents */
+  yoloSettings?: YoloSetting[];
+  /** What yoloSettings leave out when they fall short of full bypass; such agents never report full-bypass */
+  yoloSettingsLimit?: string;
+  /** Extra names accepted by parseAgentType */
+  aliases?: string[];
+  /** Definition file a user-defined agent was loaded from */
+  source?: string;
+  /** Desktop app with no CLI: detected by its config file instead of by running a binary */
+  desktopApp?: boolean;
+  /** installCommand is instructions for a person rather than a shell command */
+  manualInstall?: boolean;
+}
+
+export interface YoloSetting {
+  /** Key path inside the config file, e.g. ['permissions', 'mode'] */
+  path: string[];
+  value: string | number | boolean;
+}
+
+/** One copy of an agent's binary found on disk */
+export interface AgentInstallation {
+  path: string;
+  version: string | null;
+  /** Reachable through PATH, even if an earlier entry shadows it */
+  onPath: boolean;
+  /** The copy a bare `<binary>` runs: the first working one on PATH */
+  active: boolean;
 }
 
 export interface AgentStatus {
@@ -19,16 +52,28 @@ export interface AgentStatus {
   version: string | null;
   path: string | null;
   installCommand: string;
+  /** Every working copy found, PATH entries first (CLI agents only) */
+  installations?: AgentInstallation[];
+  /** Set when the installations report different versions */
+  versionMismatch?: boolean;
+  /** How long detecting this agent took */
+  durationMs?: number;
 }
 
 export interface DetectionResult {
   agents: AgentStatus[];
   checkedAt: number;
+  /** Wall-clock time for the whole detection */
+  durationMs?: number;
+  /** Per-binary version check timeout in effect */
+  timeoutMs?: number;
 }
 
 export interface YoloConfig {
-  /** Whether yolo mode is currently enabled in persistent config */
+  /** Whether full-bypass yolo mode is currently enabled in persistent config */
   enabled: boolean;
+  /** Autonomy level set in persistent config, or null for the agent's defaults */
+  level?: AutonomyLevel | null;
   /** Whether this agent has only session-level yolo support */
   sessionOnly: boolean;
   /** Path to the config file, if persistent config exists */
@@ -37,6 +82,95 @@ export interface YoloConfig {
   cliFlag: string;
   /** Description of what was configured */
   details: string;
+  /** Project-local state, reported next to the user-global one */
+  project?: ProjectYoloState;
+  /** Profile that was enabled, when yolo mode is scoped to a profile */
+  profile?: string;
+  /** Named profiles found in the config, with their yolo state */
+  profiles?: ProfileYoloState[];
+  /** Pending automatic reverts from `enable --for` */
+  expiries?: YoloExpiry[];
+  /** MCP servers found in the config, with their auto-approve state */
+  servers?: McpServerState[];
+}
+
+export interface McpServerState {
+  name: string;
+  /** Whether the server carries `autoApprove: true`, which Claude Desktop does not document */
+  autoApprove: boolean;
+}
+
+export interface YoloExpiry {
+  agent: AgentType;
+  /** ISO time after which the agent is reverted */
+  expiresAt: string;
+  /** Scope the window was opened for, passed back to disable */
+  projectDir?: string;
+  profile?: string;
+}
+
+export type WrittenScalar = string | number | boolean;
+
+/**
+ * A config value letsyolo set, recorded so disable only reverts its own
+ * changes. A table letsyolo created is recorded at its own path with `true`.
+ */
+export interface WrittenValue {
+  /** Config file the value was written to */
+  file: string;
+  /** Key path inside the file */
+  path: string[];
+  value: WrittenScalar;
+  /** What the key held before letsyolo first set it; absent if it was unset */
+  previous?: WrittenScalar;
+}
+
+export interface ProfileYoloState {
+  name: string;
+  /** Whether the profile runs with full bypass */
+  enabled: boolean;
+  /** Autonomy level the profile maps to, if any */
+  level: AutonomyLevel | null;
+  /** Whether the config selects this profile by default */
+  isDefault: boolean;
+}
+
+export interface ProjectYoloState {
+  /** Project-local settings file (e.g. .claude/settings.local.json) */
+  configPath: string;
+  /** Whether full-bypass yolo mode is enabled in the project-local settings */
+  enabled: boolean;
+  /** Autonomy level set in the project-local settings */
+  level: AutonomyLevel | null;
+  /** Description of the project-local settings */
+  details: string;
+}
+
+export interface YoloOptions {
+  /** Work out the new config content without writing anything */
+  dryRun?: boolean;
+  /** Autonomy level to enable (defaults to full-bypass) */
+  level?: AutonomyLevel;
+  /** Write project-local settings under this directory instead of user-global ones */
+  projectDir?: string;
+  /** Permission rules to add on enable (or remove on disable) */
+  allow?: string[];
+  deny?: string[];
+  /** Scope yolo mode to a named profile instead of top-level settings */
+  profile?: string;
+  /** MCP servers to enable/disable auto-approve for (default: all configured) */
+  servers?: string[];
+}
+
+export interface ConfigChange {
+  /** Config file being changed */
+  path: string;
+  /** Current content, or null if the file does not exist yet */
+  before: string | null;
+  /** Content that is (or, in a dry run, would be) written */
+  after: string;
+  /** Unified diff from before to after; empty if nothing changes */
+  patch: string;
 }
 
 export interface YoloResult {
@@ -45,4 +179,88 @@ export interface YoloResult {
   success: boolean;
   error?: string;
   config?: YoloConfig;
+  /** Set when the result comes from a dry run */
+  dryRun?: boolean;
+  /** Config changes a dry run would make */
+  changes?: ConfigChange[];
+  /** Problems worth knowing about that didn't stop the run, e.g. an outdated CLI */
+  warnings?: string[];
+}
+
+export interface ConfigBackup {
+  agent: AgentType;
+  /** Filename-safe timestamp identifying the snapshot (usable with --at) */
+  timestamp: string;
+  /** Config file the snapshot was taken from */
+  source: string;
+  /** Where the snapshot is stored under ~/.letsyolo/backups */
+  path: string;
+  /** Whether the config file existed when the snapshot was taken */
+  existed: boolean;
+}
+
+export type DoctorStatus = 'pass' | 'warn' | 'fail';
+
+export type InstallStatus = 'installed' | 'already-installed' | 'failed';
+
+export interface InstallResult {
+  type: AgentType;
+  displayName: string;
+  /** Shell command that was (or would have been) run */
+  command: string;
+  status: InstallStatus;
+  /** Where detection finds the agent afterwards */
+  path?: string;
+  version?: string | null;
+  error?: string;
+  /** Exit code of the install command, when it ran */
+  exitCode?: number | null;
+}
+
+/** The package an agent's installCommand installs */
+export interface PackageSource {
+  manager: 'npm' | 'uv';
+  name: string;
+  /** False for git/URL installs, which have no registry version to compare with */
+  published: boolean;
+}
+
+export interface AgentUpdate {
+  type: AgentType;
+  displayName: string;
+  installed: boolean;
+  /** Installed version, normalized to semver when it parses */
+  current: string | null;
+  /** Newest release in the registry, when it could be looked up */
+  latest: string | null;
+  /** Null when either version is unknown */
+  outdated: boolean | null;
+  source: PackageSource | null;
+  /** Why `latest` is unknown */
+  error?: string;
+}
+
+export type UpgradeStatus = 'upgraded' | 'up-to-date' | 'failed';
+
+export interface UpgradeResult {
+  type: AgentType;
+  displayName: string;
+  status: UpgradeStatus;
+  /** Shell command that was (or would have been) run */
+  command?: string;
+  from?: string | null;
+  to?: string | null;
+  latest?: string | null;
+  path?: string;
+  error?: string;
+  exitCode?: number | null;
+}
+
+export interface DoctorCheck {
+  /** Stable identifier, e.g. `config:codex` or `path:claude` */
+  name: string;
+  status: DoctorStatus;
+  message: string;
+  /** Suggested fix, for warnings and failures */
+  fix?: string;
 }
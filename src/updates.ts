@@ -0,0 +1,239 @@
+import { execFile } from 'node:child_process';
+import { promisify } from 'node:util';
+import { detectBinary } from './detect.js';
+import { checkCommandTools, checkTool, runInstallCommand, runInstallProgram } from './install.js';
+import type { InstallOutput } from './install.js';
+import { compareVersions, formatVersion, parseVersion } from './versions.js';
+import type { SemVer } from './versions.js';
+import type { AgentDefinition, AgentUpdate, PackageSource, UpgradeResult } from './types.js';
+
+const execFileAsync = promisify(execFile);
+
+export const DEFAULT_PYPI_INDEX = 'https://pypi.org/simple';
+
+const LOOKUP_TIMEOUT_MS = 15000;
+
+/**
+ * Registries to query instead of the package managers' defaults, e.g. a
+ * local mirror. Unset ones fall back to npm's and uv's own configuration.
+ */
+export interface RegistryOptions {
+  /** npm registry URL, passed to npm as --registry */
+  npmRegistry?: string;
+  /** Python simple index URL, as given to uv --index-url */
+  pypiIndex?: string;
+}
+
+function positionalArgs(words: string[]): string[] {
+  return words.filter((word) => !word.startsWith('-'));
+}
+
+/**
+ * Work out which package an install command installs. Only
+ * `npm install -g <pkg>` and `uv tool install <pkg>` are understood.
+ */
+export function getPackageSource(def: AgentDefinition): PackageSource | null {
+  if (def.manualInstall) return null;
+  const words = def.installCommand.trim().split(/\s+/);
+
+  if (words[0] === 'npm' && ['install', 'i'].includes(words[1]) && (words.includes('-g') || words.includes('--global'))) {
+    const spec = positionalArgs(words.slice(2))[0];
+    if (!spec) return null;
+    // Drop a version or tag, keeping a scope's leading @.
+    const at = spec.lastIndexOf('@');
+    return { manager: 'npm', name: at > 0 ? spec.slice(0, at) : spec, published: true };
+  }
+
+  if (words[0] === 'uv' && words[1] === 'tool' && words[2] === 'install') {
+    const spec = positionalArgs(words.slice(3))[0];
+    if (!spec) return null;
+    if (spec.includes('://') || spec.startsWith('git+')) {
+      // uv names a tool installed from a URL after its package; assume it matches the binary.
+      return { manager: 'uv', name: def.binaries[0], published: false };
+    }
+    return { manager: 'uv', name: spec.split(/[=<>~!;[\s]/)[0], published: true };
+  }
+
+  return null;
+}
+
+async function latestNpmVersion(name: string, registries: RegistryOptions): Promise<string> {
+  const args = ['view', name, 'version', ...(registries.npmRegistry ? ['--registry', registries.npmRegistry] : [])];
+  const { stdout } = await execFileAsync('npm', args, { timeout: LOOKUP_TIMEOUT_MS, encoding: 'utf8' });
+  const version = stdout.trim();
+  if (!version) throw new Error(`npm view ${name} returned no version`);
+  return version;
+}
+
+/**
+ * Newest final release of a Python package, from the simple index's JSON
+ * form (PEP 691/700), which PyPI and uv-compatible mirrors serve.
+ */
+async function latestPypiVersion(name: string, registries: RegistryOptions): Promise<string> {
+  const index = (registries.pypiIndex ?? process.env.UV_DEFAULT_INDEX ?? process.env.UV_INDEX_URL ?? DEFAULT_PYPI_INDEX)
+    .replace(/\/+$/, '');
+  const normalized = name.toLowerCase().replace(/[-_.]+/g, '-');
+  const url = `${index}/${normalized}/`;
+  const response = await fetch(url, {
+    headers: { Accept: 'application/vnd.pypi.simple.v1+json' },
+    signal: AbortSignal.timeout(LOOKUP_TIMEOUT_MS),
+  });
+  if (!response.ok) {
+    throw new Error(`${url} returned ${response.status}`);
+  }
+
+  const body = (await response.json()) as { versions?: unknown };
+  let newest: { version: string; parsed: SemVer } | undefined;
+  for (const version of Array.isArray(body.versions) ? body.versions : []) {
+    // Final releases only: no rc/dev/post suffixes.
+    if (typeof version !== 'string' || !/^\d+(\.\d+)*$/.test(version)) continue;
+    const parsed = parseVersion(version);
+    if (parsed && (!newest || compareVersions(parsed, newest.parsed) > 0)) {
+      newest = { version, parsed };
+    }
+  }
+  if (!newest) throw new Error(`${url} lists no releases`);
+  return newest.version;
+}
+
+/**
+ * The newest published version of a package.
+ */
+export async function getLatestVersion(source: PackageSource, registries: RegistryOptions = {}): Promise<string> {
+  if (!source.published) {
+    throw new Error(`${source.name} is installed from a URL, not a registry`);
+  }
+  return source.manager === 'npm'
+    ? latestNpmVersion(source.name, registries)
+    : latestPypiVersion(source.name, registries);
+}
+
+function normalizeVersion(raw: string | null): string | null {
+  const parsed = parseVersion(raw);
+  return parsed ? formatVersion(parsed) : raw;
+}
+
+/**
+ * Compare an agent's installed version with the newest published one.
+ */
+export async function checkForUpdate(def: AgentDefinition, registries: RegistryOptions = {}): Promise<AgentUpdate> {
+  const source = getPackageSource(def);
+  const detection = def.desktopApp
+    ? { found: false, version: null }
+    : await detectBinary(def.binaries, def.versionFlag);
+  const base = {
+    type: def.type,
+    displayName: def.displayName,
+    installed: detection.found,
+    current: normalizeVersion(detection.version),
+    source,
+  };
+
+  if (!source) {
+    return { ...base, latest: null, outdated: null, error: 'No package registry to check; the install command is not npm or uv' };
+  }
+
+  let latest: string;
+  try {
+    latest = await getLatestVersion(source, registries);
+  } catch (error) {
+    return { ...base, latest: null, outdated: null, error: error instanceof Error ? error.message : String(error) };
+  }
+
+  const current = parseVersion(detection.version);
+  const newest = parseVersion(latest);
+  const outdated = detection.found && current && newest ? compareVersions(current, newest) < 0 : null;
+  return { ...base, latest, outdated };
+}
+
+/**
+ * The package manager's own upgrade, as a program and its arguments. It runs
+ * without a shell, so registry URLs can't break or extend the command.
+ */
+function getPackageUpgradeArgs(source: PackageSource, registries: RegistryOptions): string[] {
+  if (source.manager === 'npm') {
+    const registry = registries.npmRegistry ? ['--registry', registries.npmRegistry] : [];
+    return ['npm', 'install', '-g', `${source.name}@latest`, ...registry];
+  }
+  const index = registries.pypiIndex ? ['--index-url', registries.pypiIndex] : [];
+  return ['uv', 'tool', 'upgrade', source.name, ...index];
+}
+
+/** Quote a word for showing in a shell command, if it needs it. */
+function shellQuote(word: string): string {
+  return /^[\w@%+=:,./-]+$/.test(word) ? word : `'${word.replace(/'/g, `'\\''`)}'`;
+}
+
+/**
+ * The command that upgrades an agent in place: the package manager's own
+ * upgrade when the source is known, otherwise the install command again
+ * (installer scripts fetch the newest release).
+ */
+export function getUpgradeCommand(def: AgentDefinition, registries: RegistryOptions = {}): string | null {
+  if (def.manualInstall) return null;
+  const source = getPackageSource(def);
+  return source ? getPackageUpgradeArgs(source, registries).map(shellQuote).join(' ') : def.installCommand;
+}
+
+/**
+ * Run an agent's upgrade and confirm with detection that PATH now runs a
+ * newer copy. An upgrade that lands in a different install than the one on
+ * PATH counts as failed, since nothing changes for the user.
+ */
+export async function upgradeAgent(
+  def: AgentDefinition,
+  update: AgentUpdate,
+  registries: RegistryOptions = {},
+  output: InstallOutput = 'inherit',
+): Promise<UpgradeResult> {
+  const base = { type: def.type, displayName: def.displayName, latest: update.latest };
+  const command = getUpgradeCommand(def, registries);
+  if (!command) {
+    return { ...base, status: 'failed', error: `${def.displayName} has to be upgraded by hand: ${def.installCommand}` };
+  }
+
+  const before = await detectBinary(def.binaries, def.versionFlag);
+  if (!before.found) {
+    return { ...base, status: 'failed', command, error: `${def.displayName} is not installed; run \`letsyolo install ${def.type}\`` };
+  }
+
+  const source = getPackageSource(def);
+  const args = source ? getPackageUpgradeArgs(source, registries) : null;
+  const problem = args ? await checkTool(args[0], command) : await checkCommandTools(command);
+  if (problem) {
+    return { ...base, status: 'failed', command, from: normalizeVersion(before.version), error: problem };
+  }
+
+  let exitCode: number | null;
+  try {
+    exitCode = args ? await runInstallProgram(args[0], args.slice(1), output) : await runInstallCommand(command, output);
+  } catch (error) {
+    return { ...base, status: 'failed', command, error: error instanceof Error ? error.message : String(error) };
+  }
+  const from = normalizeVersion(before.version);
+  if (exitCode !== 0) {
+    return { ...base, status: 'failed', command, exitCode, from, error: `Upgrade command exited with ${exitCode ?? 'a signal'}` };
+  }
+
+  const after = await detectBinary(def.binaries, def.versionFlag);
+  const to = normalizeVersion(after.version);
+  const result = { ...base, command, exitCode, from, to, ...(after.path ? { path: after.path } : {}) };
+  if (!after.found) {
+    return { ...result, status: 'failed', error: `\`${def.binaries[0]}\` can no longer be found after upgrading; check PATH` };
+  }
+
+  const beforeVersion = parseVersion(before.version);
+  const afterVersion = parseVersion(after.version);
+  const latestVersion = parseVersion(update.latest);
+  if (beforeVersion && afterVersion && compareVersions(afterVersion, beforeVersion) > 0) {
+    return { ...result, status: 'upgraded' };
+  }
+  if (afterVersion && latestVersion && compareVersions(afterVersion, latestVersion) < 0) {
+    return {
+      ...result,
+      status: 'failed',
+      error: `PATH still runs ${after.path} at ${to}; the upgrade may have gone to another install (see \`letsyolo detect\`)`,
+    };
+  }
+  return { ...result, status: 'up-to-date' };
+}
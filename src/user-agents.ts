@@ -0,0 +1,189 @@
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { USER_AGENTS_DIR, isBuiltinAgentName } from './agents.js';
+import { isFileNotFoundError } from './fs-utils.js';
+import { parseYaml } from './yaml.js';
+import type { AgentDefinition, YoloSetting } from './types.js';
+
+/**
+ * Declarative agent definitions, one agent per file:
+ *
+ *   type: goose
+ *   displayName: Goose
+ *   binaries: [goose]
+ *   yoloFlag: --yolo
+ *   configPath: ~/.config/goose/config.json
+ *   enabled:
+ *     permissions.mode: auto
+ *   aliases: [goose-cli]
+ */
+
+const DEFINITION_EXTENSIONS = ['.json', '.yaml', '.yml'];
+
+export interface UserAgentsLoadResult {
+  definitions: AgentDefinition[];
+  /** One message per file that could not be loaded */
+  errors: string[];
+}
+
+type Fields = Record<string, unknown>;
+
+function expandHome(filePath: string): string {
+  if (filePath === '~') return os.homedir();
+  if (filePath.startsWith('~/')) return path.join(os.homedir(), filePath.slice(2));
+  return path.resolve(filePath);
+}
+
+function optionalString(fields: Fields, key: string): string | undefined {
+  const value = fields[key];
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== 'string' || value.trim() === '') {
+    throw new Error(`"${key}" must be a non-empty string`);
+  }
+  return value;
+}
+
+function requireString(fields: Fields, key: string): string {
+  const value = optionalString(fields, key);
+  if (value === undefined) throw new Error(`"${key}" is required`);
+  return value;
+}
+
+function stringList(fields: Fields, key: string): string[] {
+  const value = fields[key];
+  if (value === undefined || value === null) return [];
+  const list = Array.isArray(value) ? value : [value];
+  if (!list.every((item) => typeof item === 'string' && item.trim() !== '')) {
+    throw new Error(`"${key}" must be a string or a list of strings`);
+  }
+  return list as string[];
+}
+
+/**
+ * Flatten `enabled` into key paths. Keys may be dotted (`a.b: x`) or nested
+ * (`a: { b: x }`); leaves must be strings, numbers or booleans.
+ */
+function flattenSettings(value: unknown, prefix: string[] = []): YoloSetting[] {
+  if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
+    if (prefix.length === 0) throw new Error('"enabled" must map key paths to values');
+    return [{ path: prefix, value }];
+  }
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new Error(`"enabled.${prefix.join('.')}" must be a string, number or boolean`);
+  }
+  return Object.entries(value as Fields).flatMap(([key, child]) =>
+    flattenSettings(child, [...prefix, ...key.split('.')]),
+  );
+}
+
+function inferConfigFormat(configPath: string): AgentDefinition['configFormat'] | undefined {
+  const ext = path.extname(configPath).toLowerCase();
+  if (ext === '.json') return 'json';
+  if (ext === '.toml') return 'toml';
+  if (ext === '.yaml' || ext === '.yml') return 'yaml';
+  return undefined;
+}
+
+/**
+ * Turn the parsed contents of a definition file into an AgentDefinition.
+ */
+export function parseAgentDefinition(data: unknown, source: string): AgentDefinition {
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    throw new Error('expected an object');
+  }
+  const fields = data as Fields;
+
+  const type = requireString(fields, 'type').toLowerCase();
+  if (!/^[a-z0-9][a-z0-9._-]*$/.test(type)) {
+    throw new Error(`"type" may only contain letters, digits, ".", "_" and "-": ${type}`);
+  }
+  if (isBuiltinAgentName(type)) {
+    throw new Error(`"type" clashes with a built-in agent: ${type}`);
+  }
+
+  const binaries = stringList(fields, 'binaries');
+  if (binaries.length === 0) throw new Error('"binaries" needs at least one binary name');
+
+  const displayName = optionalString(fields, 'displayName') ?? type;
+  const rawConfigPath = optionalString(fields, 'configPath');
+  const configPath = rawConfigPath !== undefined ? expandHome(rawConfigPath) : undefined;
+
+  let configFormat = optionalString(fields, 'configFormat') as AgentDefinition['configFormat'] | undefined;
+  if (configFormat !== undefined && !['json', 'toml', 'yaml', 'none'].includes(configFormat)) {
+    throw new Error(`"configFormat" must be json, toml, yaml or none: ${configFormat}`);
+  }
+  if (configPath !== undefined) {
+    configFormat ??= inferConfigFormat(configPath);
+    if (configFormat === undefined || configFormat === 'none') {
+      throw new Error('"configFormat" (json, toml or yaml) is required for this configPath');
+    }
+  }
+
+  const yoloSettings = fields.enabled === undefined || fields.enabled === null ? [] : flattenSettings(fields.enabled);
+  if (yoloSettings.length > 0 && configPath === undefined) {
+    throw new Error('"enabled" needs a "configPath" to write to');
+  }
+
+  const installCommand = optionalString(fields, 'installCommand');
+  const aliases = stringList(fields, 'aliases').map((alias) => alias.toLowerCase());
+  const taken = aliases.find(isBuiltinAgentName);
+  if (taken) throw new Error(`alias clashes with a built-in agent: ${taken}`);
+
+  return {
+    type,
+    displayName,
+    binaries,
+    versionFlag: optionalString(fields, 'versionFlag') ?? '--version',
+    installCommand: installCommand ?? `Install ${displayName} so \`${binaries[0]}\` is on PATH`,
+    yoloFlag: requireString(fields, 'yoloFlag'),
+    ...(configPath !== undefined ? { configPath } : {}),
+    configFormat: configFormat ?? 'none',
+    persistentToggle: yoloSettings.length > 0,
+    ...(yoloSettings.length > 0 ? { yoloSettings } : {}),
+    ...(aliases.length > 0 ? { aliases } : {}),
+    ...(installCommand === undefined ? { manualInstall: true } : {}),
+    source,
+  };
+}
+
+async function readDefinitionFile(filePath: string): Promise<AgentDefinition> {
+  const text = await fs.readFile(filePath, 'utf-8');
+  const data: unknown = path.extname(filePath).toLowerCase() === '.json' ? JSON.parse(text) : parseYaml(text);
+  return parseAgentDefinition(data, filePath);
+}
+
+/**
+ * Load every definition file in `dir`. A broken file is reported in
+ * `errors` and skipped; it never stops the others from loading.
+ */
+export async function loadUserAgents(dir: string = USER_AGENTS_DIR): Promise<UserAgentsLoadResult> {
+  let entries: string[];
+  try {
+    entries = await fs.readdir(dir);
+  } catch (error) {
+    if (isFileNotFoundError(error)) return { definitions: [], errors: [] };
+    throw error;
+  }
+
+  const definitions: AgentDefinition[] = [];
+  const errors: string[] = [];
+  for (const entry of entries.sort()) {
+    if (!DEFINITION_EXTENSIONS.includes(path.extname(entry).toLowerCase())) continue;
+    const filePath = path.join(dir, entry);
+    try {
+      const definition = await readDefinitionFile(filePath);
+      const names = [definition.type, ...(definition.aliases ?? [])];
+      const clash = definitions.find((other) => [other.type, ...(other.aliases ?? [])].some((name) => names.includes(name)));
+      if (clash) {
+        throw new Error(`"${definition.type}" clashes with ${clash.source}`);
+      }
+      definitions.push(definition);
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      errors.push(`${filePath}: ${reason}`);
+    }
+  }
+
+  return { definitions, errors };
+}
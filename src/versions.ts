@@ -0,0 +1,157 @@
+import type { AgentDefinition, AgentType, YoloSetting } from './types.js';
+
+export interface SemVer {
+  major: number;
+  minor: number;
+  patch: number;
+  prerelease: string | null;
+}
+
+/**
+ * Pull a semantic version out of `--version` output such as
+ * "codex-cli 0.46.0", "1.0.98 (Claude Code)" or "aider 0.86.1".
+ * A missing patch number counts as 0.
+ */
+export function parseVersion(raw: string | null | undefined): SemVer | null {
+  if (!raw) return null;
+  const match = raw.match(/(?:^|[^\d.])v?(\d+)\.(\d+)(?:\.(\d+))?(?:-([0-9A-Za-z.-]+))?/);
+  if (!match) return null;
+  return {
+    major: Number(match[1]),
+    minor: Number(match[2]),
+    patch: Number(match[3] ?? 0),
+    prerelease: match[4] ?? null,
+  };
+}
+
+export function formatVersion(version: SemVer): string {
+  const core = `${version.major}.${version.minor}.${version.patch}`;
+  return version.prerelease ? `${core}-${version.prerelease}` : core;
+}
+
+function requireVersion(text: string): SemVer {
+  const version = parseVersion(text);
+  if (!version) throw new Error(`Invalid version: ${text}`);
+  return version;
+}
+
+/**
+ * Order two versions; a prerelease sorts before its release.
+ */
+export function compareVersions(a: SemVer, b: SemVer): number {
+  for (const key of ['major', 'minor', 'patch'] as const) {
+    if (a[key] !== b[key]) return a[key] - b[key];
+  }
+  if (a.prerelease === b.prerelease) return 0;
+  if (a.prerelease === null) return 1;
+  if (b.prerelease === null) return -1;
+  return a.prerelease.localeCompare(b.prerelease, 'en', { numeric: true });
+}
+
+export interface VersionRange {
+  /** First version the entry applies to (inclusive) */
+  since?: string;
+  /** First version it no longer applies to (exclusive) */
+  until?: string;
+}
+
+export function inRange(version: SemVer, range: VersionRange): boolean {
+  if (range.since !== undefined && compareVersions(version, requireVersion(range.since)) < 0) return false;
+  if (range.until !== undefined && compareVersions(version, requireVersion(range.until)) >= 0) return false;
+  return true;
+}
+
+/** Flags and config keys that differ from an agent's current ones in some releases. */
+export interface VersionedSettings extends VersionRange {
+  yoloFlag?: string;
+  yoloSettings?: YoloSetting[];
+}
+
+export interface AgentVersionTable {
+  /** Oldest release whose flags and config keys letsyolo knows */
+  minimum: string;
+  /** Older releases' settings; versions outside every range use the definition as-is */
+  ranges: VersionedSettings[];
+}
+
+/**
+ * Per-agent version table. The definitions in agents.ts describe the current
+ * releases; entries here only list what older ones expect instead.
+ */
+export const AGENT_VERSION_TABLE: Partial<Record<AgentType, AgentVersionTable>> = {
+  'claude-code': {
+    // permissions.defaultMode arrived with 1.0
+    minimum: '1.0.0',
+    ranges: [],
+  },
+  codex: {
+    // sandbox_mode replaced sandbox_permissions in 0.13
+    minimum: '0.13.0',
+    ranges: [{ until: '0.26.0', yoloFlag: '--dangerously-bypass-approvals-and-sandbox' }],
+  },
+  gemini: {
+    minimum: '0.1.0',
+    // Settings were flat until the nested v2 layout in 0.3
+    ranges: [{ until: '0.3.0', yoloSettings: [{ path: ['autoAccept'], value: true }] }],
+  },
+  aider: {
+    minimum: '0.50.0',
+    ranges: [
+      {
+        until: '0.59.0',
+        yoloFlag: '--yes',
+        yoloSettings: [
+          { path: ['yes'], value: true },
+          { path: ['auto-commits'], value: true },
+        ],
+      },
+    ],
+  },
+};
+
+export interface VersionedDefinition {
+  /** The definition with flags and config keys for the installed version */
+  definition: AgentDefinition;
+  version: SemVer | null;
+  /** Set when the installed version predates the oldest supported one */
+  warning?: string;
+}
+
+/**
+ * Pick flags and config keys for an installed version. Versions that can't be
+ * parsed get the current settings, since that's the likeliest install.
+ */
+export function resolveForVersion(def: AgentDefinition, rawVersion: string | null | undefined): VersionedDefinition {
+  const version = parseVersion(rawVersion);
+  const table = AGENT_VERSION_TABLE[def.type];
+  if (!version || !table) return { definition: def, version };
+
+  const override = table.ranges.find((range) => inRange(version, range));
+  const definition: AgentDefinition = override
+    ? {
+      ...def,
+      ...(override.yoloFlag !== undefined ? { yoloFlag: override.yoloFlag } : {}),
+      ...(override.yoloSettings !== undefined ? { yoloSettings: override.yoloSettings } : {}),
+    }
+    : def;
+
+  const tooOld = compareVersions(version, requireVersion(table.minimum)) < 0;
+  return {
+    definition,
+    version,
+    ...(tooOld
+      ? {
+        warning: `${def.displayName} ${formatVersion(version)} is older than the oldest supported version (${table.minimum}); settings may be ignored. Upgrade with: ${def.installCommand}`,
+      }
+      : {}),
+  };
+}
+
+/**
+ * Every config setting any supported release uses, so disable can clean up
+ * whichever ones an earlier enable wrote.
+ */
+export function getAllYoloSettings(def: AgentDefinition): YoloSetting[] {
+  const all = [...(def.yoloSettings ?? []), ...(AGENT_VERSION_TABLE[def.type]?.ranges ?? []).flatMap((range) => range.yoloSettings ?? [])];
+  return all.filter((setting, i) => all.findIndex((other) => other.path.join('.') === setting.path.join('.')) === i);
+}
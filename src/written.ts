@@ -0,0 +1,100 @@
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { isFileNotFoundError, withFileLock, writeFileAtomic } from './fs-utils.js';
+import type { WrittenScalar, WrittenValue } from './types.js';
+
+/**
+ * Config values letsyolo has written, so `disable` can tell them apart from
+ * the same values set by hand.
+ */
+export const WRITTEN_FILE = path.join(os.homedir(), '.letsyolo', 'written.json');
+
+interface WrittenFile {
+  values: WrittenValue[];
+}
+
+function isScalar(value: unknown): value is WrittenScalar {
+  return typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean';
+}
+
+function isWrittenValue(value: unknown): value is WrittenValue {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return false;
+  const entry = value as Record<string, unknown>;
+  return (
+    typeof entry.file === 'string' &&
+    Array.isArray(entry.path) &&
+    entry.path.every((key) => typeof key === 'string') &&
+    isScalar(entry.value) &&
+    (entry.previous === undefined || isScalar(entry.previous))
+  );
+}
+
+function sameKey(entry: WrittenValue, file: string, keyPath: string[]): boolean {
+  return entry.file === file && entry.path.length === keyPath.length && entry.path.every((key, i) => key === keyPath[i]);
+}
+
+async function readWrittenFile(): Promise<WrittenFile> {
+  try {
+    const parsed: unknown = JSON.parse(await fs.readFile(WRITTEN_FILE, 'utf-8'));
+    const values = parsed && typeof parsed === 'object' ? (parsed as Record<string, unknown>).values : undefined;
+    return { values: Array.isArray(values) ? values.filter(isWrittenValue) : [] };
+  } catch (error) {
+    if (isFileNotFoundError(error)) return { values: [] };
+    if (error instanceof SyntaxError) {
+      throw new Error(`Invalid JSON in ${WRITTEN_FILE}: ${error.message}`);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Read-modify-write the record under a lock; `enable` for every agent
+ * records values for several configs at once.
+ */
+async function updateWrittenFile(update: (values: WrittenValue[]) => WrittenValue[] | null): Promise<void> {
+  await fs.mkdir(path.dirname(WRITTEN_FILE), { recursive: true });
+  await withFileLock(WRITTEN_FILE, async () => {
+    const file = await readWrittenFile();
+    const values = update(file.values);
+    if (values === null) return;
+    if (values.length === 0) {
+      await fs.rm(WRITTEN_FILE, { force: true });
+      return;
+    }
+    await writeFileAtomic(WRITTEN_FILE, JSON.stringify({ values }, null, 2) + '\n');
+  });
+}
+
+/**
+ * The record for a key, if letsyolo wrote one.
+ */
+export async function findWrittenValue(file: string, keyPath: string[]): Promise<WrittenValue | undefined> {
+  const { values } = await readWrittenFile();
+  return values.find((entry) => sameKey(entry, file, keyPath));
+}
+
+/**
+ * Note that letsyolo set `keyPath` in `file` to `value`, replacing `current`.
+ * When `current` is itself a value letsyolo wrote, the value from before the
+ * first write is kept, so disable restores what the user had.
+ */
+export async function recordWrittenValue(file: string, keyPath: string[], value: WrittenScalar, current: unknown): Promise<void> {
+  await updateWrittenFile((values) => {
+    const existing = values.find((entry) => sameKey(entry, file, keyPath));
+    const previous = existing && existing.value === current ? existing.previous : current;
+    const entry: WrittenValue = { file, path: keyPath, value, ...(isScalar(previous) ? { previous } : {}) };
+    return [...values.filter((other) => other !== existing), entry];
+  });
+}
+
+/**
+ * Drop the record for a key once disable has dealt with it.
+ */
+export async function forgetWrittenValue(file: string, keyPath: string[]): Promise<void> {
+  if (!(await findWrittenValue(file, keyPath))) return;
+  await updateWrittenFile((values) => {
+    const remaining = values.filter((entry) => !sameKey(entry, file, keyPath));
+    return remaining.length === values.length ? null : remaining;
+  });
+}
@@ -0,0 +1,248 @@
+import { findMappingColon, parseYaml, parseYamlScalar, stripYamlComment } from './yaml.js';
+
+/**
+ * Surgical YAML editing in the spirit of toml-edit: only the entries being
+ * changed are rewritten, so comments, blank lines and key order survive.
+ *
+ * Edits are limited to block mappings (the shape of every agent config we
+ * manage). Sequences, flow collections and block scalars are carried along
+ * untouched as the values of their keys.
+ */
+
+export type YamlScalar = string | number | boolean;
+
+interface YamlEntry {
+  path: string[];
+  indent: number;
+  /** Key as written, including any quotes */
+  rawKey: string;
+  startLine: number;
+  /** Last line belonging to the entry (nested block, sequence or scalar) */
+  endLine: number;
+  /** Column span of a value written on the key's own line */
+  valueStart: number;
+  valueEnd: number;
+  /** Whether the value continues on the following lines */
+  hasBlock: boolean;
+}
+
+function detectEol(text: string): string {
+  return text.includes('\r\n') ? '\r\n' : '\n';
+}
+
+function contentOf(line: string): string {
+  return line.replace(/\r$/, '');
+}
+
+function indentOf(line: string): number {
+  return line.length - line.trimStart().length;
+}
+
+function isBlank(line: string): boolean {
+  return line.trim() === '';
+}
+
+function isComment(line: string): boolean {
+  return line.trim().startsWith('#');
+}
+
+function isSequenceItem(text: string): boolean {
+  const trimmed = text.trim();
+  return trimmed === '-' || trimmed.startsWith('- ');
+}
+
+/**
+ * Last line owned by an entry starting at `start`: deeper-indented lines,
+ * plus sequence items at the entry's own indentation.
+ */
+function findEntryEnd(lines: string[], start: number, indent: number, allowSequence: boolean): number {
+  let end = start;
+  for (let i = start + 1; i < lines.length; i += 1) {
+    const line = contentOf(lines[i]);
+    if (isBlank(line)) continue;
+    const lineIndent = indentOf(line);
+    if (lineIndent > indent || (allowSequence && lineIndent === indent && isSequenceItem(line))) {
+      end = i;
+      continue;
+    }
+    break;
+  }
+  return end;
+}
+
+function scanMapping(lines: string[], from: number, to: number, parentPath: string[], entries: YamlEntry[]): void {
+  let indent: number | undefined;
+
+  for (let i = from; i <= to; i += 1) {
+    const line = contentOf(lines[i]);
+    if (isBlank(line) || isComment(line) || line === '---' || line === '...') continue;
+
+    const lineIndent = indentOf(line);
+    indent ??= lineIndent;
+    if (lineIndent !== indent || isSequenceItem(line)) continue;
+
+    const text = stripYamlComment(line).trimStart();
+    const colon = findMappingColon(text);
+    if (colon === -1) continue;
+
+    const rawKey = text.slice(0, colon).trim();
+    const key = String(parseYamlScalar(rawKey, i + 1));
+    const afterColon = text.slice(colon + 1);
+    const inline = afterColon.trim();
+    const valueStart = lineIndent + colon + 1 + (afterColon.length - afterColon.trimStart().length);
+    const end = findEntryEnd(lines, i, lineIndent, inline === '');
+    const entry: YamlEntry = {
+      path: [...parentPath, key],
+      indent: lineIndent,
+      rawKey,
+      startLine: i,
+      endLine: end,
+      valueStart,
+      valueEnd: lineIndent + text.length,
+      hasBlock: end > i,
+    };
+    entries.push(entry);
+
+    // Only nested mappings are scanned further; anything else stays opaque.
+    if (inline === '' && end > i) {
+      const firstChild = lines.slice(i + 1, end + 1).map(contentOf).find((l) => !isBlank(l) && !isComment(l));
+      if (firstChild && !isSequenceItem(firstChild)) {
+        scanMapping(lines, i + 1, end, entry.path, entries);
+      }
+    }
+    i = end;
+  }
+}
+
+function scanEntries(lines: string[]): YamlEntry[] {
+  const entries: YamlEntry[] = [];
+  scanMapping(lines, 0, lines.length - 1, [], entries);
+  return entries;
+}
+
+function pathEquals(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((part, i) => part === b[i]);
+}
+
+/**
+ * Format a scalar so it reads back as the same value; strings are quoted
+ * only when a plain scalar would be misread.
+ */
+function formatYamlValue(value: YamlScalar): string {
+  if (typeof value !== 'string') return String(value);
+  const plainSafe = /^[A-Za-z0-9_./@(][A-Za-z0-9_ ./@()+-]*$/.test(value) && !value.endsWith(' ');
+  return plainSafe && parseYamlScalar(value) === value ? value : JSON.stringify(value);
+}
+
+function formatKey(key: string): string {
+  return /^[A-Za-z0-9_][A-Za-z0-9_.-]*$/.test(key) ? key : JSON.stringify(key);
+}
+
+/** Indentation step used by the document, defaulting to two spaces. */
+function detectIndentStep(entries: YamlEntry[]): number {
+  const nested = entries.find((entry) => entry.path.length > 1);
+  if (!nested) return 2;
+  const parent = entries.find((entry) => pathEquals(entry.path, nested.path.slice(0, -1)));
+  return parent ? Math.max(1, nested.indent - parent.indent) : 2;
+}
+
+function assertValidYaml(text: string): void {
+  try {
+    parseYaml(text);
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new Error(`Refusing to write YAML that no longer parses: ${reason}`);
+  }
+}
+
+/**
+ * Set a key to a scalar value, keeping the rest of the document untouched.
+ * Existing values are replaced in place (trailing comments survive); new keys
+ * go after the last entry of their mapping, creating parent mappings as needed.
+ */
+export function setYamlValue(text: string, path: string[], value: YamlScalar): string {
+  const eol = detectEol(text);
+  const cr = eol === '\r\n' ? '\r' : '';
+  const lines = text.split('\n');
+  const entries = scanEntries(lines);
+  const formatted = formatYamlValue(value);
+
+  const existing = entries.find((entry) => pathEquals(entry.path, path));
+  if (existing) {
+    const line = contentOf(lines[existing.startLine]);
+    if (existing.hasBlock) {
+      // A nested block or multi-line value gives way to the scalar.
+      const replacement = `${' '.repeat(existing.indent)}${existing.rawKey}: ${formatted}${cr}`;
+      lines.splice(existing.startLine, existing.endLine - existing.startLine + 1, replacement);
+    } else {
+      const head = line.slice(0, existing.valueStart);
+      const tail = line.slice(existing.valueEnd);
+      lines[existing.startLine] = `${head}${head.endsWith(' ') ? '' : ' '}${formatted}${tail}${cr}`;
+    }
+    const result = lines.join('\n');
+    assertValidYaml(result);
+    return result;
+  }
+
+  // Find the deepest ancestor that already exists.
+  let depth = path.length - 1;
+  let parent: YamlEntry | undefined;
+  while (depth > 0) {
+    parent = entries.find((entry) => pathEquals(entry.path, path.slice(0, depth)));
+    if (parent) break;
+    depth -= 1;
+  }
+
+  if (parent) {
+    const inline = contentOf(lines[parent.startLine]).slice(parent.valueStart, parent.valueEnd).trim();
+    if (inline !== '' && inline !== '~' && inline !== 'null') {
+      throw new Error(`Cannot set ${path.join('.')}: ${parent.path.join('.')} is not a mapping`);
+    }
+  }
+
+  const step = detectIndentStep(entries);
+  const children = parent ? entries.filter((entry) => pathEquals(entry.path.slice(0, -1), parent.path)) : [];
+  const baseIndent = children[0]?.indent ?? (parent ? parent.indent + step : 0);
+  const missing = path.slice(depth);
+  const addition = missing.map((key, i) => {
+    const indent = ' '.repeat(baseIndent + i * step);
+    return i === missing.length - 1 ? `${indent}${formatKey(key)}: ${formatted}${cr}` : `${indent}${formatKey(key)}:${cr}`;
+  });
+
+  if (parent) {
+    if (!parent.hasBlock) {
+      // `key:` / `key: ~` with nothing under it becomes a mapping.
+      const line = contentOf(lines[parent.startLine]);
+      lines[parent.startLine] = `${line.slice(0, parent.valueStart).trimEnd()}${line.slice(parent.valueEnd)}${cr}`;
+    }
+    lines.splice(parent.endLine + 1, 0, ...addition);
+  } else {
+    // Root level: after the last non-blank line.
+    let index = lines.length;
+    while (index > 0 && isBlank(lines[index - 1])) index -= 1;
+    if (index === lines.length) {
+      // The last line has no newline of its own.
+      const result = `${text}${eol}${addition.join('\n')}`;
+      assertValidYaml(result);
+      return result;
+    }
+    lines.splice(index, 0, ...addition);
+  }
+
+  const result = lines.join('\n');
+  assertValidYaml(result);
+  return result;
+}
+
+/**
+ * Remove a key together with everything nested under it. Returns the text
+ * unchanged when the key isn't present.
+ */
+export function removeYamlValue(text: string, path: string[]): string {
+  const lines = text.split('\n');
+  const existing = scanEntries(lines).find((entry) => pathEquals(entry.path, path));
+  if (!existing) return text;
+
+  lines.splice(existing.startLine, existing.endLine - existing.startLine + 1);
+  return lines.join('\n');
+}
@@ -0,0 +1,339 @@
+/**
+ * A small YAML reader covering what agent config and definition files use:
+ * block mappings and sequences, flow collections on a single line, quoted
+ * and plain scalars, literal/folded block scalars and comments.
+ * Anchors, aliases, tags and multi-document streams are rejected rather
+ * than silently misread.
+ */
+
+export type YamlValue = string | number | boolean | null | YamlValue[] | { [key: string]: YamlValue };
+
+interface YamlLine {
+  /** 1-based line number, for error messages */
+  number: number;
+  indent: number;
+  /** Content without indentation or trailing comment */
+  text: string;
+}
+
+function yamlError(line: number, message: string): Error {
+  return new Error(`YAML parse error at line ${line}: ${message}`);
+}
+
+/**
+ * Strip a trailing `# comment`, ignoring `#` inside quotes or glued to a word.
+ */
+export function stripYamlComment(text: string): string {
+  let quote: '"' | "'" | null = null;
+  for (let i = 0; i < text.length; i += 1) {
+    const ch = text[i];
+    if (quote) {
+      if (quote === '"' && ch === '\\') i += 1;
+      else if (ch === quote) quote = null;
+    } else if ((ch === '"' || ch === "'") && (i === 0 || /[\s:[{,-]/.test(text[i - 1]))) {
+      quote = ch;
+    } else if (ch === '#' && (i === 0 || /\s/.test(text[i - 1]))) {
+      return text.slice(0, i).trimEnd();
+    }
+  }
+  return text.trimEnd();
+}
+
+/**
+ * Find the `:` separating a mapping key from its value, or -1.
+ */
+export function findMappingColon(text: string): number {
+  let quote: '"' | "'" | null = null;
+  for (let i = 0; i < text.length; i += 1) {
+    const ch = text[i];
+    if (quote) {
+      if (quote === '"' && ch === '\\') i += 1;
+      else if (ch === quote) quote = null;
+    } else if ((ch === '"' || ch === "'") && i === 0) {
+      quote = ch;
+    } else if (ch === '[' || ch === '{') {
+      if (i === 0) return -1;
+    } else if (ch === ':' && (i + 1 === text.length || /\s/.test(text[i + 1]))) {
+      return i;
+    }
+  }
+  return -1;
+}
+
+function parseDoubleQuoted(raw: string, line: number): string {
+  let result = '';
+  for (let i = 1; i < raw.length - 1; i += 1) {
+    const ch = raw[i];
+    if (ch !== '\\') {
+      result += ch;
+      continue;
+    }
+    const next = raw[i + 1];
+    i += 1;
+    const escapes: Record<string, string> = { n: '\n', t: '\t', r: '\r', '"': '"', '\\': '\\', '/': '/', '0': '\0', ' ': ' ' };
+    if (next in escapes) {
+      result += escapes[next];
+    } else if (next === 'u' || next === 'x') {
+      const length = next === 'u' ? 4 : 2;
+      const hex = raw.slice(i + 1, i + 1 + length);
+      if (!/^[0-9a-fA-F]+$/.test(hex) || hex.length !== length) throw yamlError(line, `bad escape \\${next}${hex}`);
+      result += String.fromCharCode(parseInt(hex, 16));
+      i += length;
+    } else {
+      throw yamlError(line, `unknown escape \\${next}`);
+    }
+  }
+  return result;
+}
+
+/**
+ * Parse a single-line scalar: quoted strings, booleans, null, numbers or plain text.
+ */
+export function parseYamlScalar(raw: string, line = 0): YamlValue {
+  const text = raw.trim();
+  if (text.startsWith('"')) {
+    if (text.length < 2 || !text.endsWith('"')) throw yamlError(line, 'unterminated double-quoted string');
+    return parseDoubleQuoted(text, line);
+  }
+  if (text.startsWith("'")) {
+    if (text.length < 2 || !text.endsWith("'")) throw yamlError(line, 'unterminated single-quoted string');
+    return text.slice(1, -1).replace(/''/g, "'");
+  }
+  if (text.startsWith('&') || text.startsWith('*') || text.startsWith('!')) {
+    throw yamlError(line, 'anchors, aliases and tags are not supported');
+  }
+  if (text === '' || text === '~' || /^null$/i.test(text)) return null;
+  if (/^(true|false)$/i.test(text)) return text.toLowerCase() === 'true';
+  if (/^[-+]?\d+$/.test(text)) return Number(text);
+  if (/^0x[0-9a-fA-F]+$/.test(text)) return parseInt(text.slice(2), 16);
+  if (/^[-+]?(\d+\.\d*|\.\d+|\d+)([eE][-+]?\d+)?$/.test(text)) return Number(text);
+  if (/^[-+]?\.inf$/i.test(text)) return text.startsWith('-') ? -Infinity : Infinity;
+  if (/^\.nan$/i.test(text)) return NaN;
+  return text;
+}
+
+/**
+ * Parse a single-line flow collection such as `[a, "b", {c: 1}]`.
+ */
+function parseFlow(text: string, line: number): YamlValue {
+  let pos = 0;
+
+  const skipSpace = (): void => {
+    while (pos < text.length && /\s/.test(text[pos])) pos += 1;
+  };
+
+  const readScalar = (terminators: string): string => {
+    const start = pos;
+    if (text[pos] === '"' || text[pos] === "'") {
+      const quote = text[pos];
+      pos += 1;
+      while (pos < text.length && text[pos] !== quote) {
+        if (quote === '"' && text[pos] === '\\') pos += 1;
+        else if (quote === "'" && text[pos] === "'" && text[pos + 1] === "'") pos += 1;
+        pos += 1;
+      }
+      pos += 1;
+      return text.slice(start, pos);
+    }
+    while (pos < text.length && !terminators.includes(text[pos])) {
+      if (text[pos] === ':' && terminators.includes(':') && /[\s,}\]]/.test(text[pos + 1] ?? ' ')) break;
+      pos += 1;
+    }
+    return text.slice(start, pos);
+  };
+
+  const readValue = (terminators: string): YamlValue => {
+    skipSpace();
+    if (text[pos] === '[') return readSequence();
+    if (text[pos] === '{') return readMapping();
+    return parseYamlScalar(readScalar(terminators), line);
+  };
+
+  const readSequence = (): YamlValue[] => {
+    pos += 1;
+    const items: YamlValue[] = [];
+    skipSpace();
+    while (text[pos] !== ']') {
+      if (pos >= text.length) throw yamlError(line, 'unterminated flow sequence');
+      items.push(readValue(',]'));
+      skipSpace();
+      if (text[pos] === ',') pos += 1;
+      skipSpace();
+    }
+    pos += 1;
+    return items;
+  };
+
+  const readMapping = (): { [key: string]: YamlValue } => {
+    pos += 1;
+    const result: { [key: string]: YamlValue } = {};
+    skipSpace();
+    while (text[pos] !== '}') {
+      if (pos >= text.length) throw yamlError(line, 'unterminated flow mapping');
+      const key = parseYamlScalar(readScalar(':,}'), line);
+      skipSpace();
+      let value: YamlValue = null;
+      if (text[pos] === ':') {
+        pos += 1;
+        value = readValue(',}');
+      }
+      result[String(key)] = value;
+      skipSpace();
+      if (text[pos] === ',') pos += 1;
+      skipSpace();
+    }
+    pos += 1;
+    return result;
+  };
+
+  const value = readValue('');
+  skipSpace();
+  if (pos < text.length) throw yamlError(line, `unexpected text after flow collection: ${text.slice(pos)}`);
+  return value;
+}
+
+function parseInlineValue(raw: string, line: number): YamlValue {
+  const text = raw.trim();
+  if (text.startsWith('[') || text.startsWith('{')) return parseFlow(text, line);
+  return parseYamlScalar(text, line);
+}
+
+class YamlParser {
+  private index = 0;
+
+  constructor(
+    private readonly lines: YamlLine[],
+    private readonly rawLines: string[],
+  ) {}
+
+  parseDocument(): YamlValue {
+    if (this.lines.length === 0) return null;
+    const first = this.lines[0];
+    const value = this.parseNode(first.indent);
+    if (this.index < this.lines.length) {
+      const line = this.lines[this.index];
+      throw yamlError(line.number, `unexpected indentation: ${line.text}`);
+    }
+    return value;
+  }
+
+  private peek(): YamlLine | undefined {
+    return this.lines[this.index];
+  }
+
+  private parseNode(indent: number): YamlValue {
+    const line = this.peek();
+    if (!line) return null;
+    if (line.text === '-' || line.text.startsWith('- ')) return this.parseSequence(indent);
+    if (findMappingColon(line.text) !== -1) return this.parseMapping(indent);
+
+    this.index += 1;
+    return parseInlineValue(line.text, line.number);
+  }
+
+  private parseSequence(indent: number): YamlValue[] {
+    const items: YamlValue[] = [];
+    let line = this.peek();
+    while (line && line.indent === indent && (line.text === '-' || line.text.startsWith('- '))) {
+      const rest = line.text.slice(1).trimStart();
+      if (rest === '') {
+        this.index += 1;
+        const next = this.peek();
+        items.push(next && next.indent > indent ? this.parseNode(next.indent) : null);
+      } else {
+        // `- key: value` opens a mapping indented to where `key` starts.
+        const itemIndent = indent + (line.text.length - rest.length);
+        this.lines[this.index] = { ...line, indent: itemIndent, text: rest };
+        items.push(this.parseNode(itemIndent));
+      }
+      line = this.peek();
+    }
+    return items;
+  }
+
+  private parseMapping(indent: number): { [key: string]: YamlValue } {
+    const result: { [key: string]: YamlValue } = {};
+    let line = this.peek();
+    while (line && line.indent === indent) {
+      const colon = findMappingColon(line.text);
+      if (colon === -1) throw yamlError(line.number, `expected "key: value", got: ${line.text}`);
+
+      const key = String(parseYamlScalar(line.text.slice(0, colon), line.number));
+      if (Object.prototype.hasOwnProperty.call(result, key)) {
+        throw yamlError(line.number, `duplicate key: ${key}`);
+      }
+      const rest = line.text.slice(colon + 1).trim();
+      this.index += 1;
+
+      if (rest === '|' || rest === '>' || /^[|>][-+]?$/.test(rest)) {
+        result[key] = this.parseBlockScalar(rest, indent, line.number);
+      } else if (rest !== '') {
+        result[key] = parseInlineValue(rest, line.number);
+      } else {
+        const next = this.peek();
+        if (next && next.indent > indent) {
+          result[key] = this.parseNode(next.indent);
+        } else if (next && next.indent === indent && (next.text === '-' || next.text.startsWith('- '))) {
+          // Sequences may sit at the same indentation as their key.
+          result[key] = this.parseSequence(indent);
+        } else {
+          result[key] = null;
+        }
+      }
+      line = this.peek();
+    }
+    return result;
+  }
+
+  private parseBlockScalar(header: string, indent: number, headerLine: number): string {
+    const body: string[] = [];
+    // Block scalars keep comments and blank lines, so read the raw lines.
+    let rawIndex = headerLine;
+    let blockIndent: number | undefined;
+    while (rawIndex < this.rawLines.length) {
+      const raw = this.rawLines[rawIndex].replace(/\r$/, '');
+      const lineIndent = raw.length - raw.trimStart().length;
+      if (raw.trim() !== '') {
+        if (lineIndent <= indent) break;
+        blockIndent ??= lineIndent;
+        if (lineIndent < blockIndent) break;
+      }
+      body.push(raw.trim() === '' ? '' : raw.slice(blockIndent));
+      rawIndex += 1;
+    }
+    while (this.index < this.lines.length && this.lines[this.index].number <= rawIndex) this.index += 1;
+
+    while (body.length > 0 && body[body.length - 1] === '') body.pop();
+    const text = header.startsWith('|')
+      ? body.join('\n')
+      : body.reduce((acc, part, i) => (i === 0 ? part : part === '' || acc.endsWith('\n') ? `${acc}\n${part}` : `${acc} ${part}`), '');
+    if (header.endsWith('-')) return text;
+    return body.length > 0 ? `${text}\n` : '';
+  }
+}
+
+/**
+ * Parse a YAML document into plain values.
+ */
+export function parseYaml(text: string): YamlValue {
+  const rawLines = text.split('\n');
+  const lines: YamlLine[] = [];
+
+  rawLines.forEach((raw, index) => {
+    const content = raw.replace(/\r$/, '');
+    if (content.includes('\t') && /^\s*\t/.test(content)) {
+      throw yamlError(index + 1, 'tabs are not allowed for indentation');
+    }
+    const stripped = stripYamlComment(content);
+    if (stripped.trim() === '' || stripped === '---') return;
+    if (stripped === '...') return;
+    lines.push({ number: index + 1, indent: stripped.length - stripped.trimStart().length, text: stripped.trim() });
+  });
+
+  const docStarts = rawLines.filter((raw) => raw.replace(/\r$/, '') === '---').length;
+  if (docStarts > 1) {
+    throw new Error('YAML parse error: multiple documents are not supported');
+  }
+
+  return new YamlParser(lines, rawLines).parseDocument();
+}
@@ -1,9 +1,16 @@
-import { describe, it, expect } from 'vitest';
-import { AGENT_DEFINITIONS, getDefinition, getDefinitionOrThrow, parseAgentType } from '../src/agents.js';
+import { describe, it, expect, afterEach } from 'vitest';
+import {
+  AGENT_DEFINITIONS,
+  getAgentDefinitions,
+  getDefinition,
+  getDefinitionOrThrow,
+  parseAgentType,
+  registerAgentDefinitions,
+} from '../src/agents.js';
 
 describe('AGENT_DEFINITIONS', () => {
-  it('should define exactly 4 agents', () => {
-    expect(AGENT_DEFINITIONS).toHaveLength(4);
+  it('should define exactly 8 agents', () => {
+    expect(AGENT_DEFINITIONS).toHaveLength(8);
   });
 
   it('should have unique types', () => {
@@ -23,7 +30,7 @@ describe('AGENT_DEFINITIONS', () => {
       if (def.configPath !== undefined) {
         expect(def.configPath.length).toBeGreaterThan(0);
       }
-      expect(def.configFormat).toMatch(/^(json|toml|none)$/);
+      expect(def.configFormat).toMatch(/^(json|toml|yaml|none)$/);
     }
   });
 
@@ -46,6 +53,29 @@ describe('AGENT_DEFINITIONS', () => {
     expect(flags['codex']).toBe('--yolo');
     expect(flags['copilot']).toBe('--yolo');
     expect(flags['amplifier']).toBe('amplifier');
+    expect(flags['gemini']).toBe('--yolo');
+    expect(flags['aider']).toBe('--yes-always');
+    expect(flags['cursor-agent']).toBe('--force');
+  });
+
+  it('aider should manage yes-always in ~/.aider.conf.yml', () => {
+    const aider = AGENT_DEFINITIONS.find((d) => d.type === 'aider');
+    expect(aider?.configFormat).toBe('yaml');
+    expect(aider?.configPath).toMatch(/\.aider\.conf\.yml$/);
+    expect(aider?.yoloSettings).toContainEqual({ path: ['yes-always'], value: true });
+  });
+
+  it('claude-desktop should be detected by its config file', () => {
+    const desktop = AGENT_DEFINITIONS.find((d) => d.type === 'claude-desktop');
+    expect(desktop?.desktopApp).toBe(true);
+    expect(desktop?.configPath).toMatch(/Claude[\\/]claude_desktop_config\.json$/);
+  });
+
+  it('gemini should manage auto-approve in ~/.gemini/settings.json', () => {
+    const gemini = AGENT_DEFINITIONS.find((d) => d.type === 'gemini');
+    expect(gemini?.configPath).toMatch(/\.gemini[\\/]settings\.json$/);
+    expect(gemini?.persistentToggle).toBe(true);
+    expect(gemini?.yoloSettings).toEqual([{ path: ['tools', 'autoAccept'], value: true }]);
   });
 });
 
@@ -55,6 +85,7 @@ describe('getDefinition', () => {
     expect(getDefinition('codex')?.displayName).toBe('Codex');
     expect(getDefinition('copilot')?.displayName).toBe('GitHub Copilot');
     expect(getDefinition('amplifier')?.displayName).toBe('Amplifier');
+    expect(getDefinition('gemini')?.displayName).toBe('Gemini CLI');
   });
 
   it('should return undefined for unknown types', () => {
@@ -95,13 +126,62 @@ describe('parseAgentType', () => {
     expect(parseAgentType('AMPLIFIER')).toBe('amplifier');
   });
 
+  it('should parse gemini aliases', () => {
+    expect(parseAgentType('gemini')).toBe('gemini');
+    expect(parseAgentType('gemini-cli')).toBe('gemini');
+    expect(parseAgentType('Google-Gemini')).toBe('gemini');
+  });
+
+  it('should parse aider aliases', () => {
+    expect(parseAgentType('aider')).toBe('aider');
+    expect(parseAgentType('aider-chat')).toBe('aider');
+  });
+
+  it('should parse cursor aliases', () => {
+    expect(parseAgentType('cursor')).toBe('cursor-agent');
+    expect(parseAgentType('cursor-agent')).toBe('cursor-agent');
+    expect(parseAgentType('Cursor-CLI')).toBe('cursor-agent');
+  });
+
+  it('should parse claude desktop aliases', () => {
+    expect(parseAgentType('claude-desktop')).toBe('claude-desktop');
+    expect(parseAgentType('desktop')).toBe('claude-desktop');
+  });
+
   it('should return undefined for unknown inputs', () => {
     expect(parseAgentType('unknown')).toBeUndefined();
     expect(parseAgentType('')).toBeUndefined();
-    expect(parseAgentType('cursor')).toBeUndefined();
+    expect(parseAgentType('windsurf')).toBeUndefined();
   });
 
   it('should trim whitespace', () => {
     expect(parseAgentType('  claude  ')).toBe('claude-code');
   });
 });
+
+describe('registerAgentDefinitions', () => {
+  afterEach(() => {
+    registerAgentDefinitions([]);
+  });
+
+  it('should add user-defined agents after the built-in ones', () => {
+    registerAgentDefinitions([
+      {
+        type: 'goose',
+        displayName: 'Goose',
+        binaries: ['goose'],
+        versionFlag: '--version',
+        installCommand: 'brew install goose',
+        yoloFlag: '--yolo',
+        configFormat: 'none',
+        persistentToggle: false,
+        aliases: ['goose-cli'],
+      },
+    ]);
+
+    expect(getAgentDefinitions().map((d) => d.type)).toEqual([...AGENT_DEFINITIONS.map((d) => d.type), 'goose']);
+    expect(getDefinition('goose')?.displayName).toBe('Goose');
+    expect(parseAgentType('Goose-CLI')).toBe('goose');
+    expect(parseAgentType('claude')).toBe('claude-code');
+  });
+});
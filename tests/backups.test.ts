@@ -0,0 +1,163 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import {
+  createBackup,
+  listBackups,
+  restoreBackup,
+  MAX_BACKUPS_PER_AGENT,
+} from '../src/backups.js';
+
+let tmpDir: string;
+let backupsDir: string;
+
+beforeEach(async () => {
+  tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'letsyolo-backups-test-'));
+  backupsDir = path.join(tmpDir, 'backups');
+});
+
+afterEach(async () => {
+  await fs.rm(tmpDir, { recursive: true, force: true });
+});
+
+describe('createBackup', () => {
+  it('should snapshot an existing file under the agent directory', async () => {
+    const configPath = path.join(tmpDir, 'settings.json');
+    await fs.writeFile(configPath, '{ "hand": "tuned" }\n');
+
+    const backup = await createBackup('claude-code', configPath, backupsDir);
+
+    expect(backup.agent).toBe('claude-code');
+    expect(backup.existed).toBe(true);
+    expect(backup.source).toBe(configPath);
+    expect(path.dirname(backup.path)).toBe(path.join(backupsDir, 'claude-code'));
+    expect(backup.timestamp).toMatch(/^\d{4}-\d{2}-\d{2}T\d{2}-\d{2}-\d{2}-\d{3}Z/);
+  });
+
+  it('should record missing files', async () => {
+    const backup = await createBackup('codex', path.join(tmpDir, 'missing.toml'), backupsDir);
+    expect(backup.existed).toBe(false);
+  });
+
+  it('should write snapshots with owner-only permissions', async () => {
+    if (process.platform === 'win32') return;
+    const backup = await createBackup('codex', path.join(tmpDir, 'missing.toml'), backupsDir);
+    const stat = await fs.stat(backup.path);
+    expect(stat.mode & 0o777).toBe(0o600);
+  });
+
+  it('should keep distinct snapshots for rapid writes', async () => {
+    const configPath = path.join(tmpDir, 'config.toml');
+    const first = await createBackup('codex', configPath, backupsDir);
+    const second = await createBackup('codex', configPath, backupsDir);
+    expect(first.timestamp).not.toBe(second.timestamp);
+  });
+
+  it('should prune old snapshots beyond the retention limit', async () => {
+    const configPath = path.join(tmpDir, 'config.toml');
+    for (let i = 0; i < MAX_BACKUPS_PER_AGENT + 3; i += 1) {
+      await createBackup('codex', configPath, backupsDir);
+    }
+    const backups = await listBackups('codex', backupsDir);
+    expect(backups).toHaveLength(MAX_BACKUPS_PER_AGENT);
+  });
+});
+
+describe('listBackups', () => {
+  it('should return an empty list when no backups exist', async () => {
+    expect(await listBackups(undefined, backupsDir)).toEqual([]);
+    expect(await listBackups('claude-code', backupsDir)).toEqual([]);
+  });
+
+  it('should list newest first and filter by agent', async () => {
+    const configPath = path.join(tmpDir, 'settings.json');
+    const older = await createBackup('claude-code', configPath, backupsDir);
+    const newer = await createBackup('claude-code', configPath, backupsDir);
+    await createBackup('codex', path.join(tmpDir, 'config.toml'), backupsDir);
+
+    const claude = await listBackups('claude-code', backupsDir);
+    expect(claude.map((b) => b.timestamp)).toEqual([newer.timestamp, older.timestamp]);
+
+    const all = await listBackups(undefined, backupsDir);
+    expect(all).toHaveLength(3);
+  });
+
+  it('should skip files that are not backups', async () => {
+    await fs.mkdir(path.join(backupsDir, 'codex'), { recursive: true });
+    await fs.writeFile(path.join(backupsDir, 'codex', 'notes.json'), '{"foo": 1}');
+    expect(await listBackups('codex', backupsDir)).toEqual([]);
+  });
+});
+
+describe('restoreBackup', () => {
+  it('should restore the newest backup', async () => {
+    const configPath = path.join(tmpDir, 'settings.json');
+    await fs.writeFile(configPath, 'original\n');
+    await createBackup('claude-code', configPath, backupsDir);
+    await fs.writeFile(configPath, 'clobbered\n');
+
+    const { restored } = await restoreBackup('claude-code', undefined, backupsDir);
+
+    expect(restored.source).toBe(configPath);
+    expect(await fs.readFile(configPath, 'utf-8')).toBe('original\n');
+  });
+
+  it('should restore the backup matching --at', async () => {
+    const configPath = path.join(tmpDir, 'settings.json');
+    await fs.writeFile(configPath, 'first\n');
+    const first = await createBackup('claude-code', configPath, backupsDir);
+    await fs.writeFile(configPath, 'second\n');
+    await createBackup('claude-code', configPath, backupsDir);
+    await fs.writeFile(configPath, 'third\n');
+
+    await restoreBackup('claude-code', first.timestamp, backupsDir);
+    expect(await fs.readFile(configPath, 'utf-8')).toBe('first\n');
+  });
+
+  it('should snapshot the current file so the restore can be undone', async () => {
+    const configPath = path.join(tmpDir, 'settings.json');
+    await fs.writeFile(configPath, 'original\n');
+    await createBackup('claude-code', configPath, backupsDir);
+    await fs.writeFile(configPath, 'edited\n');
+
+    const { previous } = await restoreBackup('claude-code', undefined, backupsDir);
+    await restoreBackup('claude-code', previous.timestamp, backupsDir);
+
+    expect(await fs.readFile(configPath, 'utf-8')).toBe('edited\n');
+  });
+
+  it('should wait for another letsyolo run editing the file', async () => {
+    const configPath = path.join(tmpDir, 'settings.json');
+    await fs.writeFile(configPath, 'original\n');
+    await createBackup('claude-code', configPath, backupsDir);
+    await fs.writeFile(configPath, 'edited\n');
+    await fs.writeFile(`${configPath}.letsyolo.lock`, '1\n');
+
+    const restoring = restoreBackup('claude-code', undefined, backupsDir);
+    await new Promise((resolve) => setTimeout(resolve, 120));
+    expect(await fs.readFile(configPath, 'utf-8')).toBe('edited\n');
+
+    await fs.rm(`${configPath}.letsyolo.lock`);
+    await restoring;
+    expect(await fs.readFile(configPath, 'utf-8')).toBe('original\n');
+  });
+
+  it('should remove files that did not exist at backup time', async () => {
+    const configPath = path.join(tmpDir, 'config.toml');
+    await createBackup('codex', configPath, backupsDir);
+    await fs.writeFile(configPath, 'approval_policy = "never"\n');
+
+    await restoreBackup('codex', undefined, backupsDir);
+    await expect(fs.access(configPath)).rejects.toThrow();
+  });
+
+  it('should throw when no backups exist', async () => {
+    await expect(restoreBackup('codex', undefined, backupsDir)).rejects.toThrow('No backups found for codex');
+  });
+
+  it('should throw when --at matches nothing', async () => {
+    await createBackup('codex', path.join(tmpDir, 'config.toml'), backupsDir);
+    await expect(restoreBackup('codex', '1999', backupsDir)).rejects.toThrow('matches timestamp: 1999');
+  });
+});
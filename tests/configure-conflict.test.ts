@@ -0,0 +1,85 @@
+import { afterAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+
+// Point every config path at a throwaway home directory.
+import { tmpHome } from './helpers/tmp-home.js';
+
+const createBackupMock = vi.fn();
+const beforeWriteMock = vi.fn();
+
+vi.mock('../src/detect.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../src/detect.js')>()),
+  detectBinary: vi.fn().mockResolvedValue({ found: true, path: '/usr/local/bin/claude', version: '1.0.0' }),
+}));
+
+// Backups run between reading and writing the config, which makes them a
+// convenient place to play "the agent saved its settings just now".
+vi.mock('../src/backups.js', () => ({ createBackup: createBackupMock }));
+
+// Only the first attempt backs up, so repeated saves hook the write itself.
+vi.mock('../src/fs-utils.js', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../src/fs-utils.js')>();
+  return {
+    ...actual,
+    writeFileAtomic: async (...args: Parameters<typeof actual.writeFileAtomic>) => {
+      await beforeWriteMock(args[0]);
+      return actual.writeFileAtomic(...args);
+    },
+  };
+});
+
+afterAll(async () => {
+  await fs.rm(tmpHome, { recursive: true, force: true });
+});
+
+describe('concurrent config edits', () => {
+  const claudeSettings = path.join(tmpHome, '.claude', 'settings.json');
+
+  beforeEach(async () => {
+    createBackupMock.mockReset();
+    beforeWriteMock.mockReset();
+    await fs.rm(path.join(tmpHome, '.claude'), { recursive: true, force: true });
+    await fs.mkdir(path.dirname(claudeSettings), { recursive: true });
+    await fs.writeFile(claudeSettings, JSON.stringify({ model: 'sonnet' }));
+  });
+
+  it('redoes the edit on top of a change made mid-write', async () => {
+    createBackupMock.mockImplementationOnce(async () => {
+      await fs.writeFile(claudeSettings, JSON.stringify({ model: 'opus', theme: 'dark' }));
+    });
+    const { enableYolo } = await import('../src/configure.js');
+
+    const result = await enableYolo('claude-code');
+    expect(result.success).toBe(true);
+    // The retry writes on top of the new content without a second backup.
+    expect(createBackupMock).toHaveBeenCalledTimes(1);
+    expect(JSON.parse(await fs.readFile(claudeSettings, 'utf-8'))).toEqual({
+      model: 'opus',
+      theme: 'dark',
+      permissions: { defaultMode: 'bypassPermissions' },
+    });
+    expect(await fs.readdir(path.dirname(claudeSettings))).toEqual(['settings.json']);
+  });
+
+  it('gives up with a clear error when the file keeps changing', async () => {
+    let saves = 0;
+    beforeWriteMock.mockImplementation(async (filePath: string) => {
+      if (filePath !== claudeSettings) return;
+      saves += 1;
+      await fs.writeFile(claudeSettings, JSON.stringify({ model: 'sonnet', saves }));
+    });
+    const { disableYolo, enableYolo } = await import('../src/configure.js');
+
+    const result = await enableYolo('claude-code');
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('kept changing while letsyolo was updating it');
+    expect(createBackupMock).toHaveBeenCalledTimes(1);
+    expect(JSON.parse(await fs.readFile(claudeSettings, 'utf-8'))).toEqual({ model: 'sonnet', saves: 3 });
+
+    beforeWriteMock.mockReset();
+    await fs.writeFile(claudeSettings, JSON.stringify({ permissions: { defaultMode: 'plan' } }));
+    expect((await disableYolo('claude-code')).success).toBe(true);
+    expect(await fs.readdir(path.dirname(claudeSettings))).toEqual(['settings.json']);
+  });
+});
@@ -1,11 +1,21 @@
-import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { afterAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+
+// Point every config path at a throwaway home directory.
+import { tmpHome } from './helpers/tmp-home.js';
 
 const detectBinaryMock = vi.fn();
 
-vi.mock('../src/detect.js', () => ({
+vi.mock('../src/detect.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../src/detect.js')>()),
   detectBinary: detectBinaryMock,
 }));
 
+afterAll(async () => {
+  await fs.rm(tmpHome, { recursive: true, force: true });
+});
+
 describe('yolo config metadata', () => {
   beforeEach(() => {
     detectBinaryMock.mockReset();
@@ -36,3 +46,688 @@ describe('yolo config metadata', () => {
     expect(result.config?.details).toContain('No persistent yolo toggle exists for Amplifier');
   });
 });
+
+describe('dry run', () => {
+  const claudeSettings = path.join(tmpHome, '.claude', 'settings.json');
+
+  beforeEach(async () => {
+    detectBinaryMock.mockReset();
+    detectBinaryMock.mockResolvedValue({ found: true, path: '/usr/local/bin/claude', version: '1.0.0' });
+    await fs.rm(path.join(tmpHome, '.claude'), { recursive: true, force: true });
+    await fs.rm(path.join(tmpHome, '.letsyolo'), { recursive: true, force: true });
+  });
+
+  it('computes the change without writing the config file', async () => {
+    const original = '{\n  "model": "opus"\n}\n';
+    await fs.mkdir(path.dirname(claudeSettings), { recursive: true });
+    await fs.writeFile(claudeSettings, original);
+    const { enableYolo } = await import('../src/configure.js');
+
+    const result = await enableYolo('claude-code', { dryRun: true });
+
+    expect(result.success).toBe(true);
+    expect(result.dryRun).toBe(true);
+    expect(result.changes).toHaveLength(1);
+    expect(result.changes?.[0].before).toBe(original);
+    expect(result.changes?.[0].after).toContain('"defaultMode": "bypassPermissions"');
+    expect(result.changes?.[0].patch).toContain('+  "permissions": {');
+    expect(await fs.readFile(claudeSettings, 'utf-8')).toBe(original);
+  });
+
+  it('does not take backups', async () => {
+    const { disableYolo } = await import('../src/configure.js');
+    await fs.mkdir(path.dirname(claudeSettings), { recursive: true });
+    await fs.writeFile(claudeSettings, '{"permissions": {"defaultMode": "bypassPermissions"}}');
+
+    const result = await disableYolo('claude-code', { dryRun: true });
+
+    expect(result.changes?.[0].after).toBe('{}\n');
+    await expect(fs.access(path.join(tmpHome, '.letsyolo', 'backups'))).rejects.toThrow();
+  });
+
+  it('writes and backs up when not a dry run', async () => {
+    const { enableYolo } = await import('../src/configure.js');
+
+    const result = await enableYolo('claude-code');
+
+    expect(result.dryRun).toBeUndefined();
+    expect(result.changes).toBeUndefined();
+    expect(await fs.readFile(claudeSettings, 'utf-8')).toContain('bypassPermissions');
+    const backups = await fs.readdir(path.join(tmpHome, '.letsyolo', 'backups', 'claude-code'));
+    expect(backups).toHaveLength(1);
+  });
+});
+
+describe('codex config editing', () => {
+  const codexConfig = path.join(tmpHome, '.codex', 'config.toml');
+  const original = '# my notes\nmodel = "o3" # fast\n\n[mcp_servers.docs]\ncommand = "npx"\n';
+
+  beforeEach(async () => {
+    detectBinaryMock.mockReset();
+    detectBinaryMock.mockResolvedValue({ found: true, path: '/usr/local/bin/codex', version: '1.0.0' });
+    await fs.mkdir(path.dirname(codexConfig), { recursive: true });
+    await fs.writeFile(codexConfig, original);
+  });
+
+  it('enable and disable leave the rest of config.toml byte-for-byte intact', async () => {
+    const { disableYolo, enableYolo } = await import('../src/configure.js');
+
+    await enableYolo('codex');
+    expect(await fs.readFile(codexConfig, 'utf-8')).toBe(
+      '# my notes\nmodel = "o3" # fast\napproval_policy = "never"\nsandbox_mode = "danger-full-access"\n\n[mcp_servers.docs]\ncommand = "npx"\n',
+    );
+
+    await disableYolo('codex');
+    expect(await fs.readFile(codexConfig, 'utf-8')).toBe(original);
+  });
+});
+
+describe('claude project scope', () => {
+  const projectDir = path.join(tmpHome, 'scratch-repo');
+  const localSettings = path.join(projectDir, '.claude', 'settings.local.json');
+  const globalSettings = path.join(tmpHome, '.claude', 'settings.json');
+
+  beforeEach(async () => {
+    detectBinaryMock.mockReset();
+    detectBinaryMock.mockResolvedValue({ found: true, path: '/usr/local/bin/claude', version: '1.0.0' });
+    await fs.rm(projectDir, { recursive: true, force: true });
+    await fs.rm(path.join(tmpHome, '.claude'), { recursive: true, force: true });
+  });
+
+  it('writes defaultMode and rules to settings.local.json only', async () => {
+    const { enableYolo } = await import('../src/configure.js');
+
+    const result = await enableYolo('claude-code', {
+      projectDir,
+      allow: ['Bash(npm:*)'],
+      deny: ['Bash(sudo:*)'],
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.config?.configPath).toBe(localSettings);
+    const written = JSON.parse(await fs.readFile(localSettings, 'utf-8'));
+    expect(written.permissions).toEqual({
+      defaultMode: 'bypassPermissions',
+      allow: ['Bash(npm:*)'],
+      deny: ['Bash(sudo:*)'],
+    });
+    await expect(fs.access(globalSettings)).rejects.toThrow();
+  });
+
+  it('does not duplicate existing rules', async () => {
+    await fs.mkdir(path.dirname(localSettings), { recursive: true });
+    await fs.writeFile(localSettings, JSON.stringify({ permissions: { allow: ['Edit'] } }));
+    const { enableYolo } = await import('../src/configure.js');
+
+    await enableYolo('claude-code', { projectDir, allow: ['Edit', 'Read'] });
+
+    const written = JSON.parse(await fs.readFile(localSettings, 'utf-8'));
+    expect(written.permissions.allow).toEqual(['Edit', 'Read']);
+  });
+
+  it('disable --project undoes the project settings', async () => {
+    const { disableYolo, enableYolo } = await import('../src/configure.js');
+    await enableYolo('claude-code', { projectDir, allow: ['Bash(npm:*)'] });
+
+    const result = await disableYolo('claude-code', { projectDir, allow: ['Bash(npm:*)'] });
+
+    expect(result.config?.details).toBe('Removed permissions.defaultMode, removed 1 allow rule(s)');
+    expect(JSON.parse(await fs.readFile(localSettings, 'utf-8'))).toEqual({});
+  });
+
+  it('status reports project state next to the global one', async () => {
+    const { checkYoloStatus, enableYolo } = await import('../src/configure.js');
+    await enableYolo('claude-code', { projectDir });
+
+    const status = await checkYoloStatus({ projectDir });
+    const claude = status.find((entry) => entry.type === 'claude-code');
+
+    expect(claude?.config?.enabled).toBe(false);
+    expect(claude?.config?.project).toEqual({
+      configPath: localSettings,
+      enabled: true,
+      level: 'full-bypass',
+      details: 'permissions.defaultMode = "bypassPermissions"',
+    });
+  });
+
+  it('rejects project scope for other agents', async () => {
+    const { enableYolo } = await import('../src/configure.js');
+    const result = await enableYolo('codex', { projectDir });
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('does not support project-scoped settings');
+  });
+});
+
+describe('codex profiles', () => {
+  const codexConfig = path.join(tmpHome, '.codex', 'config.toml');
+  const original = 'model = "o3"\n\n[profiles.deep]\nmodel = "o3-pro"\n';
+
+  beforeEach(async () => {
+    detectBinaryMock.mockReset();
+    detectBinaryMock.mockResolvedValue({ found: true, path: '/usr/local/bin/codex', version: '1.0.0' });
+    await fs.rm(path.join(tmpHome, '.letsyolo'), { recursive: true, force: true });
+    await fs.mkdir(path.dirname(codexConfig), { recursive: true });
+    await fs.writeFile(codexConfig, original);
+  });
+
+  it('enable --profile writes a profile table and leaves the defaults safe', async () => {
+    const { enableYolo } = await import('../src/configure.js');
+
+    const result = await enableYolo('codex', { profile: 'yolo' });
+
+    expect(result.config?.profile).toBe('yolo');
+    expect(await fs.readFile(codexConfig, 'utf-8')).toBe(
+      `${original}\n[profiles.yolo]\napproval_policy = "never"\nsandbox_mode = "danger-full-access"\n`,
+    );
+  });
+
+  it('disable --profile removes the table it created and a default pointing at it', async () => {
+    const { disableYolo, enableYolo } = await import('../src/configure.js');
+    await enableYolo('codex', { profile: 'yolo' });
+    await fs.writeFile(codexConfig, `profile = "yolo"\n${await fs.readFile(codexConfig, 'utf-8')}`);
+
+    const result = await disableYolo('codex', { profile: 'yolo' });
+
+    expect(result.config?.details).toBe(
+      'Removed profiles.yolo.approval_policy, removed profiles.yolo.sandbox_mode, removed [profiles.yolo]',
+    );
+    expect(await fs.readFile(codexConfig, 'utf-8')).toBe(original);
+  });
+
+  it('disable --profile keeps a profile the user wrote', async () => {
+    const existing = `# mine\nprofile = "fast"\n${original}\n[profiles.fast]\nmodel = "gpt-5-mini"\nmodel_reasoning_effort = "low"\n`;
+    await fs.writeFile(codexConfig, existing);
+    const { disableYolo, enableYolo } = await import('../src/configure.js');
+
+    await enableYolo('codex', { profile: 'fast' });
+    await disableYolo('codex', { profile: 'fast' });
+    expect(await fs.readFile(codexConfig, 'utf-8')).toBe(existing);
+
+    // Bypass values in a hand-written table go, but the table and the default stay.
+    await fs.writeFile(codexConfig, `profile = "yolo"\n[profiles.yolo]\napproval_policy = "never"\nsandbox_mode = "danger-full-access"\n`);
+    await disableYolo('codex', { profile: 'yolo' });
+    expect(await fs.readFile(codexConfig, 'utf-8')).toBe('profile = "yolo"\n[profiles.yolo]\n');
+  });
+
+  it('status lists autonomous profiles and the default profile', async () => {
+    await fs.writeFile(
+      codexConfig,
+      `profile = "deep"\n${original}\n[profiles.yolo]\napproval_policy = "never"\nsandbox_mode = "danger-full-access"\n`,
+    );
+    const { checkYoloStatus } = await import('../src/configure.js');
+
+    const status = await checkYoloStatus();
+    const codex = status.find((entry) => entry.type === 'codex');
+
+    expect(codex?.config?.enabled).toBe(false);
+    expect(codex?.config?.profiles).toEqual([
+      { name: 'deep', enabled: false, level: null, isDefault: true },
+      { name: 'yolo', enabled: true, level: 'full-bypass', isDefault: false },
+    ]);
+    expect(codex?.config?.details).toBe('Default approval policy; default profile "deep"; profiles: yolo (full-bypass)');
+  });
+
+  it('reports yolo mode when the default profile is autonomous', async () => {
+    await fs.writeFile(
+      codexConfig,
+      'profile = "yolo"\n\n[profiles.yolo]\napproval_policy = "never"\nsandbox_mode = "danger-full-access"\n',
+    );
+    const { checkYoloStatus } = await import('../src/configure.js');
+
+    const codex = (await checkYoloStatus()).find((entry) => entry.type === 'codex');
+    expect(codex?.config?.enabled).toBe(true);
+  });
+
+  it('rejects profiles for other agents', async () => {
+    const { enableYolo } = await import('../src/configure.js');
+    const result = await enableYolo('claude-code', { profile: 'yolo' });
+    expect(result.error).toBe('Claude Code does not support profiles');
+  });
+});
+
+describe('autonomy levels', () => {
+  const claudeSettings = path.join(tmpHome, '.claude', 'settings.json');
+  const codexConfig = path.join(tmpHome, '.codex', 'config.toml');
+
+  beforeEach(async () => {
+    detectBinaryMock.mockReset();
+    detectBinaryMock.mockResolvedValue({ found: true, path: '/usr/local/bin/agent', version: '1.0.0' });
+    await fs.rm(path.join(tmpHome, '.claude'), { recursive: true, force: true });
+    await fs.rm(path.join(tmpHome, '.codex'), { recursive: true, force: true });
+    await fs.rm(path.join(tmpHome, '.letsyolo'), { recursive: true, force: true });
+  });
+
+  it('writes the Claude Code permission mode for the level', async () => {
+    const { checkYoloStatus, enableYolo } = await import('../src/configure.js');
+
+    const result = await enableYolo('claude-code', { level: 'accept-edits' });
+    expect(result.config?.level).toBe('accept-edits');
+    expect(result.config?.enabled).toBe(false);
+
+    const settings = JSON.parse(await fs.readFile(claudeSettings, 'utf-8'));
+    expect(settings.permissions.defaultMode).toBe('acceptEdits');
+
+    const claude = (await checkYoloStatus()).find((entry) => entry.type === 'claude-code');
+    expect(claude?.config?.level).toBe('accept-edits');
+    expect(claude?.config?.details).toBe('permissions.defaultMode = "acceptEdits"');
+  });
+
+  it('warns that sandboxed-auto denies unapproved tools on Claude Code', async () => {
+    const { enableYolo } = await import('../src/configure.js');
+    const result = await enableYolo('claude-code', { level: 'sandboxed-auto', dryRun: true });
+    expect(result.config?.details).toBe(
+      'Set permissions.defaultMode = "dontAsk", tools not pre-approved are denied, not run (add them with --allow)',
+    );
+  });
+
+  it('writes the Codex approval and sandbox pair for the level', async () => {
+    const { checkYoloStatus, disableYolo, enableYolo } = await import('../src/configure.js');
+
+    await enableYolo('codex', { level: 'sandboxed-auto' });
+    expect(await fs.readFile(codexConfig, 'utf-8')).toBe(
+      'approval_policy = "on-request"\nsandbox_mode = "workspace-write"\n',
+    );
+
+    const codex = (await checkYoloStatus()).find((entry) => entry.type === 'codex');
+    expect(codex?.config?.level).toBe('sandboxed-auto');
+    expect(codex?.config?.enabled).toBe(false);
+
+    await disableYolo('codex');
+    expect(await fs.readFile(codexConfig, 'utf-8')).toBe('');
+  });
+
+  it('leaves unrecognised Codex settings alone on disable', async () => {
+    await fs.mkdir(path.dirname(codexConfig), { recursive: true });
+    await fs.writeFile(codexConfig, 'approval_policy = "on-failure"\nsandbox_mode = "workspace-write"\n');
+    const { disableYolo } = await import('../src/configure.js');
+
+    await disableYolo('codex');
+    expect(await fs.readFile(codexConfig, 'utf-8')).toBe(
+      'approval_policy = "on-failure"\nsandbox_mode = "workspace-write"\n',
+    );
+  });
+
+  it('leaves levels the user set by hand alone on disable', async () => {
+    await fs.mkdir(path.dirname(codexConfig), { recursive: true });
+    await fs.writeFile(codexConfig, 'approval_policy = "on-request"\nsandbox_mode = "workspace-write"\n');
+    await fs.mkdir(path.dirname(claudeSettings), { recursive: true });
+    await fs.writeFile(claudeSettings, '{"permissions": {"defaultMode": "plan"}}');
+    const { disableAll } = await import('../src/configure.js');
+
+    await disableAll();
+    expect(await fs.readFile(codexConfig, 'utf-8')).toBe('approval_policy = "on-request"\nsandbox_mode = "workspace-write"\n');
+    expect(JSON.parse(await fs.readFile(claudeSettings, 'utf-8'))).toEqual({ permissions: { defaultMode: 'plan' } });
+  });
+
+  it('puts back the values enable replaced', async () => {
+    await fs.mkdir(path.dirname(codexConfig), { recursive: true });
+    await fs.writeFile(codexConfig, 'sandbox_mode = "workspace-write"\n');
+    await fs.mkdir(path.dirname(claudeSettings), { recursive: true });
+    await fs.writeFile(claudeSettings, '{"permissions": {"defaultMode": "plan"}}');
+    const { disableYolo, enableYolo } = await import('../src/configure.js');
+
+    await enableYolo('codex', { level: 'accept-edits' });
+    await enableYolo('codex');
+    await enableYolo('claude-code');
+    expect((await disableYolo('codex')).config?.details).toBe('Removed approval_policy, restored sandbox_mode = "workspace-write"');
+    expect(await disableYolo('claude-code')).toMatchObject({ config: { details: 'Restored permissions.defaultMode = "plan"' } });
+
+    expect(await fs.readFile(codexConfig, 'utf-8')).toBe('sandbox_mode = "workspace-write"\n');
+    expect(JSON.parse(await fs.readFile(claudeSettings, 'utf-8'))).toEqual({ permissions: { defaultMode: 'plan' } });
+    await expect(fs.access(path.join(tmpHome, '.letsyolo', 'written.json'))).rejects.toThrow();
+  });
+
+  it('rejects partial levels for session-only agents', async () => {
+    const { enableYolo } = await import('../src/configure.js');
+    const result = await enableYolo('copilot', { level: 'plan' });
+    expect(result.error).toBe('GitHub Copilot only supports the full-bypass level');
+  });
+});
+
+describe('user-defined agents', () => {
+  const gooseJson = path.join(tmpHome, '.config', 'goose', 'config.json');
+  const crushToml = path.join(tmpHome, '.config', 'crush', 'config.toml');
+
+  beforeEach(async () => {
+    detectBinaryMock.mockReset();
+    detectBinaryMock.mockResolvedValue({ found: true, path: '/usr/local/bin/agent', version: '1.0.0' });
+    await fs.rm(path.join(tmpHome, '.config'), { recursive: true, force: true });
+
+    const { registerAgentDefinitions } = await import('../src/agents.js');
+    const base = { versionFlag: '--version', installCommand: 'n/a', yoloFlag: '--yolo', persistentToggle: true, source: 'test' };
+    registerAgentDefinitions([
+      {
+        ...base,
+        type: 'goose',
+        displayName: 'Goose',
+        binaries: ['goose'],
+        configPath: gooseJson,
+        configFormat: 'json',
+        yoloSettings: [{ path: ['permissions', 'mode'], value: 'auto' }],
+      },
+      {
+        ...base,
+        type: 'crush',
+        displayName: 'Crush',
+        binaries: ['crush'],
+        configPath: crushToml,
+        configFormat: 'toml',
+        yoloSettings: [{ path: ['permissions', 'skip_requests'], value: true }],
+      },
+    ]);
+  });
+
+  afterAll(async () => {
+    const { registerAgentDefinitions } = await import('../src/agents.js');
+    registerAgentDefinitions([]);
+  });
+
+  it('enables, reports and disables JSON-configured agents', async () => {
+    await fs.mkdir(path.dirname(gooseJson), { recursive: true });
+    await fs.writeFile(gooseJson, '{\n  "model": "x"\n}\n');
+    const { checkYoloStatus, disableYolo, enableYolo } = await import('../src/configure.js');
+
+    const enabled = await enableYolo('goose');
+    expect(enabled.config?.enabled).toBe(true);
+    expect(JSON.parse(await fs.readFile(gooseJson, 'utf-8'))).toEqual({ model: 'x', permissions: { mode: 'auto' } });
+
+    const goose = (await checkYoloStatus()).find((entry) => entry.type === 'goose');
+    expect(goose?.config?.enabled).toBe(true);
+    expect(goose?.config?.details).toBe('permissions.mode = "auto"');
+
+    await disableYolo('goose');
+    expect(await fs.readFile(gooseJson, 'utf-8')).toBe('{\n  "model": "x"\n}\n');
+  });
+
+  it('edits TOML-configured agents in place', async () => {
+    await fs.mkdir(path.dirname(crushToml), { recursive: true });
+    const original = '# mine\nmodel = "x"\n';
+    await fs.writeFile(crushToml, original);
+    const { disableYolo, enableYolo } = await import('../src/configure.js');
+
+    await enableYolo('crush');
+    expect(await fs.readFile(crushToml, 'utf-8')).toBe(`${original}\n[permissions]\nskip_requests = true\n`);
+
+    await disableYolo('crush');
+    expect(await fs.readFile(crushToml, 'utf-8')).toBe(original);
+  });
+
+  it('leaves values the user changed alone on disable', async () => {
+    await fs.mkdir(path.dirname(gooseJson), { recursive: true });
+    await fs.writeFile(gooseJson, '{"permissions": {"mode": "ask"}}');
+    const { disableYolo } = await import('../src/configure.js');
+
+    const result = await disableYolo('goose');
+    expect(result.config?.details).toBe('Already disabled (no yolo settings set by letsyolo)');
+  });
+
+  it('includes user-defined agents in enableAll and status', async () => {
+    const { checkYoloStatus, enableAll } = await import('../src/configure.js');
+    const results = await enableAll({ dryRun: true });
+    expect(results.map((result) => result.type)).toContain('crush');
+    expect((await checkYoloStatus()).map((entry) => entry.type)).toContain('goose');
+  });
+});
+
+describe('gemini', () => {
+  const geminiSettings = path.join(tmpHome, '.gemini', 'settings.json');
+
+  beforeEach(async () => {
+    detectBinaryMock.mockReset();
+    detectBinaryMock.mockResolvedValue({ found: true, path: '/usr/local/bin/gemini', version: '0.9.0' });
+    await fs.rm(path.join(tmpHome, '.gemini'), { recursive: true, force: true });
+  });
+
+  it('toggles tools.autoAccept and keeps other settings', async () => {
+    await fs.mkdir(path.dirname(geminiSettings), { recursive: true });
+    await fs.writeFile(geminiSettings, JSON.stringify({ ui: { theme: 'GitHub' }, tools: { sandbox: true } }));
+    const { checkYoloStatus, disableYolo, enableYolo } = await import('../src/configure.js');
+
+    // autoAccept only covers tool calls Gemini considers safe, so it is not full bypass.
+    const result = await enableYolo('gemini');
+    expect(result.config?.enabled).toBe(false);
+    expect(result.config?.level).toBeUndefined();
+    expect(result.config?.details).toMatch(/^Set tools\.autoAccept = true \(only tool calls Gemini considers safe/);
+    expect(JSON.parse(await fs.readFile(geminiSettings, 'utf-8'))).toEqual({
+      ui: { theme: 'GitHub' },
+      tools: { sandbox: true, autoAccept: true },
+    });
+
+    const gemini = (await checkYoloStatus()).find((entry) => entry.type === 'gemini');
+    expect(gemini?.config).toMatchObject({ enabled: false, level: null });
+    expect(gemini?.config?.details).toContain('tools.autoAccept = true (only tool calls Gemini considers safe');
+
+    await disableYolo('gemini');
+    expect(JSON.parse(await fs.readFile(geminiSettings, 'utf-8'))).toEqual({
+      ui: { theme: 'GitHub' },
+      tools: { sandbox: true },
+    });
+  });
+});
+
+describe('version-aware settings', () => {
+  const geminiSettings = path.join(tmpHome, '.gemini', 'settings.json');
+
+  beforeEach(async () => {
+    detectBinaryMock.mockReset();
+    await fs.rm(path.join(tmpHome, '.gemini'), { recursive: true, force: true });
+  });
+
+  it('writes the flat autoAccept key for Gemini CLI releases before the nested layout', async () => {
+    detectBinaryMock.mockResolvedValue({ found: true, path: '/usr/local/bin/gemini', version: '0.2.1' });
+    const { checkYoloStatus, disableYolo, enableYolo } = await import('../src/configure.js');
+
+    const result = await enableYolo('gemini');
+    expect(result.config?.details).toMatch(/^Set autoAccept = true \(/);
+    expect(JSON.parse(await fs.readFile(geminiSettings, 'utf-8'))).toEqual({ autoAccept: true });
+    expect((await checkYoloStatus()).find((entry) => entry.type === 'gemini')?.config?.details).toMatch(/^autoAccept = true \(/);
+
+    // After an upgrade, disable still finds the old key.
+    detectBinaryMock.mockResolvedValue({ found: true, path: '/usr/local/bin/gemini', version: '0.9.0' });
+    await disableYolo('gemini');
+    expect(JSON.parse(await fs.readFile(geminiSettings, 'utf-8'))).toEqual({});
+  });
+
+  it('reports the flag the installed release understands and warns on unsupported ones', async () => {
+    detectBinaryMock.mockResolvedValue({ found: true, path: '/usr/local/bin/codex', version: 'codex-cli 0.9.0' });
+    const { enableYolo } = await import('../src/configure.js');
+
+    const result = await enableYolo('codex', { dryRun: true });
+    expect(result.config?.cliFlag).toBe('--dangerously-bypass-approvals-and-sandbox');
+    expect(result.warnings?.[0]).toContain('older than the oldest supported version');
+  });
+});
+
+describe('aider', () => {
+  const aiderConfig = path.join(tmpHome, '.aider.conf.yml');
+
+  beforeEach(async () => {
+    detectBinaryMock.mockReset();
+    detectBinaryMock.mockResolvedValue({ found: true, path: '/usr/local/bin/aider', version: 'aider 0.86.0' });
+    await fs.rm(aiderConfig, { force: true });
+  });
+
+  it('sets yes-always and auto-commits in ~/.aider.conf.yml without touching comments', async () => {
+    const original = '# my aider setup\nmodel: sonnet  # fast\nauto-commits: false\n';
+    await fs.writeFile(aiderConfig, original);
+    const { checkYoloStatus, disableYolo, enableYolo } = await import('../src/configure.js');
+
+    const result = await enableYolo('aider');
+    expect(result.config?.enabled).toBe(true);
+    expect(await fs.readFile(aiderConfig, 'utf-8')).toBe(
+      '# my aider setup\nmodel: sonnet  # fast\nauto-commits: true\nyes-always: true\n',
+    );
+
+    const aider = (await checkYoloStatus()).find((entry) => entry.type === 'aider');
+    expect(aider?.config?.enabled).toBe(true);
+
+    // The user's auto-commits: false comes back.
+    const disabled = await disableYolo('aider');
+    expect(disabled.config?.details).toBe('Removed yes-always, restored auto-commits = false');
+    expect(await fs.readFile(aiderConfig, 'utf-8')).toBe(original);
+  });
+
+  it('keeps a yes-always the user set by hand', async () => {
+    const original = 'yes-always: true  # mine\n';
+    await fs.writeFile(aiderConfig, original);
+    const { disableYolo, enableYolo } = await import('../src/configure.js');
+
+    expect((await disableYolo('aider')).config?.details).toBe('Already disabled (no yolo settings set by letsyolo)');
+    expect(await fs.readFile(aiderConfig, 'utf-8')).toBe(original);
+
+    await enableYolo('aider');
+    await disableYolo('aider');
+    expect(await fs.readFile(aiderConfig, 'utf-8')).toBe(original);
+  });
+
+  it('reports invalid YAML instead of overwriting it', async () => {
+    await fs.writeFile(aiderConfig, 'model: [unterminated\n');
+    const { enableYolo } = await import('../src/configure.js');
+
+    const result = await enableYolo('aider');
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('Invalid YAML');
+    expect(await fs.readFile(aiderConfig, 'utf-8')).toBe('model: [unterminated\n');
+  });
+});
+
+describe('cursor-agent', () => {
+  const cursorConfig = path.join(tmpHome, '.cursor', 'cli-config.json');
+
+  beforeEach(async () => {
+    detectBinaryMock.mockReset();
+    detectBinaryMock.mockResolvedValue({ found: true, path: '/usr/local/bin/cursor-agent', version: '2025.09.18' });
+    await fs.rm(path.join(tmpHome, '.cursor'), { recursive: true, force: true });
+  });
+
+  it('adds and removes the yolo allowlist rules, keeping the user rules', async () => {
+    await fs.mkdir(path.dirname(cursorConfig), { recursive: true });
+    await fs.writeFile(
+      cursorConfig,
+      JSON.stringify({ version: 1, permissions: { allow: ['Shell(ls)'], deny: ['Shell(rm)'] } }),
+    );
+    const { checkYoloStatus, disableYolo, enableYolo } = await import('../src/configure.js');
+
+    const result = await enableYolo('cursor-agent');
+    expect(result.config?.enabled).toBe(true);
+    expect(result.config?.cliFlag).toBe('--force');
+    expect(JSON.parse(await fs.readFile(cursorConfig, 'utf-8'))).toEqual({
+      version: 1,
+      permissions: { allow: ['Shell(ls)', 'Shell(*)', 'Read(**)', 'Write(**)'], deny: ['Shell(rm)'] },
+    });
+
+    // A second enable does not duplicate the rules.
+    await enableYolo('cursor-agent');
+    const cursor = (await checkYoloStatus()).find((entry) => entry.type === 'cursor-agent');
+    expect(cursor?.config?.enabled).toBe(true);
+    expect(cursor?.config?.level).toBe('full-bypass');
+
+    const disabled = await disableYolo('cursor-agent');
+    expect(disabled.config?.details).toBe('Removed 3 rule(s) from permissions.allow');
+    expect(JSON.parse(await fs.readFile(cursorConfig, 'utf-8'))).toEqual({
+      version: 1,
+      permissions: { allow: ['Shell(ls)'], deny: ['Shell(rm)'] },
+    });
+  });
+
+  it('reports partial allowlists as off', async () => {
+    await fs.mkdir(path.dirname(cursorConfig), { recursive: true });
+    await fs.writeFile(cursorConfig, JSON.stringify({ permissions: { allow: ['Shell(*)'] } }));
+    const { checkYoloStatus, enableYolo } = await import('../src/configure.js');
+
+    const cursor = (await checkYoloStatus()).find((entry) => entry.type === 'cursor-agent');
+    expect(cursor?.config?.enabled).toBe(false);
+    expect(cursor?.config?.details).toBe('Default permissions');
+
+    const result = await enableYolo('cursor-agent', { level: 'plan' });
+    expect(result.success).toBe(false);
+    expect(result.error).toBe('Cursor Agent only supports the full-bypass level');
+  });
+});
+
+describe('claude-desktop', () => {
+  const desktopConfig = path.join(tmpHome, '.config', 'Claude', 'claude_desktop_config.json');
+  const mcpServers = {
+    filesystem: { command: 'npx', args: ['-y', '@modelcontextprotocol/server-filesystem', '/tmp'] },
+    github: { command: 'npx', args: ['-y', '@modelcontextprotocol/server-github'], env: { GITHUB_TOKEN: 'x' } },
+  };
+
+  beforeEach(async () => {
+    detectBinaryMock.mockReset();
+    detectBinaryMock.mockResolvedValue({ found: false, path: null, version: null });
+    await fs.rm(path.join(tmpHome, '.config', 'Claude'), { recursive: true, force: true });
+  });
+
+  it('is detected by its config file rather than a binary', async () => {
+    const { checkYoloStatus, enableYolo } = await import('../src/configure.js');
+
+    const missing = await enableYolo('claude-desktop');
+    expect(missing.success).toBe(false);
+    expect(missing.error).toContain('Not installed');
+
+    await fs.mkdir(path.dirname(desktopConfig), { recursive: true });
+    await fs.writeFile(desktopConfig, JSON.stringify({ mcpServers }));
+    const desktop = (await checkYoloStatus()).find((entry) => entry.type === 'claude-desktop');
+    expect(desktop?.config?.details).toBe('0 of 2 MCP server(s) marked autoApprove');
+    expect(desktop?.config?.servers).toEqual([
+      { name: 'filesystem', autoApprove: false },
+      { name: 'github', autoApprove: false },
+    ]);
+    expect(detectBinaryMock).not.toHaveBeenCalledWith(['claude-desktop'], expect.anything());
+  });
+
+  it('sets and removes per-server autoApprove with a backup', async () => {
+    await fs.mkdir(path.dirname(desktopConfig), { recursive: true });
+    const original = JSON.stringify({ mcpServers, globalShortcut: 'Ctrl+Space' }, null, 2) + '\n';
+    await fs.writeFile(desktopConfig, original);
+    const { checkYoloStatus, disableYolo, enableYolo } = await import('../src/configure.js');
+    const { listBackups } = await import('../src/backups.js');
+
+    const partial = await enableYolo('claude-desktop', { servers: ['github'] });
+    expect(partial.config?.details).toMatch(/^Set autoApprove = true for github \(unverified: /);
+    let written = JSON.parse(await fs.readFile(desktopConfig, 'utf-8'));
+    expect(written.mcpServers.github.autoApprove).toBe(true);
+    expect(written.mcpServers.filesystem.autoApprove).toBeUndefined();
+    expect(written.globalShortcut).toBe('Ctrl+Space');
+    expect((await listBackups('claude-desktop')).length).toBeGreaterThan(0);
+
+    let desktop = (await checkYoloStatus()).find((entry) => entry.type === 'claude-desktop');
+    expect(desktop?.config?.enabled).toBe(false);
+
+    // Desktop doesn't document the key, so even every server marked is not reported as on.
+    const all = await enableYolo('claude-desktop');
+    expect(all.config).toMatchObject({ enabled: false });
+    expect(all.config?.level).toBeUndefined();
+    desktop = (await checkYoloStatus()).find((entry) => entry.type === 'claude-desktop');
+    expect(desktop?.config).toMatchObject({ enabled: false, level: null });
+    expect(desktop?.config?.details).toMatch(/^2 of 2 MCP server\(s\) marked autoApprove \(unverified: /);
+
+    await disableYolo('claude-desktop', { servers: ['filesystem'] });
+    written = JSON.parse(await fs.readFile(desktopConfig, 'utf-8'));
+    expect(written.mcpServers.filesystem.autoApprove).toBeUndefined();
+    expect(written.mcpServers.github.autoApprove).toBe(true);
+
+    await disableYolo('claude-desktop');
+    expect(await fs.readFile(desktopConfig, 'utf-8')).toBe(original);
+  });
+
+  it('rejects unknown servers and skips configs without any', async () => {
+    await fs.mkdir(path.dirname(desktopConfig), { recursive: true });
+    await fs.writeFile(desktopConfig, JSON.stringify({ mcpServers }));
+    const { enableYolo } = await import('../src/configure.js');
+
+    const unknown = await enableYolo('claude-desktop', { servers: ['slack'] });
+    expect(unknown.error).toBe('Unknown MCP server: slack (configured: filesystem, github)');
+
+    await fs.writeFile(desktopConfig, JSON.stringify({}));
+    const empty = await enableYolo('claude-desktop');
+    expect(empty.success).toBe(true);
+    expect(empty.config?.details).toBe(`Skipped: no MCP servers configured in ${desktopConfig}`);
+    expect(await fs.readFile(desktopConfig, 'utf-8')).toBe('{}');
+
+    detectBinaryMock.mockResolvedValue({ found: true, path: '/usr/local/bin/claude', version: '1.0.0' });
+    const wrongAgent = await enableYolo('claude-code', { servers: ['github'] });
+    expect(wrongAgent.error).toBe('Claude Code does not have MCP server settings');
+  });
+});
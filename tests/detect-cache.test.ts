@@ -0,0 +1,139 @@
+import { afterAll, afterEach, beforeEach, describe, expect, it } from 'vitest';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+
+// Keep the cache file and fake binaries inside a throwaway home directory.
+import { tmpHome } from './helpers/tmp-home.js';
+
+const { DETECT_CACHE_FILE, refreshDetectionCache, resetDetectionCache } = await import('../src/detect-cache.js');
+const { detectBinary, getCandidatePaths, resetNpmGlobalPrefix } = await import('../src/detect.js');
+
+const savedPath = process.env.PATH;
+const binDir = path.join(tmpHome, 'bin');
+const callLog = path.join(tmpHome, 'calls.log');
+
+async function writeAgent(version: string): Promise<string> {
+  const binary = path.join(binDir, 'fakeagent');
+  await fs.writeFile(binary, `#!/bin/sh\necho run >> "${callLog}"\necho "fakeagent ${version}"\n`, { mode: 0o755 });
+  return binary;
+}
+
+async function spawnCount(): Promise<number> {
+  try {
+    return (await fs.readFile(callLog, 'utf-8')).trim().split('\n').length;
+  } catch {
+    return 0;
+  }
+}
+
+beforeEach(async () => {
+  for (const entry of await fs.readdir(tmpHome)) {
+    await fs.rm(path.join(tmpHome, entry), { recursive: true, force: true });
+  }
+  await fs.mkdir(binDir);
+  process.env.PATH = `${binDir}${path.delimiter}${savedPath ?? ''}`;
+  resetDetectionCache();
+});
+
+afterEach(() => {
+  process.env.PATH = savedPath;
+});
+
+afterAll(async () => {
+  await fs.rm(tmpHome, { recursive: true, force: true });
+});
+
+describe.skipIf(process.platform === 'win32')('detection cache', () => {
+  it('reuses a stored version within a run and across runs', async () => {
+    const binary = await writeAgent('1.2.3');
+
+    expect(await detectBinary(['fakeagent'], '--version')).toEqual({
+      found: true,
+      path: binary,
+      version: 'fakeagent 1.2.3',
+    });
+    expect(await detectBinary(['fakeagent'], '--version')).toMatchObject({ version: 'fakeagent 1.2.3' });
+    expect(await spawnCount()).toBe(1);
+
+    // A new run reads the cache file instead of spawning again.
+    resetDetectionCache();
+    expect(await detectBinary(['fakeagent'], '--version')).toMatchObject({ version: 'fakeagent 1.2.3' });
+    expect(await spawnCount()).toBe(1);
+
+    const stored = JSON.parse(await fs.readFile(DETECT_CACHE_FILE, 'utf-8'));
+    expect(stored.entries[await fs.realpath(binary)]).toMatchObject({ versionFlag: '--version', version: 'fakeagent 1.2.3' });
+  });
+
+  it('checks again when the binary changes on disk', async () => {
+    await writeAgent('1.2.3');
+    await detectBinary(['fakeagent'], '--version');
+
+    resetDetectionCache();
+    await writeAgent('1.10.0');
+    expect(await detectBinary(['fakeagent'], '--version')).toMatchObject({ version: 'fakeagent 1.10.0' });
+    expect(await spawnCount()).toBe(2);
+  });
+
+  it('checks again with a different version flag', async () => {
+    await writeAgent('1.2.3');
+    await detectBinary(['fakeagent'], '--version');
+    await detectBinary(['fakeagent'], '-V');
+    expect(await spawnCount()).toBe(2);
+  });
+
+  it('ignores stored entries after a refresh but still saves new ones', async () => {
+    await writeAgent('1.2.3');
+    await detectBinary(['fakeagent'], '--version');
+
+    resetDetectionCache();
+    refreshDetectionCache();
+    await detectBinary(['fakeagent'], '--version');
+    await detectBinary(['fakeagent'], '--version');
+    expect(await spawnCount()).toBe(2);
+
+    resetDetectionCache();
+    await detectBinary(['fakeagent'], '--version');
+    expect(await spawnCount()).toBe(2);
+  });
+
+  it('treats a corrupt cache file as empty', async () => {
+    await fs.mkdir(path.dirname(DETECT_CACHE_FILE), { recursive: true });
+    await fs.writeFile(DETECT_CACHE_FILE, '{ not json');
+    await writeAgent('1.2.3');
+
+    expect(await detectBinary(['fakeagent'], '--version')).toMatchObject({ found: true, version: 'fakeagent 1.2.3' });
+    expect(JSON.parse(await fs.readFile(DETECT_CACHE_FILE, 'utf-8')).entries).toBeTruthy();
+  });
+
+  it('remembers the global npm prefix until npm changes', async () => {
+    const savedEnv = { ...process.env };
+    delete process.env.npm_config_prefix;
+    delete process.env.NPM_CONFIG_PREFIX;
+    const writeNpm = (prefix: string) =>
+      fs.writeFile(path.join(binDir, 'npm'), `#!/bin/sh\necho run >> "${callLog}"\necho "${prefix}"\n`, { mode: 0o755 });
+    try {
+      await writeNpm('/opt/npm-one');
+      resetNpmGlobalPrefix();
+      expect(await getCandidatePaths('fakeagent')).toContain('/opt/npm-one/bin/fakeagent');
+
+      // The next run reads the cache instead of spawning npm.
+      resetDetectionCache();
+      resetNpmGlobalPrefix();
+      expect(await getCandidatePaths('fakeagent')).toContain('/opt/npm-one/bin/fakeagent');
+      expect(await spawnCount()).toBe(1);
+
+      await writeNpm('/opt/npm-two/');
+      resetNpmGlobalPrefix();
+      expect(await getCandidatePaths('fakeagent')).toContain('/opt/npm-two/bin/fakeagent');
+      expect(await spawnCount()).toBe(2);
+    } finally {
+      process.env = savedEnv;
+      resetNpmGlobalPrefix();
+    }
+  });
+
+  it('does not spawn binaries that are not on PATH', async () => {
+    expect(await detectBinary(['fakeagent'], '--version')).toEqual({ found: false, path: null, version: null });
+    expect(await spawnCount()).toBe(0);
+  });
+});
@@ -0,0 +1,163 @@
+import { afterAll, afterEach, beforeEach, describe, expect, it } from 'vitest';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+
+// Install locations and the detection cache live under a throwaway home.
+import { tmpHome } from './helpers/tmp-home.js';
+
+const { resetDetectionCache } = await import('../src/detect-cache.js');
+const {
+  DEFAULT_DETECT_TIMEOUT_MS,
+  detectAll,
+  detectBinary,
+  detectInstallations,
+  getCandidatePaths,
+  hasVersionMismatch,
+  setDetectTimeout,
+} = await import('../src/detect.js');
+
+const savedEnv = { ...process.env };
+
+async function writeBinary(relative: string, output: string): Promise<string> {
+  const filePath = path.join(tmpHome, relative);
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  await fs.writeFile(filePath, `#!/bin/sh\necho "${output}"\n`, { mode: 0o755 });
+  return filePath;
+}
+
+beforeEach(async () => {
+  for (const entry of await fs.readdir(tmpHome)) {
+    await fs.rm(path.join(tmpHome, entry), { recursive: true, force: true });
+  }
+  process.env.npm_config_prefix = path.join(tmpHome, 'npm-global');
+  for (const name of ['FNM_DIR', 'ASDF_DATA_DIR', 'PNPM_HOME', 'UV_TOOL_DIR', 'VOLTA_HOME', 'BUN_INSTALL']) {
+    delete process.env[name];
+  }
+  process.env.PATH = path.join(tmpHome, 'no-such-dir');
+  resetDetectionCache();
+});
+
+afterEach(() => {
+  process.env = { ...savedEnv };
+  setDetectTimeout(DEFAULT_DETECT_TIMEOUT_MS);
+});
+
+afterAll(async () => {
+  await fs.rm(tmpHome, { recursive: true, force: true });
+});
+
+describe.skipIf(process.platform === 'win32')('getCandidatePaths', () => {
+  it('includes version manager and global package bins', async () => {
+    await fs.mkdir(path.join(tmpHome, '.local/share/fnm/node-versions/v22.1.0'), { recursive: true });
+    await fs.mkdir(path.join(tmpHome, '.asdf/installs/nodejs/20.11.0'), { recursive: true });
+    await fs.mkdir(path.join(tmpHome, '.local/share/uv/tools/aider-chat'), { recursive: true });
+
+    const paths = await getCandidatePaths('agent');
+    const expected = [
+      'npm-global/bin/agent',
+      '.volta/bin/agent',
+      '.asdf/shims/agent',
+      '.local/share/pnpm/agent',
+      '.bun/bin/agent',
+      '.local/share/fnm/node-versions/v22.1.0/installation/bin/agent',
+      '.asdf/installs/nodejs/20.11.0/bin/agent',
+      '.local/share/uv/tools/aider-chat/bin/agent',
+    ];
+    for (const relative of expected) {
+      expect(paths).toContain(path.join(tmpHome, relative));
+    }
+  });
+
+  it('honours the tool managers\' own environment variables', async () => {
+    process.env.VOLTA_HOME = path.join(tmpHome, 'volta');
+    process.env.BUN_INSTALL = path.join(tmpHome, 'bun');
+    process.env.PNPM_HOME = path.join(tmpHome, 'pnpm');
+
+    const paths = await getCandidatePaths('agent');
+    expect(paths).toContain(path.join(tmpHome, 'volta/bin/agent'));
+    expect(paths).toContain(path.join(tmpHome, 'bun/bin/agent'));
+    expect(paths).toContain(path.join(tmpHome, 'pnpm/agent'));
+  });
+});
+
+describe.skipIf(process.platform === 'win32')('detectInstallations', () => {
+  it('lists every copy, marks the one PATH runs and spots version mismatches', async () => {
+    const first = await writeBinary('bin/fakeagent', 'fakeagent 2.0.0');
+    const shadowed = await writeBinary('.bun/bin/fakeagent', 'fakeagent 1.4.0');
+    const offPath = await writeBinary('.nvm/versions/node/v20.1.0/bin/fakeagent', 'fakeagent 2.0.0');
+    process.env.PATH = [path.join(tmpHome, 'bin'), path.join(tmpHome, '.bun/bin')].join(path.delimiter);
+
+    const installations = await detectInstallations(['fakeagent'], '--version');
+    expect(installations).toEqual([
+      { path: first, version: 'fakeagent 2.0.0', onPath: true, active: true },
+      { path: shadowed, version: 'fakeagent 1.4.0', onPath: true, active: false },
+      { path: offPath, version: 'fakeagent 2.0.0', onPath: false, active: false },
+    ]);
+    expect(hasVersionMismatch(installations)).toBe(true);
+  });
+
+  it('lists symlinks to the same file once', async () => {
+    const target = await writeBinary('.volta/bin/fakeagent', 'fakeagent 1.0.0');
+    await fs.mkdir(path.join(tmpHome, 'bin'));
+    await fs.symlink(target, path.join(tmpHome, 'bin/fakeagent'));
+    process.env.PATH = path.join(tmpHome, 'bin');
+
+    const installations = await detectInstallations(['fakeagent'], '--version');
+    expect(installations).toEqual([
+      { path: path.join(tmpHome, 'bin/fakeagent'), version: 'fakeagent 1.0.0', onPath: true, active: true },
+    ]);
+    expect(hasVersionMismatch(installations)).toBe(false);
+  });
+
+  it('has no active copy when none is on PATH', async () => {
+    await writeBinary('.bun/bin/fakeagent', 'fakeagent 1.0.0');
+
+    const installations = await detectInstallations(['fakeagent'], '--version');
+    expect(installations).toHaveLength(1);
+    expect(installations[0]).toMatchObject({ onPath: false, active: false });
+  });
+});
+
+describe.skipIf(process.platform === 'win32')('probing', () => {
+  it('treats a copy that outlasts the timeout as not working', async () => {
+    const filePath = path.join(tmpHome, 'bin/fakeagent');
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, '#!/bin/sh\nsleep 5\necho "fakeagent 1.0.0"\n', { mode: 0o755 });
+    // Keep the system PATH so the script can find `sleep`
+    process.env.PATH = [path.join(tmpHome, 'bin'), savedEnv.PATH].join(path.delimiter);
+    setDetectTimeout(200);
+
+    const startedAt = Date.now();
+    expect(await detectBinary(['fakeagent'], '--version')).toEqual({ found: false, path: null, version: null });
+    expect(Date.now() - startedAt).toBeLessThan(3000);
+  });
+
+  it('prefers the earlier candidate even when a later one answers first', async () => {
+    const slow = path.join(tmpHome, 'bin/fakeagent');
+    await fs.mkdir(path.dirname(slow), { recursive: true });
+    await fs.writeFile(slow, '#!/bin/sh\nsleep 0.3\necho "fakeagent 2.0.0"\n', { mode: 0o755 });
+    await writeBinary('.bun/bin/fakeagent', 'fakeagent 1.0.0');
+    process.env.PATH = [path.join(tmpHome, 'bin'), savedEnv.PATH].join(path.delimiter);
+
+    expect(await detectBinary(['fakeagent'], '--version')).toEqual({ found: true, path: slow, version: 'fakeagent 2.0.0' });
+  });
+
+  it('reports timing in the detection result', async () => {
+    setDetectTimeout(1234);
+    const detection = await detectAll();
+    expect(detection.timeoutMs).toBe(1234);
+    expect(detection.durationMs).toBeGreaterThanOrEqual(0);
+    for (const agent of detection.agents) {
+      expect(agent.durationMs).toBeGreaterThanOrEqual(0);
+    }
+  });
+});
+
+describe('hasVersionMismatch', () => {
+  it('compares parsed versions, not how they are printed', () => {
+    const installation = (version: string | null) => ({ path: '/x', version, onPath: false, active: false });
+    expect(hasVersionMismatch([installation('1.0.90 (Claude Code)'), installation('v1.0.90')])).toBe(false);
+    expect(hasVersionMismatch([installation('1.0.90'), installation('1.0.91')])).toBe(true);
+    expect(hasVersionMismatch([installation('1.0.90')])).toBe(false);
+  });
+});
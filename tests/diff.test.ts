@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import { createUnifiedDiff } from '../src/diff.js';
+
+describe('createUnifiedDiff', () => {
+  it('should return an empty string when nothing changed', () => {
+    expect(createUnifiedDiff('/x.json', 'a\nb\n', 'a\nb\n')).toBe('');
+  });
+
+  it('should diff a new file against /dev/null', () => {
+    const patch = createUnifiedDiff('/tmp/x.json', null, '{\n  "a": 1\n}\n');
+    expect(patch).toBe(
+      '--- /dev/null\n+++ b/tmp/x.json\n@@ -0,0 +1,3 @@\n+{\n+  "a": 1\n+}\n',
+    );
+  });
+
+  it('should produce a single hunk with context for a one-line change', () => {
+    const before = ['1', '2', '3', '4', '5', '6', '7', '8', '9'].join('\n') + '\n';
+    const after = before.replace('5\n', 'five\n');
+    const patch = createUnifiedDiff('/f', before, after);
+    expect(patch).toBe(
+      '--- a/f\n+++ b/f\n@@ -2,7 +2,7 @@\n 2\n 3\n 4\n-5\n+five\n 6\n 7\n 8\n',
+    );
+  });
+
+  it('should split distant changes into separate hunks', () => {
+    const lines = Array.from({ length: 20 }, (_, i) => `line ${i + 1}`);
+    const before = lines.join('\n') + '\n';
+    const after = before.replace('line 2\n', 'LINE 2\n').replace('line 19\n', 'LINE 19\n');
+    const patch = createUnifiedDiff('/f', before, after);
+    const headers = patch.split('\n').filter((line) => line.startsWith('@@'));
+    expect(headers).toEqual(['@@ -1,5 +1,5 @@', '@@ -16,5 +16,5 @@']);
+  });
+
+  it('should count inserted lines in later hunk headers', () => {
+    const lines = Array.from({ length: 20 }, (_, i) => `line ${i + 1}`);
+    const before = lines.join('\n') + '\n';
+    const after = before.replace('line 1\n', 'line 1\nextra\n').replace('line 19\n', 'LINE 19\n');
+    const headers = createUnifiedDiff('/f', before, after).split('\n').filter((line) => line.startsWith('@@'));
+    expect(headers).toEqual(['@@ -1,4 +1,5 @@', '@@ -16,5 +17,5 @@']);
+  });
+
+  it('should mark a missing trailing newline', () => {
+    const patch = createUnifiedDiff('/f', 'a = 1', 'a = 1\nb = 2\n');
+    expect(patch).toContain('-a = 1\n\\ No newline at end of file\n');
+    expect(patch).toContain('+a = 1\n+b = 2\n');
+  });
+});
@@ -0,0 +1,125 @@
+import { afterAll, afterEach, beforeEach, describe, expect, it } from 'vitest';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+
+// Point every config, secrets and profile path at a throwaway home directory.
+import { tmpHome } from './helpers/tmp-home.js';
+
+const { runDoctor } = await import('../src/doctor.js');
+const { findOnPath } = await import('../src/detect.js');
+const { API_KEYS } = await import('../src/secrets.js');
+
+const savedEnv = { ...process.env };
+
+beforeEach(async () => {
+  for (const entry of await fs.readdir(tmpHome)) {
+    await fs.rm(path.join(tmpHome, entry), { recursive: true, force: true });
+  }
+  for (const keyDef of API_KEYS) delete process.env[keyDef.envVar];
+  process.env.PATH = path.join(tmpHome, 'no-such-dir');
+});
+
+afterEach(() => {
+  process.env = { ...savedEnv };
+});
+
+afterAll(async () => {
+  await fs.rm(tmpHome, { recursive: true, force: true });
+});
+
+async function writeFile(relative: string, content: string, mode?: number): Promise<string> {
+  const filePath = path.join(tmpHome, relative);
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  await fs.writeFile(filePath, content, { mode });
+  return filePath;
+}
+
+async function check(name: string) {
+  return (await runDoctor()).find((entry) => entry.name === name);
+}
+
+describe.skipIf(process.platform === 'win32')('runDoctor', () => {
+  it('fails a config file that does not parse and passes missing ones', async () => {
+    await writeFile('.claude/settings.json', '{ not json');
+    await writeFile('.codex/config.toml', 'approval_policy = "never"\n');
+
+    const checks = await runDoctor();
+    const claude = checks.find((entry) => entry.name === 'config:claude-code');
+    expect(claude?.status).toBe('fail');
+    expect(claude?.fix).toContain('letsyolo restore claude-code');
+    expect(checks.find((entry) => entry.name === 'config:codex')?.status).toBe('pass');
+    expect(checks.find((entry) => entry.name === 'config:gemini')?.message).toContain('not created yet');
+  });
+
+  it('checks secrets file and directory modes', async () => {
+    expect((await check('secrets-file'))?.status).toBe('warn');
+
+    const secretsFile = await writeFile('.letsyolo/secrets.env', 'export OPENAI_API_KEY="sk-1"\n', 0o644);
+    await fs.chmod(path.dirname(secretsFile), 0o755);
+    expect(await check('secrets-file')).toMatchObject({ status: 'fail', fix: `chmod 600 ${secretsFile}` });
+    expect((await check('secrets-dir'))?.status).toBe('fail');
+
+    await fs.chmod(secretsFile, 0o600);
+    await fs.chmod(path.dirname(secretsFile), 0o700);
+    expect((await check('secrets-file'))?.status).toBe('pass');
+    expect((await check('secrets-dir'))?.status).toBe('pass');
+
+    // Stricter than needed is fine.
+    await fs.chmod(secretsFile, 0o400);
+    expect(await check('secrets-file')).toMatchObject({ status: 'pass', message: '~/.letsyolo/secrets.env is mode 400' });
+    await fs.chmod(secretsFile, 0o640);
+    expect((await check('secrets-file'))?.status).toBe('fail');
+  });
+
+  it('fails when no existing shell profile sources the secrets file', async () => {
+    await writeFile('.letsyolo/secrets.env', 'export OPENAI_API_KEY="sk-1"\n', 0o600);
+    await writeFile('.bashrc', '# nothing here\n');
+    await writeFile('.zshrc', '# nothing here\n');
+    expect((await check('shell-profile:.bashrc'))?.status).toBe('fail');
+
+    await writeFile('.zshrc', '[ -f "$HOME/.letsyolo/secrets.env" ] && source "$HOME/.letsyolo/secrets.env"\n');
+    expect((await check('shell-profile:.zshrc'))?.status).toBe('pass');
+    expect((await check('shell-profile:.bashrc'))?.status).toBe('warn');
+  });
+
+  it('warns when two different installs of an agent are on PATH', async () => {
+    const first = await writeFile('bin-a/codex', '#!/bin/sh\n', 0o755);
+    const second = await writeFile('bin-b/codex', '#!/bin/sh\necho other\n', 0o755);
+    await fs.mkdir(path.join(tmpHome, 'bin-c'));
+    await fs.symlink(first, path.join(tmpHome, 'bin-c', 'codex'));
+    process.env.PATH = ['bin-a', 'bin-c', 'bin-b'].map((dir) => path.join(tmpHome, dir)).join(path.delimiter);
+
+    expect(await findOnPath('codex')).toEqual([first, second]);
+    const codex = await check('path:codex');
+    expect(codex?.status).toBe('warn');
+    expect(codex?.message).toBe('codex → ~/bin-a/codex, shadowing ~/bin-b/codex');
+  });
+
+  it('flags keys the shell will not load or that differ from the secrets file', async () => {
+    await writeFile('.env', 'ANTHROPIC_API_KEY=sk-ant-from-dotenv\n');
+    await writeFile('.letsyolo/secrets.env', 'export OPENAI_API_KEY="sk-file"\n', 0o600);
+    process.env.OPENAI_API_KEY = 'sk-shell';
+
+    expect(await check('key:ANTHROPIC_API_KEY')).toMatchObject({
+      status: 'warn',
+      message: 'ANTHROPIC_API_KEY is only in ~/.env, which your shell does not load',
+    });
+    expect((await check('key:OPENAI_API_KEY'))?.status).toBe('warn');
+
+    process.env.OPENAI_API_KEY = 'sk-file';
+    expect((await check('key:OPENAI_API_KEY'))?.status).toBe('pass');
+    expect(await check('key:GEMINI_API_KEY')).toBeUndefined();
+  });
+
+  it('lists keys in pass without reading their values', async () => {
+    process.env.PASSWORD_STORE_DIR = path.join(tmpHome, '.password-store');
+    await writeFile('.password-store/letsyolo/OPENAI_API_KEY.gpg', 'not really encrypted\n');
+    await writeFile('.letsyolo/config.json', JSON.stringify({ store: 'pass' }));
+
+    // pass is not on PATH, so reading a value would fail the whole check.
+    expect(await check('key:OPENAI_API_KEY')).toMatchObject({
+      status: 'pass',
+      message: 'OPENAI_API_KEY loaded from pass (letsyolo/)',
+    });
+  });
+});
@@ -0,0 +1,115 @@
+import { afterAll, afterEach, beforeEach, describe, expect, it } from 'vitest';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import type { AgentDefinition } from '../src/types.js';
+
+// The fake agent, the secrets file and the detection cache live under a throwaway home.
+import { tmpHome } from './helpers/tmp-home.js';
+
+const { getDefinitionOrThrow } = await import('../src/agents.js');
+const { resetDetectionCache } = await import('../src/detect-cache.js');
+const { planExec, runExec } = await import('../src/exec.js');
+const { writeSecrets } = await import('../src/secrets.js');
+
+const savedEnv = { ...process.env };
+const binDir = path.join(tmpHome, 'bin');
+
+/** Codex, but run from a fake binary so the real one on this machine never matters. */
+function fakeCodex(): AgentDefinition {
+  return { ...getDefinitionOrThrow('codex'), binaries: ['fakecodex'] };
+}
+
+async function writeFakeCodex(version: string, body = ''): Promise<string> {
+  const filePath = path.join(binDir, 'fakecodex');
+  const script = [
+    '#!/bin/sh',
+    `if [ "$1" = "--version" ]; then echo "codex-cli ${version}"; exit 0; fi`,
+    body,
+  ].join('\n');
+  await fs.writeFile(filePath, `${script}\n`, { mode: 0o755 });
+  return filePath;
+}
+
+beforeEach(async () => {
+  for (const entry of await fs.readdir(tmpHome)) {
+    await fs.rm(path.join(tmpHome, entry), { recursive: true, force: true });
+  }
+  await fs.mkdir(binDir);
+  process.env.npm_config_prefix = path.join(tmpHome, 'npm-global');
+  process.env.PATH = [binDir, savedEnv.PATH].join(path.delimiter);
+  delete process.env.OPENAI_API_KEY;
+  delete process.env.ANTHROPIC_API_KEY;
+  resetDetectionCache();
+});
+
+afterEach(() => {
+  process.env = { ...savedEnv };
+});
+
+afterAll(async () => {
+  await fs.rm(tmpHome, { recursive: true, force: true });
+});
+
+describe.skipIf(process.platform === 'win32')('planExec', () => {
+  it('gives the agent its own key and yolo flag, and strips everyone else\'s keys', async () => {
+    const binary = await writeFakeCodex('0.40.0');
+    await writeSecrets(new Map([['OPENAI_API_KEY', 'sk-openai'], ['ANTHROPIC_API_KEY', 'sk-ant'], ['MY_EXTRA_TOKEN', 'extra']]));
+    process.env.ANTHROPIC_API_KEY = 'sk-ant-from-shell';
+    process.env.MY_EXTRA_TOKEN = 'extra';
+
+    const plan = await planExec(fakeCodex(), ['-p', 'fix lint']);
+    expect(plan.command).toBe(binary);
+    expect(plan.args).toEqual(['--yolo', '-p', 'fix lint']);
+    expect(plan.injected).toEqual(['OPENAI_API_KEY']);
+    expect(plan.env.OPENAI_API_KEY).toBe('sk-openai');
+    expect(plan.env).not.toHaveProperty('ANTHROPIC_API_KEY');
+    expect(plan.env).not.toHaveProperty('MY_EXTRA_TOKEN');
+    expect(plan.env.PATH).toBe(process.env.PATH);
+  });
+
+  it('gives a key to every agent that reads it', async () => {
+    const filePath = path.join(binDir, 'fakeaider');
+    await fs.writeFile(filePath, '#!/bin/sh\necho "aider 0.86.0"\n', { mode: 0o755 });
+    await writeSecrets(new Map([['OPENAI_API_KEY', 'sk-openai'], ['ANTHROPIC_API_KEY', 'sk-ant-x'], ['CURSOR_API_KEY', 'cursor']]));
+    process.env.CURSOR_API_KEY = 'cursor';
+
+    const plan = await planExec({ ...getDefinitionOrThrow('aider'), binaries: ['fakeaider'] }, []);
+    expect(plan.args).toEqual(['--yes-always']);
+    expect(plan.injected).toEqual(['ANTHROPIC_API_KEY', 'OPENAI_API_KEY']);
+    expect(plan.env).toMatchObject({ ANTHROPIC_API_KEY: 'sk-ant-x', OPENAI_API_KEY: 'sk-openai' });
+    expect(plan.env).not.toHaveProperty('CURSOR_API_KEY');
+    expect(plan.missing).toEqual(['DEEPSEEK_API_KEY', 'OPENROUTER_API_KEY']);
+  });
+
+  it('uses the flag the installed version understands', async () => {
+    await writeFakeCodex('0.20.0');
+    const plan = await planExec(fakeCodex(), []);
+    expect(plan.args).toEqual(['--dangerously-bypass-approvals-and-sandbox']);
+  });
+
+  it('reports keys it has nowhere to get', async () => {
+    await writeFakeCodex('0.40.0');
+    expect(await planExec(fakeCodex(), [])).toMatchObject({ injected: [], missing: ['OPENAI_API_KEY'] });
+  });
+
+  it('refuses agents that are not installed or have no command', async () => {
+    await expect(planExec(fakeCodex(), [])).rejects.toThrow('Codex is not installed; run `letsyolo install codex`');
+    await expect(planExec(getDefinitionOrThrow('claude-desktop'), [])).rejects.toThrow(/desktop app/);
+  });
+});
+
+describe.skipIf(process.platform === 'win32')('runExec', () => {
+  it('runs the agent with the planned environment and returns its exit code', async () => {
+    const out = path.join(tmpHome, 'out.txt');
+    await writeFakeCodex('0.40.0', `echo "$* key=$OPENAI_API_KEY other=\${ANTHROPIC_API_KEY-none}" > '${out}'; exit 7`);
+    await writeSecrets(new Map([['OPENAI_API_KEY', 'sk-openai'], ['ANTHROPIC_API_KEY', 'sk-ant']]));
+
+    expect(await runExec(await planExec(fakeCodex(), ['exec', 'hi']))).toBe(7);
+    expect(await fs.readFile(out, 'utf-8')).toBe('--yolo exec hi key=sk-openai other=none\n');
+  });
+
+  it('reports death by signal the way shells do', async () => {
+    await writeFakeCodex('0.40.0', 'kill -TERM $$');
+    expect(await runExec(await planExec(fakeCodex(), []))).toBe(143);
+  });
+});
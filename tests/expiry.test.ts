@@ -0,0 +1,178 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+
+const disableYoloMock = vi.fn();
+
+vi.mock('../src/configure.js', () => ({
+  disableYolo: disableYoloMock,
+}));
+
+const { clearExpiry, expireDue, formatTimeLeft, listExpiries, parseDuration, recordExpiries, recordExpiry } = await import(
+  '../src/expiry.js'
+);
+
+let tmpDir: string;
+let stateFile: string;
+
+beforeEach(async () => {
+  tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'letsyolo-expiry-test-'));
+  stateFile = path.join(tmpDir, 'expiry.json');
+  disableYoloMock.mockReset();
+});
+
+afterEach(async () => {
+  await fs.rm(tmpDir, { recursive: true, force: true });
+});
+
+describe('parseDuration', () => {
+  it('should parse single and compound units', () => {
+    expect(parseDuration('30m')).toBe(30 * 60 * 1000);
+    expect(parseDuration('2h')).toBe(2 * 60 * 60 * 1000);
+    expect(parseDuration('1h30m')).toBe(90 * 60 * 1000);
+    expect(parseDuration('1D')).toBe(24 * 60 * 60 * 1000);
+  });
+
+  it('should reject bare numbers, unknown units and zero', () => {
+    expect(() => parseDuration('90')).toThrow('Invalid duration: 90');
+    expect(() => parseDuration('2y')).toThrow('Invalid duration');
+    expect(() => parseDuration('0m')).toThrow('longer than zero');
+  });
+});
+
+describe('formatTimeLeft', () => {
+  const now = new Date('2026-01-01T00:00:00.000Z');
+
+  it('should describe the remaining time', () => {
+    expect(formatTimeLeft('2026-01-01T01:30:00.000Z', now)).toBe('1h 30m left');
+    expect(formatTimeLeft('2026-01-03T00:05:00.000Z', now)).toBe('2d 5m left');
+    expect(formatTimeLeft('2026-01-01T00:00:10.000Z', now)).toBe('1m left');
+  });
+
+  it('should report past windows as expired', () => {
+    expect(formatTimeLeft('2025-12-31T23:59:00.000Z', now)).toBe('expired');
+  });
+});
+
+describe('recordExpiry', () => {
+  it('should replace the window for the same scope and keep others', async () => {
+    await recordExpiry('claude-code', new Date('2026-01-01T02:00:00.000Z'), {}, stateFile);
+    await recordExpiry('codex', new Date('2026-01-01T03:00:00.000Z'), { profile: 'yolo' }, stateFile);
+    await recordExpiry('claude-code', new Date('2026-01-01T01:00:00.000Z'), {}, stateFile);
+
+    expect(await listExpiries(stateFile)).toEqual([
+      { agent: 'claude-code', expiresAt: '2026-01-01T01:00:00.000Z' },
+      { agent: 'codex', profile: 'yolo', expiresAt: '2026-01-01T03:00:00.000Z' },
+    ]);
+  });
+
+  it('should store project directories as absolute paths', async () => {
+    const entry = await recordExpiry('claude-code', new Date(), { projectDir: 'repo' }, stateFile);
+    expect(entry.projectDir).toBe(path.resolve('repo'));
+  });
+
+  it('should write the state file with owner-only permissions', async () => {
+    if (process.platform === 'win32') return;
+    await recordExpiry('codex', new Date(), {}, stateFile);
+    const stat = await fs.stat(stateFile);
+    expect(stat.mode & 0o777).toBe(0o600);
+  });
+});
+
+describe('recordExpiries', () => {
+  it('should start a window for every persistent change, with or without a level', async () => {
+    const expiresAt = new Date('2026-01-01T02:00:00.000Z');
+    const config = { cliFlag: '--yolo', details: '' };
+    const results = [
+      { type: 'claude-code', displayName: 'Claude Code', success: true, config: { ...config, enabled: true, level: 'full-bypass' as const, sessionOnly: false } },
+      // Gemini's autoAccept is a persistent change with no level.
+      { type: 'gemini', displayName: 'Gemini CLI', success: true, config: { ...config, enabled: false, sessionOnly: false } },
+      { type: 'copilot', displayName: 'GitHub Copilot', success: true, config: { ...config, enabled: false, sessionOnly: true } },
+      { type: 'aider', displayName: 'Aider', success: false, error: 'Not installed' },
+    ];
+
+    await recordExpiries(results, expiresAt, {}, stateFile);
+
+    expect((await listExpiries(stateFile)).map((entry) => entry.agent)).toEqual(['claude-code', 'gemini']);
+    expect(results[1].config?.expiries).toEqual([{ agent: 'gemini', expiresAt: expiresAt.toISOString() }]);
+    expect(results[2].config?.expiries).toBeUndefined();
+  });
+});
+
+describe('clearExpiry', () => {
+  it('should only clear the matching scope', async () => {
+    await recordExpiry('codex', new Date('2026-01-01T01:00:00.000Z'), {}, stateFile);
+    await recordExpiry('codex', new Date('2026-01-01T02:00:00.000Z'), { profile: 'yolo' }, stateFile);
+
+    await clearExpiry('codex', {}, stateFile);
+
+    expect(await listExpiries(stateFile)).toEqual([
+      { agent: 'codex', profile: 'yolo', expiresAt: '2026-01-01T02:00:00.000Z' },
+    ]);
+  });
+
+  it('should remove the state file once nothing is pending', async () => {
+    await recordExpiry('codex', new Date(), {}, stateFile);
+    await clearExpiry('codex', {}, stateFile);
+    await expect(fs.access(stateFile)).rejects.toThrow();
+  });
+});
+
+describe('expireDue', () => {
+  const now = new Date('2026-01-01T12:00:00.000Z');
+
+  it('should disable agents whose window has passed, with their scope', async () => {
+    disableYoloMock.mockResolvedValue({ type: 'codex', displayName: 'Codex', success: true });
+    await recordExpiry('codex', new Date('2026-01-01T11:00:00.000Z'), { profile: 'yolo' }, stateFile);
+    await recordExpiry('claude-code', new Date('2026-01-01T13:00:00.000Z'), {}, stateFile);
+
+    const results = await expireDue(now, stateFile);
+
+    expect(results).toHaveLength(1);
+    expect(disableYoloMock).toHaveBeenCalledWith('codex', { projectDir: undefined, profile: 'yolo' });
+    expect(await listExpiries(stateFile)).toEqual([
+      { agent: 'claude-code', expiresAt: '2026-01-01T13:00:00.000Z' },
+    ]);
+  });
+
+  it('should keep entries that failed to revert so the next run retries', async () => {
+    disableYoloMock.mockResolvedValue({ type: 'codex', displayName: 'Codex', success: false, error: 'Invalid TOML' });
+    await recordExpiry('codex', new Date('2026-01-01T11:00:00.000Z'), {}, stateFile);
+
+    const results = await expireDue(now, stateFile);
+
+    expect(results[0].success).toBe(false);
+    expect(await listExpiries(stateFile)).toHaveLength(1);
+  });
+
+  it('should carry on past entries that throw', async () => {
+    disableYoloMock.mockRejectedValueOnce(new Error('boom'));
+    disableYoloMock.mockResolvedValueOnce({ type: 'codex', displayName: 'Codex', success: true });
+    await recordExpiry('claude-code', new Date('2026-01-01T10:00:00.000Z'), {}, stateFile);
+    await recordExpiry('codex', new Date('2026-01-01T11:00:00.000Z'), {}, stateFile);
+
+    const results = await expireDue(now, stateFile);
+
+    expect(results).toEqual([
+      { type: 'claude-code', displayName: 'Claude Code', success: false, error: 'boom' },
+      { type: 'codex', displayName: 'Codex', success: true },
+    ]);
+    expect((await listExpiries(stateFile)).map((entry) => entry.agent)).toEqual(['claude-code']);
+  });
+
+  it('should drop entries for agents that are no longer defined', async () => {
+    await recordExpiry('goose', new Date('2026-01-01T11:00:00.000Z'), {}, stateFile);
+
+    const results = await expireDue(now, stateFile);
+
+    expect(results).toMatchObject([{ type: 'goose', success: false, error: expect.stringContaining('no longer a known agent') }]);
+    expect(disableYoloMock).not.toHaveBeenCalled();
+    expect(await listExpiries(stateFile)).toEqual([]);
+  });
+
+  it('should do nothing without a state file', async () => {
+    expect(await expireDue(now, stateFile)).toEqual([]);
+    expect(disableYoloMock).not.toHaveBeenCalled();
+  });
+});
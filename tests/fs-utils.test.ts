@@ -0,0 +1,101 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { isConflictError, snapshotFile, withFileLock, writeFileAtomic } from '../src/fs-utils.js';
+
+let dir: string;
+
+beforeEach(async () => {
+  dir = await fs.mkdtemp(path.join(os.tmpdir(), 'letsyolo-fs-'));
+});
+
+afterEach(async () => {
+  await fs.rm(dir, { recursive: true, force: true });
+});
+
+describe('writeFileAtomic with an expected snapshot', () => {
+  it('writes when the file is unchanged since the snapshot', async () => {
+    const file = path.join(dir, 'settings.json');
+    await fs.writeFile(file, '{}\n');
+    const snapshot = await snapshotFile(file);
+
+    await writeFileAtomic(file, '{"a":1}\n', { expected: snapshot });
+    expect(await fs.readFile(file, 'utf-8')).toBe('{"a":1}\n');
+  });
+
+  it('refuses to replace content another process wrote after the snapshot', async () => {
+    const file = path.join(dir, 'settings.json');
+    await fs.writeFile(file, '{}\n');
+    const snapshot = await snapshotFile(file);
+    await fs.writeFile(file, '{"theme":"dark"}\n');
+
+    const error = await writeFileAtomic(file, '{"a":1}\n', { expected: snapshot }).catch((e: unknown) => e);
+    expect(isConflictError(error)).toBe(true);
+    expect(await fs.readFile(file, 'utf-8')).toBe('{"theme":"dark"}\n');
+    expect((await fs.readdir(dir)).filter((name) => name.endsWith('.tmp'))).toEqual([]);
+  });
+
+  it('treats a file created after a missing-file snapshot as a conflict', async () => {
+    const file = path.join(dir, 'config.toml');
+    const snapshot = await snapshotFile(file);
+    expect(snapshot).toEqual({ hash: null, mtimeMs: null });
+    await fs.writeFile(file, 'model = "o3"\n');
+
+    const error = await writeFileAtomic(file, 'x = 1\n', { expected: snapshot }).catch((e: unknown) => e);
+    expect(isConflictError(error)).toBe(true);
+  });
+
+  it('does not count a bare mtime change as a conflict', async () => {
+    const file = path.join(dir, 'settings.json');
+    await fs.writeFile(file, '{}\n');
+    const snapshot = await snapshotFile(file);
+    const later = new Date(Date.now() + 60_000);
+    await fs.utimes(file, later, later);
+
+    await writeFileAtomic(file, '{"a":1}\n', { expected: snapshot });
+    expect(await fs.readFile(file, 'utf-8')).toBe('{"a":1}\n');
+  });
+});
+
+describe('withFileLock', () => {
+  it('serializes holders of the same file and removes the lock afterwards', async () => {
+    const file = path.join(dir, 'settings.json');
+    const order: string[] = [];
+    const hold = (name: string) => withFileLock(file, async () => {
+      order.push(`${name} start`);
+      await new Promise((resolve) => setTimeout(resolve, 30));
+      order.push(`${name} end`);
+    });
+
+    await Promise.all([hold('a'), hold('b')]);
+    expect(order).toEqual(['a start', 'a end', 'b start', 'b end']);
+    expect(await fs.readdir(dir)).toEqual([]);
+  });
+
+  it('gives up with a clear error while another run holds the lock', async () => {
+    const file = path.join(dir, 'settings.json');
+    await fs.writeFile(`${file}.letsyolo.lock`, '123\n');
+
+    await expect(withFileLock(file, async () => 'ran', { timeoutMs: 100 })).rejects.toThrow(
+      'is locked by another letsyolo run',
+    );
+  });
+
+  it('takes over a stale lock left by a crashed run', async () => {
+    const file = path.join(dir, 'settings.json');
+    const lock = `${file}.letsyolo.lock`;
+    await fs.writeFile(lock, '123\n');
+    const old = new Date(Date.now() - 120_000);
+    await fs.utimes(lock, old, old);
+
+    expect(await withFileLock(file, async () => 'ran')).toBe('ran');
+    await expect(fs.access(lock)).rejects.toThrow();
+  });
+
+  it('runs without a lock when the directory does not exist yet', async () => {
+    const file = path.join(dir, 'missing', 'settings.json');
+    expect(await withFileLock(file, async () => 'ran')).toBe('ran');
+    await expect(fs.access(path.join(dir, 'missing'))).rejects.toThrow();
+  });
+});
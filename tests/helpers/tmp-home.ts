@@ -0,0 +1,15 @@
+import { mkdtempSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { vi } from 'vitest';
+
+/**
+ * A throwaway home directory. Importing this module points `os.homedir()` at
+ * it, so import it before the modules under test, which read the home
+ * directory when they load. Each test file removes it in its own afterAll.
+ */
+export const tmpHome = mkdtempSync(`${tmpdir()}/letsyolo-home-`);
+
+vi.mock('node:os', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('node:os')>();
+  return { ...actual, default: { ...actual, homedir: () => tmpHome }, homedir: () => tmpHome };
+});
@@ -0,0 +1,122 @@
+import { afterAll, afterEach, beforeEach, describe, expect, it } from 'vitest';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import type { AgentDefinition } from '../src/types.js';
+
+// Fake agents, their install targets and the detection cache live under a throwaway home.
+import { tmpHome } from './helpers/tmp-home.js';
+
+const { resetDetectionCache } = await import('../src/detect-cache.js');
+const { checkInstallable, getRequiredTools, installAgent, planInstall } = await import('../src/install.js');
+
+const savedEnv = { ...process.env };
+const binDir = path.join(tmpHome, 'bin');
+
+function fakeAgent(installCommand: string, extra: Partial<AgentDefinition> = {}): AgentDefinition {
+  return {
+    type: 'fakeagent',
+    displayName: 'Fake Agent',
+    binaries: ['fakeagent'],
+    versionFlag: '--version',
+    installCommand,
+    yoloFlag: '--yolo',
+    configFormat: 'none',
+    persistentToggle: false,
+    ...extra,
+  };
+}
+
+/** Shell command that "installs" fakeagent into the temp bin directory. */
+function installScript(): string {
+  const target = path.join(binDir, 'fakeagent');
+  return `printf '#!/bin/sh\\necho "fakeagent 3.1.0"\\n' > '${target}' && chmod +x '${target}'`;
+}
+
+beforeEach(async () => {
+  for (const entry of await fs.readdir(tmpHome)) {
+    await fs.rm(path.join(tmpHome, entry), { recursive: true, force: true });
+  }
+  await fs.mkdir(binDir);
+  process.env.npm_config_prefix = path.join(tmpHome, 'npm-global');
+  resetDetectionCache();
+});
+
+afterEach(() => {
+  process.env = { ...savedEnv };
+});
+
+afterAll(async () => {
+  await fs.rm(tmpHome, { recursive: true, force: true });
+});
+
+describe('getRequiredTools', () => {
+  it('finds the program behind each pipeline segment', () => {
+    expect(getRequiredTools('npm install -g @openai/codex')).toEqual(['npm']);
+    expect(getRequiredTools('curl https://cursor.com/install -fsS | bash')).toEqual(['curl', 'bash']);
+    expect(getRequiredTools('FOO=1 uv tool install aider-chat && uv tool update-shell')).toEqual(['uv']);
+  });
+});
+
+describe('checkInstallable', () => {
+  it('refuses when the package manager is missing', async () => {
+    process.env.PATH = binDir;
+    expect(await checkInstallable(fakeAgent('npm install -g fakeagent'))).toMatch(/^npm is not installed.*Node\.js/);
+    expect(await checkInstallable(fakeAgent('uv tool install fakeagent'))).toMatch(/^uv is not installed/);
+  });
+
+  it('refuses agents whose install command is only instructions', async () => {
+    const def = fakeAgent('Download it from https://example.com', { manualInstall: true });
+    expect(await checkInstallable(def)).toBe('Fake Agent has no install command to run: Download it from https://example.com');
+  });
+
+  it('accepts commands whose tools are on PATH', async () => {
+    await fs.writeFile(path.join(binDir, 'npm'), '#!/bin/sh\n', { mode: 0o755 });
+    process.env.PATH = binDir;
+    expect(await checkInstallable(fakeAgent('npm install -g fakeagent'))).toBeNull();
+  });
+});
+
+describe.skipIf(process.platform === 'win32')('install', () => {
+  beforeEach(() => {
+    process.env.PATH = [binDir, savedEnv.PATH].join(path.delimiter);
+  });
+
+  it('runs the install command and detects the agent afterwards', async () => {
+    const def = fakeAgent(installScript());
+    expect(await planInstall(def)).toBeNull();
+
+    expect(await installAgent(def, 'ignore')).toEqual({
+      type: 'fakeagent',
+      displayName: 'Fake Agent',
+      command: def.installCommand,
+      status: 'installed',
+      exitCode: 0,
+      path: path.join(binDir, 'fakeagent'),
+      version: 'fakeagent 3.1.0',
+    });
+  });
+
+  it('leaves already installed agents alone', async () => {
+    await fs.writeFile(path.join(binDir, 'fakeagent'), '#!/bin/sh\necho "fakeagent 2.0.0"\n', { mode: 0o755 });
+    expect(await planInstall(fakeAgent(installScript()))).toMatchObject({
+      status: 'already-installed',
+      version: 'fakeagent 2.0.0',
+    });
+  });
+
+  it('reports a failing install command with its exit code', async () => {
+    expect(await installAgent(fakeAgent('exit 3'), 'ignore')).toMatchObject({
+      status: 'failed',
+      exitCode: 3,
+      error: 'Install command exited with 3',
+    });
+  });
+
+  it('fails when the agent still cannot be found after installing', async () => {
+    expect(await installAgent(fakeAgent('true'), 'ignore')).toMatchObject({
+      status: 'failed',
+      exitCode: 0,
+      error: expect.stringContaining('`fakeagent` still can\'t be found'),
+    });
+  });
+});
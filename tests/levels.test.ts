@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import {
+  AUTONOMY_LEVELS,
+  getLevelDefinition,
+  levelFromClaudeMode,
+  levelFromCodexSettings,
+  parseAutonomyLevel,
+} from '../src/levels.js';
+
+describe('parseAutonomyLevel', () => {
+  it('should parse canonical names', () => {
+    for (const { level } of AUTONOMY_LEVELS) {
+      expect(parseAutonomyLevel(level)).toBe(level);
+    }
+  });
+
+  it('should parse aliases case-insensitively', () => {
+    expect(parseAutonomyLevel('Edits')).toBe('accept-edits');
+    expect(parseAutonomyLevel('auto')).toBe('sandboxed-auto');
+    expect(parseAutonomyLevel('YOLO')).toBe('full-bypass');
+  });
+
+  it('should return undefined for unknown levels', () => {
+    expect(parseAutonomyLevel('reckless')).toBeUndefined();
+  });
+});
+
+describe('level mapping', () => {
+  it('should round-trip every level through Claude Code modes', () => {
+    for (const { level, claudeMode } of AUTONOMY_LEVELS) {
+      expect(levelFromClaudeMode(claudeMode)).toBe(level);
+    }
+  });
+
+  it('should round-trip every level through Codex settings', () => {
+    for (const { level, codex } of AUTONOMY_LEVELS) {
+      expect(levelFromCodexSettings(codex.approvalPolicy, codex.sandboxMode)).toBe(level);
+    }
+  });
+
+  it('should not map default or unknown settings to a level', () => {
+    expect(levelFromClaudeMode('default')).toBeNull();
+    expect(levelFromClaudeMode(undefined)).toBeNull();
+    expect(levelFromCodexSettings('never', undefined)).toBeNull();
+  });
+
+  it('should keep full-bypass as the classic yolo settings', () => {
+    const def = getLevelDefinition('full-bypass');
+    expect(def.claudeMode).toBe('bypassPermissions');
+    expect(def.codex).toEqual({ approvalPolicy: 'never', sandboxMode: 'danger-full-access' });
+  });
+});
@@ -0,0 +1,324 @@
+import { afterAll, afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { execFile } from 'node:child_process';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { PassThrough } from 'node:stream';
+import { promisify } from 'node:util';
+
+// The secrets file, the password store and the fake keyring live under a throwaway home.
+import { tmpHome } from './helpers/tmp-home.js';
+
+const { createPassStore, createSecretToolStore } = await import('../src/secret-store.js');
+const {
+  ENCRYPTED_SECRETS_FILE,
+  SECRETS_FILE,
+  checkApiKeyStatus,
+  formatSecrets,
+  getActiveSecretStore,
+  interactiveSetup,
+  parseSecretsFile,
+  readSecrets,
+  removeSecret,
+  setSecretStore,
+  storeSecrets,
+  writeSecrets,
+} = await import('../src/secrets.js');
+
+const execFileAsync = promisify(execFile);
+const savedEnv = { ...process.env };
+const binDir = path.join(tmpHome, 'bin');
+const passDir = path.join(tmpHome, '.password-store');
+const keyringDir = path.join(tmpHome, 'keyring');
+
+async function writeScript(name: string, body: string): Promise<void> {
+  await fs.writeFile(path.join(binDir, name), `#!/bin/sh\n${body}\n`, { mode: 0o755 });
+}
+
+/** A pass that keeps entries unencrypted, in the same layout as the real one. */
+async function writeFakePass(): Promise<void> {
+  await fs.mkdir(passDir);
+  await fs.writeFile(path.join(passDir, '.gpg-id'), 'test@example.com\n');
+  await writeScript('pass', [
+    'dir="$PASSWORD_STORE_DIR"',
+    'case "$1" in',
+    '  show) cat "$dir/$2.gpg" ;;',
+    '  insert) mkdir -p "$(dirname "$dir/$4.gpg")"; cat > "$dir/$4.gpg" ;;',
+    '  rm) rm "$dir/$3.gpg" ;;',
+    'esac',
+  ].join('\n'));
+}
+
+/** A secret-tool backed by one file per key; like the real one, details go to stderr. */
+async function writeFakeSecretTool(): Promise<void> {
+  await writeScript('secret-tool', [
+    `dir='${keyringDir}'`,
+    'case "$1" in',
+    '  store) mkdir -p "$dir"; cat > "$dir/$7" ;;',
+    '  lookup) [ -f "$dir/$5" ] && cat "$dir/$5" ;;',
+    '  clear) rm -f "$dir/$5" ;;',
+    '  search) for f in "$dir"/*; do [ -f "$f" ] && echo "attribute.key = $(basename "$f")" >&2; done; true ;;',
+    'esac',
+  ].join('\n'));
+}
+
+beforeEach(async () => {
+  for (const entry of await fs.readdir(tmpHome)) {
+    await fs.rm(path.join(tmpHome, entry), { recursive: true, force: true });
+  }
+  await fs.mkdir(binDir);
+  process.env.PASSWORD_STORE_DIR = passDir;
+  process.env.PATH = [binDir, savedEnv.PATH].join(path.delimiter);
+  delete process.env.ANTHROPIC_API_KEY;
+  delete process.env.OPENAI_API_KEY;
+  delete process.env.LETSYOLO_PASSPHRASE;
+});
+
+afterEach(() => {
+  process.env = { ...savedEnv };
+});
+
+afterAll(async () => {
+  await fs.rm(tmpHome, { recursive: true, force: true });
+});
+
+describe.skipIf(process.platform === 'win32')('pass store', () => {
+  it('stores each key as an entry under letsyolo/', async () => {
+    await writeFakePass();
+    const store = createPassStore();
+    expect(await store.checkAvailable()).toBeNull();
+
+    await store.set('ANTHROPIC_API_KEY', 'sk-ant-one');
+    await store.set('OPENAI_API_KEY', 'sk-two');
+    expect(await fs.readFile(path.join(passDir, 'letsyolo/ANTHROPIC_API_KEY.gpg'), 'utf-8')).toBe('sk-ant-one\n');
+    expect(await store.list()).toEqual(['ANTHROPIC_API_KEY', 'OPENAI_API_KEY']);
+    expect(await store.get('ANTHROPIC_API_KEY')).toBe('sk-ant-one');
+
+    await store.delete('OPENAI_API_KEY');
+    expect(await store.list()).toEqual(['ANTHROPIC_API_KEY']);
+    expect(await store.get('OPENAI_API_KEY')).toBeUndefined();
+  });
+
+  it('needs pass installed and initialized', async () => {
+    process.env.PATH = binDir;
+    expect(await createPassStore().checkAvailable()).toMatch(/^pass is not installed/);
+    await writeFakePass();
+    await fs.rm(path.join(passDir, '.gpg-id'));
+    expect(await createPassStore().checkAvailable()).toMatch(/pass init/);
+  });
+});
+
+describe.skipIf(process.platform === 'win32')('secret-tool store', () => {
+  it('stores, finds and clears keys by attribute', async () => {
+    await writeFakeSecretTool();
+    const store = createSecretToolStore();
+    expect(await store.checkAvailable()).toBeNull();
+
+    await store.set('GEMINI_API_KEY', 'gemini-secret');
+    expect(await store.list()).toEqual(['GEMINI_API_KEY']);
+    expect(await store.get('GEMINI_API_KEY')).toBe('gemini-secret');
+    expect(await store.get('OPENAI_API_KEY')).toBeUndefined();
+
+    await store.delete('GEMINI_API_KEY');
+    expect(await store.list()).toEqual([]);
+  });
+});
+
+describe.skipIf(process.platform === 'win32')('setSecretStore', () => {
+  it('moves plaintext keys into pass and leaves only loader commands in the secrets file', async () => {
+    await writeFakePass();
+    await writeSecrets(new Map([['ANTHROPIC_API_KEY', 'sk-ant-secret'], ['OPENAI_API_KEY', 'sk-openai-secret']]));
+
+    expect(await setSecretStore('pass')).toEqual(['ANTHROPIC_API_KEY', 'OPENAI_API_KEY']);
+    expect((await getActiveSecretStore()).name).toBe('pass');
+
+    const file = await fs.readFile(SECRETS_FILE, 'utf-8');
+    expect(file).not.toContain('secret"');
+    expect(file).toContain('export ANTHROPIC_API_KEY="$(pass show letsyolo/ANTHROPIC_API_KEY 2>/dev/null | head -n 1)"');
+    expect(await readSecrets()).toEqual(new Map([['ANTHROPIC_API_KEY', 'sk-ant-secret'], ['OPENAI_API_KEY', 'sk-openai-secret']]));
+
+    // A shell sourcing the file gets the value from pass.
+    const { stdout } = await execFileAsync('sh', ['-c', `. '${SECRETS_FILE}'; printf %s "$ANTHROPIC_API_KEY"`]);
+    expect(stdout).toBe('sk-ant-secret');
+  });
+
+  it('reports which backend holds each key', async () => {
+    await writeFakeSecretTool();
+    await setSecretStore('secret-tool');
+    await writeSecrets(new Map([['GEMINI_API_KEY', 'gemini-secret']]));
+
+    const status = await checkApiKeyStatus();
+    expect(status.find((s) => s.envVar === 'GEMINI_API_KEY')).toMatchObject({ set: true, source: 'secret-tool', backend: 'secret-tool' });
+    expect(status.find((s) => s.envVar === 'CURSOR_API_KEY')).toMatchObject({ backend: null });
+  });
+
+  it('empties the old store when moving back to the env file', async () => {
+    await writeFakePass();
+    await setSecretStore('pass');
+    await writeSecrets(new Map([['ANTHROPIC_API_KEY', 'sk-ant-secret']]));
+
+    expect(await setSecretStore('env-file')).toEqual(['ANTHROPIC_API_KEY']);
+    expect(await createPassStore().list()).toEqual([]);
+    expect(await fs.readFile(SECRETS_FILE, 'utf-8')).toContain('export ANTHROPIC_API_KEY="sk-ant-secret"');
+  });
+
+  it('refuses a store that is not available and keeps the current one', async () => {
+    process.env.PATH = binDir;
+    await expect(setSecretStore('secret-tool')).rejects.toThrow(/secret-tool is not installed/);
+    expect((await getActiveSecretStore()).name).toBe('env-file');
+  });
+});
+
+describe('encrypted store', () => {
+  beforeEach(() => {
+    process.env.LETSYOLO_PASSPHRASE = 'correct horse battery staple';
+  });
+
+  it('moves keys into secrets.enc and out of the plaintext file', async () => {
+    await writeSecrets(new Map([['ANTHROPIC_API_KEY', 'sk-ant-secret'], ['GITHUB_TOKEN', 'ghp_secret']]));
+
+    expect(await setSecretStore('encrypted')).toEqual(['ANTHROPIC_API_KEY', 'GITHUB_TOKEN']);
+    const encrypted = await fs.readFile(ENCRYPTED_SECRETS_FILE, 'utf-8');
+    expect(encrypted).not.toContain('secret');
+    expect(JSON.parse(encrypted)).toMatchObject({ kdf: 'scrypt', cipher: 'aes-256-gcm', keys: ['ANTHROPIC_API_KEY', 'GITHUB_TOKEN'] });
+    expect(await fs.readFile(SECRETS_FILE, 'utf-8')).not.toContain('export');
+    expect(await readSecrets()).toEqual(new Map([['ANTHROPIC_API_KEY', 'sk-ant-secret'], ['GITHUB_TOKEN', 'ghp_secret']]));
+  });
+
+  it('lists keys without the passphrase', async () => {
+    await setSecretStore('encrypted');
+    await writeSecrets(new Map([['OPENAI_API_KEY', 'sk-openai-secret']]));
+    delete process.env.LETSYOLO_PASSPHRASE;
+
+    const status = await checkApiKeyStatus();
+    expect(status.find((s) => s.envVar === 'OPENAI_API_KEY')).toMatchObject({ set: true, source: 'encrypted', backend: 'encrypted' });
+  });
+
+  it('rejects a wrong passphrase and a tampered file', async () => {
+    await setSecretStore('encrypted');
+    await writeSecrets(new Map([['OPENAI_API_KEY', 'sk-openai-secret']]));
+
+    process.env.LETSYOLO_PASSPHRASE = 'wrong';
+    await expect(readSecrets()).rejects.toThrow(/Wrong passphrase/);
+    await expect(writeSecrets(new Map([['OPENAI_API_KEY', 'sk-other']]))).rejects.toThrow(/Wrong passphrase/);
+
+    process.env.LETSYOLO_PASSPHRASE = 'correct horse battery staple';
+    const file = JSON.parse(await fs.readFile(ENCRYPTED_SECRETS_FILE, 'utf-8')) as { keys: string[] };
+    file.keys = ['GITHUB_TOKEN'];
+    await fs.writeFile(ENCRYPTED_SECRETS_FILE, JSON.stringify(file));
+    await expect(readSecrets()).rejects.toThrow(/has been modified/);
+  });
+});
+
+describe('storeSecrets / removeSecret', () => {
+  it('adds keys next to the existing ones', async () => {
+    await writeSecrets(new Map([['OPENAI_API_KEY', 'sk-openai']]));
+
+    expect((await storeSecrets(new Map([['GITHUB_TOKEN', 'ghp_token']]))).name).toBe('env-file');
+    expect(await readSecrets()).toEqual(new Map([['OPENAI_API_KEY', 'sk-openai'], ['GITHUB_TOKEN', 'ghp_token']]));
+
+    expect(await removeSecret('OPENAI_API_KEY')).toBe(true);
+    expect(await removeSecret('OPENAI_API_KEY')).toBe(false);
+    expect(await readSecrets()).toEqual(new Map([['GITHUB_TOKEN', 'ghp_token']]));
+  });
+
+  it('rejects names that are not keys and empty values', async () => {
+    await expect(storeSecrets(new Map([['lower_case', 'x']]))).rejects.toThrow(/Invalid key name/);
+    await expect(storeSecrets(new Map([['AMPLIFIER_CONFIGURED', 'x']]))).rejects.toThrow(/status marker/);
+    await expect(storeSecrets(new Map([['OPENAI_API_KEY', '']]))).rejects.toThrow('No value given for OPENAI_API_KEY');
+  });
+
+  it.skipIf(process.platform === 'win32')('keeps the loader file in step with pass', async () => {
+    await writeFakePass();
+    await setSecretStore('pass');
+
+    await storeSecrets(new Map([['GEMINI_API_KEY', 'gemini-secret']]));
+    expect(await fs.readFile(SECRETS_FILE, 'utf-8')).toContain('export GEMINI_API_KEY="$(pass show letsyolo/GEMINI_API_KEY');
+
+    await removeSecret('GEMINI_API_KEY');
+    expect(await fs.readFile(SECRETS_FILE, 'utf-8')).not.toContain('GEMINI_API_KEY');
+  });
+});
+
+describe('parseSecretsFile', () => {
+  it('reads assignments and reports the lines it skips', async () => {
+    const filePath = path.join(tmpHome, 'keys.env');
+    await fs.writeFile(filePath, [
+      '# provisioned keys',
+      'export ANTHROPIC_API_KEY="sk-ant-one"',
+      "OPENAI_API_KEY='sk-two' ",
+      'GITHUB_TOKEN=ghp_three # classic token',
+      'alias ll="ls -la"',
+      'EMPTY_KEY=',
+      'GEMINI_API_KEY="$(pass show gemini)"',
+      '',
+    ].join('\n'));
+
+    const { secrets, skipped } = await parseSecretsFile(filePath);
+    expect(secrets).toEqual(new Map([
+      ['ANTHROPIC_API_KEY', 'sk-ant-one'],
+      ['OPENAI_API_KEY', 'sk-two'],
+      ['GITHUB_TOKEN', 'ghp_three'],
+    ]));
+    expect(skipped).toEqual([
+      { line: 5, reason: 'not a KEY=value line' },
+      { line: 6, reason: 'EMPTY_KEY has no value' },
+      { line: 7, reason: 'GEMINI_API_KEY is a command, not a value' },
+    ]);
+  });
+});
+
+describe('formatSecrets', () => {
+  const secrets = new Map([['OPENAI_API_KEY', 'sk-"x"$y'], ['AMPLIFIER_CONFIGURED', 'configured'], ['ANTHROPIC_API_KEY', 'sk-ant']]);
+
+  it('quotes values for eval and skips the Amplifier marker', () => {
+    expect(formatSecrets(secrets, 'env')).toBe([
+      'export ANTHROPIC_API_KEY="sk-ant"',
+      'export OPENAI_API_KEY="sk-\\"x\\"\\$y"',
+      '',
+    ].join('\n'));
+  });
+
+  it('writes dotenv lines and JSON', () => {
+    expect(formatSecrets(secrets, 'dotenv')).toBe('ANTHROPIC_API_KEY="sk-ant"\nOPENAI_API_KEY="sk-\\"x\\"\\$y"\n');
+    expect(JSON.parse(formatSecrets(secrets, 'json'))).toEqual({ ANTHROPIC_API_KEY: 'sk-ant', OPENAI_API_KEY: 'sk-"x"$y' });
+  });
+});
+
+describe('interactiveSetup', () => {
+  const stdinDescriptor = Object.getOwnPropertyDescriptor(process, 'stdin');
+
+  afterEach(() => {
+    if (stdinDescriptor) Object.defineProperty(process, 'stdin', stdinDescriptor);
+    vi.restoreAllMocks();
+  });
+
+  it('reads keys without echo, cleans them up and re-prompts for bad ones', async () => {
+    // One answer per prompt, the way a terminal delivers a paste and Enter.
+    const answers = ['  "sk-ant-api03-pasted"  \r', 'ghp_wrongservice\r', 'sk-proj-openai1\r', '\r', "'AIzaGemini'\r", '\r', '\r', '\r'];
+    const tty = Object.assign(new PassThrough(), { isTTY: true, setRawMode: vi.fn() });
+    Object.defineProperty(process, 'stdin', { value: tty, configurable: true });
+
+    const written: string[] = [];
+    vi.spyOn(process.stderr, 'write').mockImplementation((chunk: string | Uint8Array) => {
+      written.push(String(chunk));
+      if (String(chunk).endsWith('= ')) setImmediate(() => tty.write(answers.shift() ?? '\r'));
+      return true;
+    });
+    const logged: string[] = [];
+    vi.spyOn(console, 'log').mockImplementation((line?: unknown) => {
+      logged.push(String(line ?? ''));
+    });
+
+    const result = await interactiveSetup();
+    expect(result.saved).toEqual(['ANTHROPIC_API_KEY', 'OPENAI_API_KEY', 'GEMINI_API_KEY']);
+    expect(await readSecrets()).toEqual(new Map([
+      ['ANTHROPIC_API_KEY', 'sk-ant-api03-pasted'],
+      ['OPENAI_API_KEY', 'sk-proj-openai1'],
+      ['GEMINI_API_KEY', 'AIzaGemini'],
+    ]));
+    expect(logged.some((line) => line.includes("That doesn't look like a OpenAI API Key"))).toBe(true);
+    expect(written.join('')).not.toContain('sk-');
+    expect(tty.setRawMode).toHaveBeenCalledWith(true);
+    expect(tty.setRawMode).toHaveBeenLastCalledWith(false);
+  });
+});
@@ -14,6 +14,9 @@ import {
   checkApiKeyStatus,
   scanForExistingKeys,
   maskKey,
+  normalizeKeyValue,
+  checkKeyValue,
+  stripTerminalEscapes,
   API_KEYS,
   SECRETS_FILE,
 } from '../src/secrets.js';
@@ -29,13 +32,16 @@ afterEach(async () => {
 });
 
 describe('API_KEYS', () => {
-  it('should define keys for all 4 agents', () => {
-    expect(API_KEYS).toHaveLength(4);
-    const agents = API_KEYS.map((k) => k.agent);
-    expect(agents).toContain('Claude Code');
-    expect(agents).toContain('Codex');
-    expect(agents).toContain('GitHub Copilot');
-    expect(agents).toContain('Amplifier');
+  it('should define 8 keys covering all 7 CLI agents', () => {
+    expect(API_KEYS).toHaveLength(8);
+    const agents = new Set(API_KEYS.flatMap((k) => k.agentTypes));
+    expect([...agents].sort()).toEqual(['aider', 'amplifier', 'claude-code', 'codex', 'copilot', 'cursor-agent', 'gemini']);
+    expect(API_KEYS.filter((k) => k.agentTypes.includes('aider')).map((k) => k.envVar)).toEqual([
+      'ANTHROPIC_API_KEY',
+      'OPENAI_API_KEY',
+      'DEEPSEEK_API_KEY',
+      'OPENROUTER_API_KEY',
+    ]);
   });
 
   it('should have unique env var names', () => {
@@ -50,6 +56,49 @@ describe('API_KEYS', () => {
   });
 });
 
+describe('normalizeKeyValue', () => {
+  it('should trim whitespace and surrounding quotes', () => {
+    expect(normalizeKeyValue('  sk-ant-abc \t')).toBe('sk-ant-abc');
+    expect(normalizeKeyValue('"sk-ant-abc"')).toBe('sk-ant-abc');
+    expect(normalizeKeyValue(" ' sk-abc ' ")).toBe('sk-abc');
+  });
+
+  it('should leave unmatched quotes alone', () => {
+    expect(normalizeKeyValue('"sk-abc')).toBe('"sk-abc');
+  });
+});
+
+describe('checkKeyValue', () => {
+  const keyDef = (envVar: string) => API_KEYS.find((k) => k.envVar === envVar)!;
+
+  it('should accept keys with the expected prefix', () => {
+    expect(checkKeyValue(keyDef('ANTHROPIC_API_KEY'), 'sk-ant-api03-abc_DEF-123')).toBeNull();
+    expect(checkKeyValue(keyDef('OPENAI_API_KEY'), 'sk-proj-abc123')).toBeNull();
+    expect(checkKeyValue(keyDef('GITHUB_TOKEN'), 'ghp_abc123')).toBeNull();
+    expect(checkKeyValue(keyDef('GITHUB_TOKEN'), 'github_pat_11ABC_def')).toBeNull();
+    expect(checkKeyValue(keyDef('GITHUB_TOKEN'), 'gho_abc123')).toBeNull();
+  });
+
+  it('should reject keys for another service', () => {
+    expect(checkKeyValue(keyDef('ANTHROPIC_API_KEY'), 'sk-proj-abc123')).toMatch(/starts with sk-ant-/);
+    expect(checkKeyValue(keyDef('GITHUB_TOKEN'), 'sk-abc')).toMatch(/ghp_, github_pat_ or gho_/);
+    expect(checkKeyValue(keyDef('OPENAI_API_KEY'), 'sk-ant-api03-abc')).toMatch(/not sk-ant-/);
+  });
+
+  it('should reject spaces even without a pattern', () => {
+    expect(checkKeyValue(keyDef('GEMINI_API_KEY'), 'two words')).toMatch(/can't contain spaces/);
+    expect(checkKeyValue(keyDef('GEMINI_API_KEY'), 'AIzaAnything')).toBeNull();
+  });
+});
+
+describe('stripTerminalEscapes', () => {
+  it('should drop paste markers, arrow keys and other escape sequences', () => {
+    expect(stripTerminalEscapes('\u001b[200~sk-abc\u001b[201~')).toBe('sk-abc');
+    expect(stripTerminalEscapes('sk-\u001b[Aab\u001b[1;5Dc\u001bOP\u001bx')).toBe('sk-abc');
+    expect(stripTerminalEscapes('sk-abc\u001b')).toBe('sk-abc');
+  });
+});
+
 describe('maskKey', () => {
   it('should mask long keys', () => {
     const masked = maskKey('sk-ant-REDACTED');
@@ -240,9 +289,9 @@ describe('SECRETS_FILE', () => {
 });
 
 describe('checkApiKeyStatus', () => {
-  it('should return status for all 4 keys', async () => {
+  it('should return status for all 8 keys', async () => {
     const status = await checkApiKeyStatus();
-    expect(status).toHaveLength(4);
+    expect(status).toHaveLength(8);
     for (const s of status) {
       expect(s).toHaveProperty('envVar');
       expect(s).toHaveProperty('agent');
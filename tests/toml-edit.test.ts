@@ -0,0 +1,190 @@
+import { describe, it, expect } from 'vitest';
+import { parse as parseToml } from '@iarna/toml';
+import { removeTomlTable, removeTomlValue, setTomlValue } from '../src/toml-edit.js';
+
+const ANNOTATED = [
+  '# Codex config — hand-tuned, please keep the notes',
+  'model = "o4-mini"   # fast default',
+  '',
+  '# Approvals: flip to "never" only in throwaway VMs',
+  'approval_policy = "on-request" # reviewed 2026-01',
+  '',
+  '# MCP servers',
+  '[mcp_servers.docs]',
+  'command = "npx"',
+  'args = [',
+  '  "-y",',
+  '  "docs-mcp", # pinned',
+  ']',
+  '',
+  '[profiles.deep]',
+  'model = "o3"',
+  'notes = """',
+  'approval_policy = "never"',
+  '[not.a.table]',
+  '"""',
+  '',
+].join('\n');
+
+describe('setTomlValue', () => {
+  it('should replace an existing value in place and keep its comment', () => {
+    const result = setTomlValue(ANNOTATED, ['approval_policy'], 'never');
+    expect(result).toBe(
+      ANNOTATED.replace(
+        'approval_policy = "on-request" # reviewed 2026-01',
+        'approval_policy = "never" # reviewed 2026-01',
+      ),
+    );
+  });
+
+  it('should add a new root key after the last root key, before any table', () => {
+    const result = setTomlValue(ANNOTATED, ['sandbox_mode'], 'danger-full-access');
+    expect(result).toBe(
+      ANNOTATED.replace(
+        'approval_policy = "on-request" # reviewed 2026-01\n',
+        'approval_policy = "on-request" # reviewed 2026-01\nsandbox_mode = "danger-full-access"\n',
+      ),
+    );
+    expect(parseToml(result).sandbox_mode).toBe('danger-full-access');
+  });
+
+  it('should leave tables, arrays and multi-line strings untouched', () => {
+    const result = setTomlValue(ANNOTATED, ['approval_policy'], 'never');
+    const parsed = parseToml(result) as Record<string, any>;
+    expect(parsed.approval_policy).toBe('never');
+    expect(parsed.mcp_servers.docs.args).toEqual(['-y', 'docs-mcp']);
+    expect(parsed.profiles.deep.notes).toBe('approval_policy = "never"\n[not.a.table]\n');
+  });
+
+  it('should not mistake lines inside multi-line strings for keys', () => {
+    const text = 'notes = """\nsandbox_mode = "x"\n"""\n';
+    const result = setTomlValue(text, ['sandbox_mode'], 'workspace-write');
+    expect(result).toBe('notes = """\nsandbox_mode = "x"\n"""\nsandbox_mode = "workspace-write"\n');
+  });
+
+  it('should insert root keys above a leading table and its comment block', () => {
+    const text = '# servers\n[mcp_servers.a]\ncommand = "a"\n';
+    const result = setTomlValue(text, ['approval_policy'], 'never');
+    expect(result).toBe('approval_policy = "never"\n\n# servers\n[mcp_servers.a]\ncommand = "a"\n');
+  });
+
+  it('should edit keys inside an existing table', () => {
+    const result = setTomlValue(ANNOTATED, ['profiles', 'deep', 'model'], 'o4');
+    expect(result).toBe(ANNOTATED.replace('model = "o3"', 'model = "o4"'));
+  });
+
+  it('should append keys to the end of an existing table', () => {
+    const text = '[a]\nx = 1\n\n[b]\ny = 2\n';
+    expect(setTomlValue(text, ['a', 'z'], true)).toBe('[a]\nx = 1\nz = true\n\n[b]\ny = 2\n');
+  });
+
+  it('should create a missing table at the end', () => {
+    const text = 'model = "o3"\n';
+    expect(setTomlValue(text, ['profiles', 'yolo', 'sandbox_mode'], 'danger-full-access')).toBe(
+      'model = "o3"\n\n[profiles.yolo]\nsandbox_mode = "danger-full-access"\n',
+    );
+  });
+
+  it('should handle empty files', () => {
+    expect(setTomlValue('', ['approval_policy'], 'never')).toBe('approval_policy = "never"\n');
+  });
+
+  it('should handle files without a trailing newline', () => {
+    expect(setTomlValue('model = "o3"', ['approval_policy'], 'never')).toBe(
+      'model = "o3"\napproval_policy = "never"',
+    );
+  });
+
+  it('should keep CRLF line endings', () => {
+    const text = 'model = "o3"\r\n\r\n[a]\r\nx = 1\r\n';
+    expect(setTomlValue(text, ['approval_policy'], 'never')).toBe(
+      'model = "o3"\r\napproval_policy = "never"\r\n\r\n[a]\r\nx = 1\r\n',
+    );
+  });
+
+  it('should match quoted keys', () => {
+    const text = '"approval_policy" = "untrusted"\n';
+    expect(setTomlValue(text, ['approval_policy'], 'never')).toBe('"approval_policy" = "never"\n');
+  });
+
+  it('should escape string values', () => {
+    const result = setTomlValue('', ['note'], 'say "hi"\\now');
+    expect(parseToml(result).note).toBe('say "hi"\\now');
+  });
+
+  it('should refuse edits that would produce invalid TOML', () => {
+    const text = 'profiles = { yolo = { model = "o3" } }\n';
+    expect(() => setTomlValue(text, ['profiles', 'yolo', 'sandbox_mode'], 'x')).toThrow(
+      'Refusing to write TOML',
+    );
+  });
+});
+
+describe('removeTomlValue', () => {
+  it('should remove only the target line', () => {
+    const result = removeTomlValue(ANNOTATED, ['approval_policy']);
+    expect(result).toBe(ANNOTATED.replace('approval_policy = "on-request" # reviewed 2026-01\n', ''));
+  });
+
+  it('should return the text unchanged when the key is missing', () => {
+    expect(removeTomlValue(ANNOTATED, ['sandbox_mode'])).toBe(ANNOTATED);
+  });
+
+  it('should remove multi-line values entirely', () => {
+    const text = 'a = [\n  1,\n  2,\n]\nb = 3\n';
+    expect(removeTomlValue(text, ['a'])).toBe('b = 3\n');
+  });
+
+  it('should not touch same-named keys in other tables', () => {
+    const result = removeTomlValue(ANNOTATED, ['model']);
+    expect(result).toContain('[profiles.deep]\nmodel = "o3"');
+    expect(result).not.toContain('# fast default');
+  });
+
+  it('should round-trip enable then disable back to the original bytes', () => {
+    const enabled = setTomlValue(
+      setTomlValue(ANNOTATED.replace('approval_policy = "on-request" # reviewed 2026-01\n', ''), ['approval_policy'], 'never'),
+      ['sandbox_mode'],
+      'danger-full-access',
+    );
+    const disabled = removeTomlValue(removeTomlValue(enabled, ['approval_policy']), ['sandbox_mode']);
+    expect(disabled).toBe(ANNOTATED.replace('approval_policy = "on-request" # reviewed 2026-01\n', ''));
+  });
+});
+
+describe('removeTomlTable', () => {
+  it('should undo a table appended by setTomlValue', () => {
+    const original = 'model = "o3" # keep\n';
+    const added = setTomlValue(
+      setTomlValue(original, ['profiles', 'yolo', 'approval_policy'], 'never'),
+      ['profiles', 'yolo', 'sandbox_mode'],
+      'danger-full-access',
+    );
+    expect(removeTomlTable(added, ['profiles', 'yolo'])).toBe(original);
+  });
+
+  it('should remove a table between others and keep their layout', () => {
+    const text = 'a = 1\n\n[profiles.yolo]\n# why\nx = 1\n\n# servers\n[mcp_servers.a]\ny = 2\n';
+    expect(removeTomlTable(text, ['profiles', 'yolo'])).toBe('a = 1\n\n# servers\n[mcp_servers.a]\ny = 2\n');
+  });
+
+  it('should remove nested sub-tables', () => {
+    const text = 'a = 1\n\n[profiles.yolo]\nx = 1\n\n[profiles.yolo.sandbox_workspace_write]\nnetwork_access = true\n\n[profiles.deep]\nx = 2\n';
+    expect(removeTomlTable(text, ['profiles', 'yolo'])).toBe('a = 1\n\n[profiles.deep]\nx = 2\n');
+  });
+
+  it('should remove dotted keys that define the table', () => {
+    const text = 'profiles.yolo.model = "o3"\nb = 2\n';
+    expect(removeTomlTable(text, ['profiles', 'yolo'])).toBe('b = 2\n');
+  });
+
+  it('should not touch tables that merely share a prefix', () => {
+    const text = '[profiles.yolo2]\nx = 1\n';
+    expect(removeTomlTable(text, ['profiles', 'yolo'])).toBe(text);
+  });
+
+  it('should drop the gap below a table at the top of the file', () => {
+    const text = '[profiles.yolo]\nx = 1\n\n[a]\ny = 2\n';
+    expect(removeTomlTable(text, ['profiles', 'yolo'])).toBe('[a]\ny = 2\n');
+  });
+});
@@ -0,0 +1,227 @@
+import { afterAll, afterEach, beforeEach, describe, expect, it } from 'vitest';
+import fs from 'node:fs/promises';
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import path from 'node:path';
+import type { AgentDefinition } from '../src/types.js';
+
+// Fake npm, fake agents and the detection cache live under a throwaway home.
+import { tmpHome } from './helpers/tmp-home.js';
+
+const { getDefinitionOrThrow } = await import('../src/agents.js');
+const { resetDetectionCache } = await import('../src/detect-cache.js');
+const { checkForUpdate, getLatestVersion, getPackageSource, getUpgradeCommand, upgradeAgent } = await import('../src/updates.js');
+
+const savedEnv = { ...process.env };
+const binDir = path.join(tmpHome, 'bin');
+
+function fakeAgent(installCommand: string): AgentDefinition {
+  return {
+    type: 'fakeagent',
+    displayName: 'Fake Agent',
+    binaries: ['fakeagent'],
+    versionFlag: '--version',
+    installCommand,
+    yoloFlag: '--yolo',
+    configFormat: 'none',
+    persistentToggle: false,
+  };
+}
+
+async function writeScript(name: string, body: string): Promise<string> {
+  const filePath = path.join(binDir, name);
+  await fs.writeFile(filePath, `#!/bin/sh\n${body}\n`, { mode: 0o755 });
+  return filePath;
+}
+
+/** A fake npm whose registry has `latest` and whose install rewrites fakeagent to it. */
+async function writeFakeNpm(latest: string, installedVersion = latest): Promise<void> {
+  const agent = path.join(binDir, 'fakeagent');
+  await writeScript('npm', [
+    'case "$1" in',
+    `  view) echo "$*" >> '${path.join(tmpHome, 'npm.log')}'; echo ${latest} ;;`,
+    `  install) printf '#!/bin/sh\\necho "fakeagent ${installedVersion}"\\n' > '${agent}'; chmod +x '${agent}' ;;`,
+    'esac',
+  ].join('\n'));
+}
+
+beforeEach(async () => {
+  for (const entry of await fs.readdir(tmpHome)) {
+    await fs.rm(path.join(tmpHome, entry), { recursive: true, force: true });
+  }
+  await fs.mkdir(binDir);
+  process.env.npm_config_prefix = path.join(tmpHome, 'npm-global');
+  process.env.PATH = [binDir, savedEnv.PATH].join(path.delimiter);
+  resetDetectionCache();
+});
+
+afterEach(() => {
+  process.env = { ...savedEnv };
+});
+
+afterAll(async () => {
+  await fs.rm(tmpHome, { recursive: true, force: true });
+});
+
+describe('getPackageSource', () => {
+  it('reads npm and uv packages from the built-in install commands', () => {
+    expect(getPackageSource(getDefinitionOrThrow('claude-code'))).toEqual({ manager: 'npm', name: '@anthropic-ai/claude-code', published: true });
+    expect(getPackageSource(getDefinitionOrThrow('aider'))).toEqual({ manager: 'uv', name: 'aider-chat', published: true });
+    expect(getPackageSource(getDefinitionOrThrow('amplifier'))).toEqual({ manager: 'uv', name: 'amplifier', published: false });
+    expect(getPackageSource(getDefinitionOrThrow('cursor-agent'))).toBeNull();
+    expect(getPackageSource(getDefinitionOrThrow('claude-desktop'))).toBeNull();
+  });
+
+  it('drops versions and tags from package specs', () => {
+    expect(getPackageSource(fakeAgent('npm i -g @scope/pkg@1.2.3'))?.name).toBe('@scope/pkg');
+    expect(getPackageSource(fakeAgent('npm install --global pkg@next'))?.name).toBe('pkg');
+    expect(getPackageSource(fakeAgent('uv tool install tool-name==0.5.0'))?.name).toBe('tool-name');
+  });
+});
+
+describe('getUpgradeCommand', () => {
+  it('uses the package manager, pointed at the configured registry', () => {
+    const registries = { npmRegistry: 'http://npm.mirror', pypiIndex: 'http://pypi.mirror/simple' };
+    expect(getUpgradeCommand(getDefinitionOrThrow('codex'), registries)).toBe('npm install -g @openai/codex@latest --registry http://npm.mirror');
+    expect(getUpgradeCommand(getDefinitionOrThrow('aider'), registries)).toBe('uv tool upgrade aider-chat --index-url http://pypi.mirror/simple');
+  });
+
+  it('quotes registry URLs the shell would otherwise interpret', () => {
+    expect(getUpgradeCommand(getDefinitionOrThrow('codex'), { npmRegistry: 'http://npm.mirror/?a=1&b=2' }))
+      .toBe("npm install -g @openai/codex@latest --registry 'http://npm.mirror/?a=1&b=2'");
+    expect(getUpgradeCommand(getDefinitionOrThrow('aider'), { pypiIndex: "http://it's/$(id)" }))
+      .toBe("uv tool upgrade aider-chat --index-url 'http://it'\\''s/$(id)'");
+  });
+
+  it('re-runs installer scripts and refuses manual installs', () => {
+    const cursor = getDefinitionOrThrow('cursor-agent');
+    expect(getUpgradeCommand(cursor)).toBe(cursor.installCommand);
+    expect(getUpgradeCommand(getDefinitionOrThrow('claude-desktop'))).toBeNull();
+  });
+});
+
+describe('getLatestVersion', () => {
+  let server: http.Server;
+  let index: string;
+  const requests: { url?: string; accept?: string }[] = [];
+
+  beforeEach(async () => {
+    requests.length = 0;
+    server = http.createServer((req, res) => {
+      requests.push({ url: req.url, accept: req.headers.accept });
+      if (req.url !== '/simple/aider-chat/') {
+        res.writeHead(404).end();
+        return;
+      }
+      res.writeHead(200, { 'Content-Type': 'application/vnd.pypi.simple.v1+json' });
+      res.end(JSON.stringify({ name: 'aider-chat', versions: ['0.9.0', '0.86.1', '0.86.2rc1', '0.10.0'] }));
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    index = `http://127.0.0.1:${(server.address() as AddressInfo).port}/simple/`;
+  });
+
+  afterEach(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it('picks the newest final release from a PyPI-style index', async () => {
+    expect(await getLatestVersion({ manager: 'uv', name: 'Aider_Chat', published: true }, { pypiIndex: index })).toBe('0.86.1');
+    expect(requests).toEqual([{ url: '/simple/aider-chat/', accept: 'application/vnd.pypi.simple.v1+json' }]);
+  });
+
+  it('falls back to uv\'s own index setting', async () => {
+    process.env.UV_DEFAULT_INDEX = index;
+    expect(await getLatestVersion({ manager: 'uv', name: 'aider-chat', published: true })).toBe('0.86.1');
+  });
+
+  it('reports packages the index does not have', async () => {
+    await expect(getLatestVersion({ manager: 'uv', name: 'missing', published: true }, { pypiIndex: index }))
+      .rejects.toThrow(/missing\/ returned 404/);
+  });
+
+  it('refuses packages installed from a URL', async () => {
+    await expect(getLatestVersion({ manager: 'uv', name: 'amplifier', published: false })).rejects.toThrow(/not a registry/);
+  });
+});
+
+describe.skipIf(process.platform === 'win32')('checkForUpdate', () => {
+  it('compares the installed version with npm view against the chosen registry', async () => {
+    await writeFakeNpm('2.0.0');
+    await writeScript('fakeagent', 'echo "fakeagent 1.9.0"');
+
+    const update = await checkForUpdate(fakeAgent('npm install -g fakeagent'), { npmRegistry: 'http://npm.mirror' });
+    expect(update).toMatchObject({ installed: true, current: '1.9.0', latest: '2.0.0', outdated: true });
+    expect(await fs.readFile(path.join(tmpHome, 'npm.log'), 'utf-8')).toBe('view fakeagent version --registry http://npm.mirror\n');
+  });
+
+  it('leaves outdated unknown when there is no registry to ask', async () => {
+    await writeScript('fakeagent', 'echo "fakeagent 1.9.0"');
+    expect(await checkForUpdate(fakeAgent('curl https://example.com/install | sh'))).toMatchObject({
+      installed: true,
+      latest: null,
+      outdated: null,
+      error: expect.stringContaining('not npm or uv'),
+    });
+  });
+});
+
+describe.skipIf(process.platform === 'win32')('upgradeAgent', () => {
+  it('runs the upgrade and confirms the new version', async () => {
+    await writeFakeNpm('2.0.0');
+    await writeScript('fakeagent', 'echo "fakeagent 1.9.0"');
+    const def = fakeAgent('npm install -g fakeagent');
+
+    const result = await upgradeAgent(def, await checkForUpdate(def), {}, 'ignore');
+    expect(result).toEqual({
+      type: 'fakeagent',
+      displayName: 'Fake Agent',
+      status: 'upgraded',
+      command: 'npm install -g fakeagent@latest',
+      exitCode: 0,
+      from: '1.9.0',
+      to: '2.0.0',
+      latest: '2.0.0',
+      path: path.join(binDir, 'fakeagent'),
+    });
+  });
+
+  it('passes the registry to npm as one argument, without a shell', async () => {
+    const agent = path.join(binDir, 'fakeagent');
+    const argsLog = path.join(tmpHome, 'npm-args.log');
+    await writeScript('npm', [
+      'case "$1" in',
+      '  view) echo 2.0.0 ;;',
+      `  install) printf '%s\\n' "$@" > '${argsLog}'; printf '#!/bin/sh\\necho "fakeagent 2.0.0"\\n' > '${agent}'; chmod +x '${agent}' ;;`,
+      'esac',
+    ].join('\n'));
+    await writeScript('fakeagent', 'echo "fakeagent 1.9.0"');
+    const def = fakeAgent('npm install -g fakeagent');
+    const marker = path.join(tmpHome, 'injected');
+    const registries = { npmRegistry: `http://npm.mirror/?a=1&b=2; touch ${marker}` };
+
+    const result = await upgradeAgent(def, await checkForUpdate(def, registries), registries, 'ignore');
+    expect(result.status).toBe('upgraded');
+    expect(await fs.readFile(argsLog, 'utf-8')).toBe(`install\n-g\nfakeagent@latest\n--registry\n${registries.npmRegistry}\n`);
+    await expect(fs.access(marker)).rejects.toThrow();
+  });
+
+  it('fails when PATH still runs the old copy', async () => {
+    // The "upgrade" installs somewhere else, so PATH keeps the old version.
+    await writeScript('npm', 'case "$1" in view) echo 2.0.0 ;; esac');
+    await writeScript('fakeagent', 'echo "fakeagent 1.9.0"');
+    const def = fakeAgent('npm install -g fakeagent');
+
+    const result = await upgradeAgent(def, await checkForUpdate(def), {}, 'ignore');
+    expect(result).toMatchObject({ status: 'failed', from: '1.9.0', to: '1.9.0' });
+    expect(result.error).toContain('PATH still runs');
+  });
+
+  it('refuses agents that are not installed', async () => {
+    await writeFakeNpm('2.0.0');
+    const def = fakeAgent('npm install -g fakeagent');
+    expect(await upgradeAgent(def, await checkForUpdate(def), {}, 'ignore')).toMatchObject({
+      status: 'failed',
+      error: 'Fake Agent is not installed; run `letsyolo install fakeagent`',
+    });
+  });
+});
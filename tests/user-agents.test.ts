@@ -0,0 +1,115 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { loadUserAgents, parseAgentDefinition } from '../src/user-agents.js';
+
+let agentsDir: string;
+
+beforeEach(async () => {
+  agentsDir = await fs.mkdtemp(path.join(os.tmpdir(), 'letsyolo-agents-test-'));
+});
+
+afterEach(async () => {
+  await fs.rm(agentsDir, { recursive: true, force: true });
+});
+
+describe('parseAgentDefinition', () => {
+  const minimal = { type: 'goose', binaries: ['goose'], yoloFlag: '--yolo' };
+
+  it('should fill in defaults for optional fields', () => {
+    const def = parseAgentDefinition(minimal, '/defs/goose.json');
+    expect(def).toMatchObject({
+      type: 'goose',
+      displayName: 'goose',
+      versionFlag: '--version',
+      configFormat: 'none',
+      persistentToggle: false,
+      source: '/defs/goose.json',
+    });
+    expect(def.installCommand).toContain('goose');
+    expect(def.manualInstall).toBe(true);
+  });
+
+  it('should treat a given installCommand as runnable', () => {
+    const def = parseAgentDefinition({ ...minimal, installCommand: 'brew install goose' }, '/defs/goose.json');
+    expect(def.installCommand).toBe('brew install goose');
+    expect(def.manualInstall).toBeUndefined();
+  });
+
+  it('should flatten dotted and nested enabled keys', () => {
+    const def = parseAgentDefinition(
+      {
+        ...minimal,
+        configPath: '/etc/goose/config.json',
+        enabled: { 'permissions.mode': 'auto', telemetry: { confirm: false } },
+      },
+      'goose.json',
+    );
+    expect(def.persistentToggle).toBe(true);
+    expect(def.configFormat).toBe('json');
+    expect(def.yoloSettings).toEqual([
+      { path: ['permissions', 'mode'], value: 'auto' },
+      { path: ['telemetry', 'confirm'], value: false },
+    ]);
+  });
+
+  it('should expand ~ in the config path', () => {
+    const def = parseAgentDefinition({ ...minimal, configPath: '~/.goose/config.toml' }, 'goose.json');
+    expect(def.configPath).toBe(path.join(os.homedir(), '.goose', 'config.toml'));
+    expect(def.configFormat).toBe('toml');
+  });
+
+  it('should reject definitions that clash with built-in agents', () => {
+    expect(() => parseAgentDefinition({ ...minimal, type: 'claude' }, 'x.json')).toThrow('clashes with a built-in agent');
+    expect(() => parseAgentDefinition({ ...minimal, aliases: ['codex'] }, 'x.json')).toThrow(
+      'alias clashes with a built-in agent: codex',
+    );
+  });
+
+  it('should reject incomplete definitions', () => {
+    expect(() => parseAgentDefinition({ type: 'goose', yoloFlag: '--yolo' }, 'x.json')).toThrow('"binaries"');
+    expect(() => parseAgentDefinition({ ...minimal, yoloFlag: undefined }, 'x.json')).toThrow('"yoloFlag" is required');
+    expect(() => parseAgentDefinition({ ...minimal, enabled: { mode: 'auto' } }, 'x.json')).toThrow('needs a "configPath"');
+    expect(() => parseAgentDefinition({ ...minimal, configPath: '/x/config.ini' }, 'x.json')).toThrow(
+      '"configFormat" (json, toml or yaml) is required',
+    );
+  });
+});
+
+describe('loadUserAgents', () => {
+  it('should return nothing when the directory does not exist', async () => {
+    expect(await loadUserAgents(path.join(agentsDir, 'missing'))).toEqual({ definitions: [], errors: [] });
+  });
+
+  it('should load JSON and YAML definitions and skip other files', async () => {
+    await fs.writeFile(
+      path.join(agentsDir, 'goose.yaml'),
+      'type: goose\nbinaries: [goose]\nyoloFlag: --yolo\naliases:\n  - goose-cli\n',
+    );
+    await fs.writeFile(
+      path.join(agentsDir, 'crush.json'),
+      JSON.stringify({ type: 'crush', binaries: ['crush'], yoloFlag: '--yolo' }),
+    );
+    await fs.writeFile(path.join(agentsDir, 'README.md'), '# notes');
+
+    const { definitions, errors } = await loadUserAgents(agentsDir);
+
+    expect(errors).toEqual([]);
+    expect(definitions.map((def) => def.type)).toEqual(['crush', 'goose']);
+    expect(definitions[1].aliases).toEqual(['goose-cli']);
+  });
+
+  it('should report broken files without dropping the rest', async () => {
+    await fs.writeFile(path.join(agentsDir, 'a.json'), '{ not json');
+    await fs.writeFile(path.join(agentsDir, 'b.yml'), 'type: goose\nbinaries: [goose]\nyoloFlag: --yolo\n');
+    await fs.writeFile(path.join(agentsDir, 'c.yml'), 'type: other\nbinaries: [x]\nyoloFlag: -y\naliases: [goose]\n');
+
+    const { definitions, errors } = await loadUserAgents(agentsDir);
+
+    expect(definitions.map((def) => def.type)).toEqual(['goose']);
+    expect(errors).toHaveLength(2);
+    expect(errors[0]).toContain('a.json');
+    expect(errors[1]).toContain('clashes with');
+  });
+});
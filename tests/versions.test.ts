@@ -0,0 +1,104 @@
+import { describe, expect, it } from 'vitest';
+import { AGENT_DEFINITIONS } from '../src/agents.js';
+import {
+  AGENT_VERSION_TABLE,
+  compareVersions,
+  formatVersion,
+  getAllYoloSettings,
+  inRange,
+  parseVersion,
+  resolveForVersion,
+} from '../src/versions.js';
+
+function definition(type: string) {
+  const def = AGENT_DEFINITIONS.find((d) => d.type === type);
+  if (!def) throw new Error(`missing ${type}`);
+  return def;
+}
+
+describe('parseVersion', () => {
+  it('should find the version in typical --version output', () => {
+    expect(parseVersion('codex-cli 0.46.0')).toEqual({ major: 0, minor: 46, patch: 0, prerelease: null });
+    expect(parseVersion('1.0.98 (Claude Code)')).toEqual({ major: 1, minor: 0, patch: 98, prerelease: null });
+    expect(parseVersion('aider v0.86.1')).toEqual({ major: 0, minor: 86, patch: 1, prerelease: null });
+    expect(parseVersion('0.9.0-nightly.20250918')?.prerelease).toBe('nightly.20250918');
+    expect(parseVersion('2.1')).toEqual({ major: 2, minor: 1, patch: 0, prerelease: null });
+  });
+
+  it('should return null when there is no version', () => {
+    expect(parseVersion(null)).toBeNull();
+    expect(parseVersion('')).toBeNull();
+    expect(parseVersion('amplifier')).toBeNull();
+  });
+});
+
+describe('compareVersions', () => {
+  const v = (text: string) => parseVersion(text)!;
+
+  it('should order by major, minor, patch and prerelease', () => {
+    expect(compareVersions(v('1.2.3'), v('1.2.3'))).toBe(0);
+    expect(compareVersions(v('1.10.0'), v('1.9.9'))).toBeGreaterThan(0);
+    expect(compareVersions(v('0.2.0'), v('1.0.0'))).toBeLessThan(0);
+    expect(compareVersions(v('1.0.0-beta.2'), v('1.0.0'))).toBeLessThan(0);
+    expect(compareVersions(v('1.0.0-beta.10'), v('1.0.0-beta.2'))).toBeGreaterThan(0);
+  });
+
+  it('should treat since as inclusive and until as exclusive', () => {
+    expect(inRange(v('0.3.0'), { since: '0.3.0', until: '0.4.0' })).toBe(true);
+    expect(inRange(v('0.4.0'), { since: '0.3.0', until: '0.4.0' })).toBe(false);
+    expect(inRange(v('0.2.9'), { until: '0.3.0' })).toBe(true);
+    expect(formatVersion(v('v1.2'))).toBe('1.2.0');
+  });
+});
+
+describe('resolveForVersion', () => {
+  it('should keep current settings for current and unparseable versions', () => {
+    const codex = definition('codex');
+    expect(resolveForVersion(codex, 'codex-cli 0.46.0')).toMatchObject({ definition: codex });
+    expect(resolveForVersion(codex, 'garbage').definition).toBe(codex);
+    expect(resolveForVersion(codex, null).warning).toBeUndefined();
+  });
+
+  it('should pick older flags and config keys by version range', () => {
+    expect(resolveForVersion(definition('codex'), 'codex-cli 0.20.1').definition.yoloFlag).toBe(
+      '--dangerously-bypass-approvals-and-sandbox',
+    );
+    expect(resolveForVersion(definition('gemini'), '0.2.2').definition.yoloSettings).toEqual([
+      { path: ['autoAccept'], value: true },
+    ]);
+    const aider = resolveForVersion(definition('aider'), 'aider 0.55.0').definition;
+    expect(aider.yoloFlag).toBe('--yes');
+    expect(aider.yoloSettings).toContainEqual({ path: ['yes'], value: true });
+  });
+
+  it('should warn when the installed version predates the oldest supported one', () => {
+    const result = resolveForVersion(definition('codex'), 'codex-cli 0.9.0');
+    expect(result.warning).toContain('Codex 0.9.0 is older than the oldest supported version (0.13.0)');
+    expect(result.warning).toContain('npm install -g @openai/codex');
+  });
+
+  it('should have valid versions throughout the table', () => {
+    for (const table of Object.values(AGENT_VERSION_TABLE)) {
+      expect(parseVersion(table!.minimum)).not.toBeNull();
+      for (const range of table!.ranges) {
+        if (range.since) expect(parseVersion(range.since)).not.toBeNull();
+        if (range.until) expect(parseVersion(range.until)).not.toBeNull();
+      }
+    }
+  });
+});
+
+describe('getAllYoloSettings', () => {
+  it('should merge every release\'s keys without duplicates', () => {
+    expect(getAllYoloSettings(definition('aider'))).toEqual([
+      { path: ['yes-always'], value: true },
+      { path: ['auto-commits'], value: true },
+      { path: ['yes'], value: true },
+    ]);
+    const current = [
+      { path: ['yes'], value: true },
+      { path: ['auto-commits'], value: true },
+    ];
+    expect(getAllYoloSettings({ ...definition('aider'), yoloSettings: current })).toEqual(current);
+  });
+});
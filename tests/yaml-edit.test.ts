@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest';
+import { parseYaml } from '../src/yaml.js';
+import { removeYamlValue, setYamlValue } from '../src/yaml-edit.js';
+
+const ANNOTATED = [
+  '# Aider config — hand-tuned',
+  'model: sonnet   # default model',
+  '',
+  '# Files always in the chat',
+  'read:',
+  '- CONVENTIONS.md',
+  '- docs/style.md',
+  '',
+  'lint-cmd:',
+  '  python: ruff check  # fast',
+  '  go: golangci-lint run',
+  'notes: |',
+  '  yes-always: true',
+  '  not a key',
+  '',
+].join('\n');
+
+describe('setYamlValue', () => {
+  it('should replace an existing value in place and keep its comment', () => {
+    expect(setYamlValue(ANNOTATED, ['model'], 'opus')).toBe(
+      ANNOTATED.replace('model: sonnet   # default model', 'model: opus   # default model'),
+    );
+  });
+
+  it('should append new root keys after the last entry', () => {
+    const result = setYamlValue(ANNOTATED, ['yes-always'], true);
+    expect(result).toBe(`${ANNOTATED}yes-always: true\n`);
+    expect((parseYaml(result) as Record<string, unknown>)['yes-always']).toBe(true);
+  });
+
+  it('should not mistake block scalar lines or sequence items for keys', () => {
+    const result = setYamlValue(ANNOTATED, ['yes-always'], true);
+    const parsed = parseYaml(result) as Record<string, unknown>;
+    expect(parsed.notes).toBe('yes-always: true\nnot a key\n');
+    expect(parsed.read).toEqual(['CONVENTIONS.md', 'docs/style.md']);
+  });
+
+  it('should edit and append keys inside nested mappings', () => {
+    expect(setYamlValue(ANNOTATED, ['lint-cmd', 'go'], 'go vet')).toBe(
+      ANNOTATED.replace('  go: golangci-lint run', '  go: go vet'),
+    );
+    expect(setYamlValue(ANNOTATED, ['lint-cmd', 'rust'], 'cargo clippy')).toBe(
+      ANNOTATED.replace('  go: golangci-lint run\n', '  go: golangci-lint run\n  rust: cargo clippy\n'),
+    );
+  });
+
+  it('should create missing parent mappings', () => {
+    expect(setYamlValue('model: x\n', ['tools', 'autoAccept'], true)).toBe('model: x\ntools:\n  autoAccept: true\n');
+  });
+
+  it('should turn an empty key into a mapping', () => {
+    expect(setYamlValue('tools:\nmodel: x\n', ['tools', 'auto'], true)).toBe('tools:\n  auto: true\nmodel: x\n');
+  });
+
+  it('should quote strings that would otherwise change meaning', () => {
+    const result = setYamlValue('', ['a'], 'true');
+    expect(result).toBe('a: "true"\n');
+    expect(parseYaml(setYamlValue('', ['b'], 'x: y # z'))).toEqual({ b: 'x: y # z' });
+  });
+
+  it('should handle empty files, missing trailing newlines and CRLF', () => {
+    expect(setYamlValue('', ['yes-always'], true)).toBe('yes-always: true\n');
+    expect(setYamlValue('model: x', ['yes-always'], true)).toBe('model: x\nyes-always: true');
+    expect(setYamlValue('model: x\r\n', ['yes-always'], true)).toBe('model: x\r\nyes-always: true\r\n');
+  });
+
+  it('should refuse to nest under a scalar', () => {
+    expect(() => setYamlValue('model: x\n', ['model', 'name'], 'y')).toThrow('model is not a mapping');
+  });
+});
+
+describe('removeYamlValue', () => {
+  it('should remove only the target line', () => {
+    expect(removeYamlValue(ANNOTATED, ['model'])).toBe(ANNOTATED.replace('model: sonnet   # default model\n', ''));
+  });
+
+  it('should remove nested blocks and sequences entirely', () => {
+    expect(removeYamlValue(ANNOTATED, ['read'])).toBe(ANNOTATED.replace('read:\n- CONVENTIONS.md\n- docs/style.md\n', ''));
+    expect(removeYamlValue(ANNOTATED, ['lint-cmd'])).toBe(
+      ANNOTATED.replace('lint-cmd:\n  python: ruff check  # fast\n  go: golangci-lint run\n', ''),
+    );
+  });
+
+  it('should return the text unchanged when the key is missing', () => {
+    expect(removeYamlValue(ANNOTATED, ['yes-always'])).toBe(ANNOTATED);
+  });
+
+  it('should round-trip set then remove back to the original bytes', () => {
+    const enabled = setYamlValue(setYamlValue(ANNOTATED, ['yes-always'], true), ['auto-commits'], true);
+    expect(removeYamlValue(removeYamlValue(enabled, ['yes-always']), ['auto-commits'])).toBe(ANNOTATED);
+  });
+});
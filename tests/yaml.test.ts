@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import { parseYaml, parseYamlScalar } from '../src/yaml.js';
+
+describe('parseYamlScalar', () => {
+  it('should parse plain scalars', () => {
+    expect(parseYamlScalar('true')).toBe(true);
+    expect(parseYamlScalar('False')).toBe(false);
+    expect(parseYamlScalar('42')).toBe(42);
+    expect(parseYamlScalar('1.5')).toBe(1.5);
+    expect(parseYamlScalar('~')).toBeNull();
+    expect(parseYamlScalar('null')).toBeNull();
+    expect(parseYamlScalar('--yolo')).toBe('--yolo');
+  });
+
+  it('should parse quoted strings', () => {
+    expect(parseYamlScalar('"a \\"b\\"\\n"')).toBe('a "b"\n');
+    expect(parseYamlScalar("'it''s'")).toBe("it's");
+    expect(parseYamlScalar('"true"')).toBe('true');
+  });
+
+  it('should reject anchors and aliases', () => {
+    expect(() => parseYamlScalar('*ref', 3)).toThrow('line 3');
+  });
+});
+
+describe('parseYaml', () => {
+  it('should parse nested mappings and sequences with comments', () => {
+    const text = [
+      '# agent',
+      'type: goose   # id',
+      'binaries:',
+      '  - goose',
+      '  - "goose-cli"',
+      'enabled:',
+      '  permissions:',
+      '    mode: auto',
+      'aliases: [g, "go # ose"]',
+      'url: http://example.com/#anchor',
+      '',
+    ].join('\n');
+
+    expect(parseYaml(text)).toEqual({
+      type: 'goose',
+      binaries: ['goose', 'goose-cli'],
+      enabled: { permissions: { mode: 'auto' } },
+      aliases: ['g', 'go # ose'],
+      url: 'http://example.com/#anchor',
+    });
+  });
+
+  it('should allow sequences at the same indentation as their key', () => {
+    expect(parseYaml('read:\n- a.md\n- b.md\nmodel: gpt\n')).toEqual({ read: ['a.md', 'b.md'], model: 'gpt' });
+  });
+
+  it('should parse mappings inside sequence items', () => {
+    expect(parseYaml('servers:\n  - name: a\n    port: 1\n  - name: b\n')).toEqual({
+      servers: [{ name: 'a', port: 1 }, { name: 'b' }],
+    });
+  });
+
+  it('should parse flow mappings', () => {
+    expect(parseYaml('env: {A: 1, B: "x, y"}\n')).toEqual({ env: { A: 1, B: 'x, y' } });
+  });
+
+  it('should parse literal and folded block scalars', () => {
+    expect(parseYaml('a: |\n  line 1\n  # kept\n\n  line 3\nb: >-\n  folded\n  text\n')).toEqual({
+      a: 'line 1\n# kept\n\nline 3\n',
+      b: 'folded text',
+    });
+  });
+
+  it('should treat empty documents and empty values as null', () => {
+    expect(parseYaml('# only a comment\n')).toBeNull();
+    expect(parseYaml('---\nkey:\n')).toEqual({ key: null });
+  });
+
+  it('should report duplicate keys and bad indentation with line numbers', () => {
+    expect(() => parseYaml('a: 1\na: 2\n')).toThrow('line 2: duplicate key: a');
+    expect(() => parseYaml('a: 1\n  b: 2\n')).toThrow('line 2');
+  });
+
+  it('should reject multiple documents', () => {
+    expect(() => parseYaml('---\na: 1\n---\nb: 2\n')).toThrow('multiple documents');
+  });
+});